@@ -0,0 +1,140 @@
+import crypto from 'node:crypto'
+import express from 'express'
+import { ModelServer } from '#lllms/server.js'
+import { LogLevels } from '#lllms/lib/logger.js'
+
+export interface AdminAPIOptions {
+	// required as bearer token in the authorization header, if set
+	token?: string
+}
+
+function createTokenMiddleware(token: string): express.RequestHandler {
+	const expected = crypto.createHash('sha256').update(token).digest()
+	return (req, res, next) => {
+		const header = req.headers.authorization ?? ''
+		const [scheme, credentials] = header.split(' ')
+		// compare hashes, so the comparison takes the same time regardless of length
+		const given = crypto
+			.createHash('sha256')
+			.update(credentials ?? '')
+			.digest()
+		if (scheme !== 'Bearer' || !crypto.timingSafeEqual(given, expected)) {
+			res.status(401).json({ error: 'Unauthorized' })
+			return
+		}
+		next()
+	}
+}
+
+export function createAdminMiddleware(
+	modelServer: ModelServer,
+	options: AdminAPIOptions = {},
+) {
+	const router = express.Router()
+	if (options.token) {
+		router.use(createTokenMiddleware(options.token))
+	}
+
+	const getInstanceStatus = (instanceId: string) => {
+		return modelServer.pool.getStatus().instances[instanceId]
+	}
+
+	router.param('modelId', (req, res, next, modelId) => {
+		if (!modelServer.modelExists(modelId)) {
+			res.status(404).json({ error: 'Model not found' })
+			return
+		}
+		next()
+	})
+
+	router.param('instanceId', (req, res, next, instanceId) => {
+		if (!modelServer.pool.instances[instanceId]) {
+			res.status(404).json({ error: 'Instance not found' })
+			return
+		}
+		next()
+	})
+
+	// starts preparing the model in the background
+	router.post('/models/:modelId/prepare', (req, res) => {
+		const modelId = req.params.modelId
+		const model = modelServer.store.models[modelId]
+		if (model.status === 'ready') {
+			res.json({ model: modelId, status: model.status })
+			return
+		}
+		modelServer.prepareModel(modelId).catch((error) => {
+			modelServer.log(LogLevels.error, 'Error preparing model', {
+				model: modelId,
+				error,
+			})
+		})
+		res.status(202).json({ model: modelId, status: 'preparing' })
+	})
+
+	// spawns instances until there are count of them, or maxInstances is reached
+	router.post('/models/:modelId/load', async (req, res) => {
+		const modelId = req.params.modelId
+		const count = req.body?.count ?? 1
+		if (!Number.isInteger(count) || count < 1) {
+			res.status(400).json({ error: 'count must be a positive integer' })
+			return
+		}
+		try {
+			await modelServer.loadModelInstances(modelId, count)
+		} catch (error) {
+			res.status(500).json({ error: (error as Error).message })
+			return
+		}
+		const instances = Object.entries(modelServer.pool.getStatus().instances)
+			.filter(([, instance]) => instance.model === modelId)
+			.map(([id, instance]) => ({ id, ...instance }))
+		res.json({ model: modelId, instances })
+	})
+
+	router.delete('/models/:modelId/files', async (req, res) => {
+		const modelId = req.params.modelId
+		const hasInstances = Object.values(modelServer.pool.instances).some(
+			(instance) => instance.modelId === modelId,
+		)
+		if (hasInstances) {
+			res.status(409).json({ error: 'Model has loaded instances' })
+			return
+		}
+		if (modelServer.store.models[modelId].status === 'preparing') {
+			res.status(409).json({ error: 'Model is being prepared' })
+			return
+		}
+		try {
+			await modelServer.deleteModelFiles(modelId)
+		} catch (error) {
+			res.status(500).json({ error: (error as Error).message })
+			return
+		}
+		res.json({
+			model: modelId,
+			status: modelServer.store.models[modelId].status,
+		})
+	})
+
+	// waits for running tasks of the instance to finish before disposing it
+	router.post('/instances/:instanceId/unload', async (req, res) => {
+		const instanceId = req.params.instanceId
+		const modelId = modelServer.pool.instances[instanceId].modelId
+		try {
+			await modelServer.unloadInstance(instanceId)
+		} catch (error) {
+			res.status(500).json({ error: (error as Error).message })
+			return
+		}
+		res.json({ id: instanceId, model: modelId })
+	})
+
+	router.post('/instances/:instanceId/reset', (req, res) => {
+		const instanceId = req.params.instanceId
+		modelServer.resetInstance(instanceId)
+		res.json({ id: instanceId, ...getInstanceStatus(instanceId) })
+	})
+
+	return router
+}
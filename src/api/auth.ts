@@ -0,0 +1,130 @@
+import fs from 'node:fs'
+import crypto from 'node:crypto'
+import type { IncomingMessage } from 'node:http'
+import express from 'express'
+import { parse as parseYAML } from 'yaml'
+import { Logger, LogLevels } from '#lllms/lib/logger.js'
+import { RateLimiter, RateLimits } from '#lllms/lib/rateLimiter.js'
+
+export interface APIKey {
+	key: string
+	// shows up in logs and is used as the requests tenant
+	label?: string
+	// model ids the key may use. all models if unset.
+	models?: string[]
+	// limits for all requests of the key
+	limits?: RateLimits
+	// limits for requests of the key to a model, by model id
+	modelLimits?: Record<string, RateLimits>
+}
+
+export interface AuthOptions {
+	keys?: APIKey[]
+	// json or yaml file containing a list of keys
+	keysFile?: string
+	// persists rate limit counters to this json file
+	usageFile?: string
+}
+
+export interface RequestAuth {
+	apiKey: APIKey
+	// identifies the key in rate limit counters, without exposing it
+	keyId: string
+	rateLimiter?: RateLimiter
+}
+
+const requestAuths = new WeakMap<IncomingMessage, RequestAuth>()
+
+function hashKey(key: string) {
+	return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+export function loadAPIKeys(options: AuthOptions) {
+	const keys = [...(options.keys ?? [])]
+	if (options.keysFile) {
+		const fileKeys = parseYAML(fs.readFileSync(options.keysFile, 'utf8'))
+		if (!Array.isArray(fileKeys)) {
+			throw new Error(`Keys file must contain a list: ${options.keysFile}`)
+		}
+		keys.push(...fileKeys)
+	}
+	for (const apiKey of keys) {
+		if (typeof apiKey?.key !== 'string' || !apiKey.key) {
+			throw new Error('API keys must have a non-empty key')
+		}
+	}
+	if (!keys.length) {
+		throw new Error('Auth is enabled but no API keys are configured')
+	}
+	return keys
+}
+
+// requires a valid key as bearer token in the authorization header
+export function createAuthMiddleware(
+	options: AuthOptions,
+	log?: Logger,
+	rateLimiter?: RateLimiter,
+): express.RequestHandler {
+	// look up hashes, so the time it takes doesnt depend on how much of the key matches
+	const keys = new Map(
+		loadAPIKeys(options).map((apiKey) => [hashKey(apiKey.key), apiKey]),
+	)
+	return (req, res, next) => {
+		const [scheme, token] = (req.headers.authorization ?? '').split(' ')
+		const keyHash = scheme === 'Bearer' && token ? hashKey(token) : undefined
+		const apiKey = keyHash ? keys.get(keyHash) : undefined
+		if (!apiKey) {
+			res.set('WWW-Authenticate', 'Bearer')
+			res.status(401).json({
+				error: {
+					message: 'Incorrect API key provided.',
+					type: 'invalid_request_error',
+					param: null,
+					code: 'invalid_api_key',
+				},
+			})
+			return
+		}
+		log?.(LogLevels.debug, 'Authenticated request', {
+			apiKey: apiKey.label,
+			method: req.method,
+			url: req.originalUrl,
+		})
+		requestAuths.set(req, {
+			apiKey,
+			keyId: keyHash!.slice(0, 16),
+			rateLimiter,
+		})
+		next()
+	}
+}
+
+export function getRequestAuth(req: IncomingMessage) {
+	return requestAuths.get(req)
+}
+
+export function getRequestAPIKey(req: IncomingMessage) {
+	return requestAuths.get(req)?.apiKey
+}
+
+// true if auth is disabled or the requests key may use the model
+export function isModelAllowed(req: IncomingMessage, modelId: string) {
+	const apiKey = requestAuths.get(req)?.apiKey
+	if (!apiKey?.models) {
+		return true
+	}
+	return apiKey.models.includes(modelId)
+}
+
+// for endpoints that expose all models, which keys limited to some of them may not use
+export function requireAllModelsAccess(): express.RequestHandler {
+	return (req, res, next) => {
+		if (requestAuths.get(req)?.apiKey.models) {
+			res.status(403).json({
+				error: 'API key may only access some models',
+			})
+			return
+		}
+		next()
+	}
+}
@@ -0,0 +1,175 @@
+import type { ServerResponse } from 'node:http'
+import type { ErrorObject } from 'ajv'
+import {
+	ModelNotFoundError,
+	ModelUnavailableError,
+	QueueFullError,
+	QueueTimeoutError,
+	ShutdownError,
+	UnsupportedTaskError,
+} from '#lllms/errors.js'
+
+// https://platform.openai.com/docs/guides/error-codes
+export interface OpenAIError {
+	message: string
+	type: string
+	param: string | null
+	code: string | null
+}
+
+export function sendErrorResponse(
+	res: ServerResponse,
+	status: number,
+	error: OpenAIError,
+	headers: Record<string, string> = {},
+) {
+	res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+	res.end(JSON.stringify({ error }, null, 2))
+}
+
+export function sendInvalidRequestError(
+	res: ServerResponse,
+	message: string,
+	param: string | null = null,
+	code: string | null = null,
+) {
+	sendErrorResponse(res, 400, {
+		message,
+		type: 'invalid_request_error',
+		param,
+		code,
+	})
+}
+
+function createModelNotFoundError(modelId: string): OpenAIError {
+	return {
+		message: `The model \`${modelId}\` does not exist or you do not have access to it.`,
+		type: 'invalid_request_error',
+		param: null,
+		code: 'model_not_found',
+	}
+}
+
+// also used for models the api key may not use, so their existence isnt revealed
+export function sendModelNotFoundError(res: ServerResponse, modelId: string) {
+	sendErrorResponse(res, 404, createModelNotFoundError(modelId))
+}
+
+// turns an ajv instance path like /messages/0/role into messages[0].role
+function formatParam(instancePath: string, property?: string) {
+	const segments = instancePath.split('/').slice(1)
+	if (property) {
+		segments.push(property)
+	}
+	return segments.reduce((param, segment) => {
+		if (/^\d+$/.test(segment)) {
+			return `${param}[${segment}]`
+		}
+		return param ? `${param}.${segment}` : segment
+	}, '')
+}
+
+// responds with the first schema violation
+export function sendValidationError(
+	res: ServerResponse,
+	errors: ErrorObject[],
+) {
+	const error = errors[0]
+	if (error.keyword === 'required') {
+		const param = formatParam(error.instancePath, error.params.missingProperty)
+		sendInvalidRequestError(
+			res,
+			`Missing required parameter: '${param}'.`,
+			param,
+			'missing_required_parameter',
+		)
+		return
+	}
+	const param = formatParam(error.instancePath)
+	let message = error.message ?? 'is invalid'
+	if (error.keyword === 'enum') {
+		message = `${message}: ${error.params.allowedValues
+			.map((value: unknown) => JSON.stringify(value))
+			.join(', ')}`
+	}
+	sendInvalidRequestError(
+		res,
+		`Invalid value for '${param}': ${message}.`,
+		param,
+		error.keyword === 'type' ? 'invalid_type' : 'invalid_value',
+	)
+}
+
+function toOpenAIError(error: unknown): {
+	status: number
+	error: OpenAIError
+	retryAfter?: number
+} {
+	// models can be removed while requests wait for them
+	if (error instanceof ModelNotFoundError) {
+		return { status: 404, error: createModelNotFoundError(error.modelId) }
+	}
+	if (error instanceof UnsupportedTaskError) {
+		return {
+			status: 400,
+			error: {
+				message: error.message,
+				type: 'invalid_request_error',
+				param: 'model',
+				code: 'unsupported_task',
+			},
+		}
+	}
+	const retryableErrors = [
+		[QueueFullError, 429, 'queue_full'],
+		[QueueTimeoutError, 503, 'queue_timeout'],
+		[ModelUnavailableError, 503, 'model_unavailable'],
+		[ShutdownError, 503, 'server_shutting_down'],
+	] as const
+	for (const [errorClass, status, code] of retryableErrors) {
+		if (error instanceof errorClass) {
+			return {
+				status,
+				error: {
+					message: error.message,
+					type: 'server_error',
+					param: null,
+					code,
+				},
+				retryAfter: 'retryAfter' in error ? error.retryAfter : undefined,
+			}
+		}
+	}
+	// details of unexpected errors only go to the log
+	return {
+		status: 500,
+		error: {
+			message: 'The server had an error while processing your request.',
+			type: 'server_error',
+			param: null,
+			code: null,
+		},
+	}
+}
+
+// responds with the status matching the error. full queues get a 429, timeouts, unavailable models
+// and shutdowns a 503, which clients may retry. once a stream has started, the error is sent as
+// an sse error event instead, which the openai clients throw. returns the status code.
+export function sendProcessingError(res: ServerResponse, error: unknown) {
+	const { status, error: openAIError, retryAfter } = toOpenAIError(error)
+	if (res.headersSent) {
+		if (!res.writableEnded) {
+			res.write(
+				`event: error\ndata: ${JSON.stringify({ error: openAIError })}\n\n`,
+			)
+			res.end()
+		}
+		return status
+	}
+	const headers: Record<string, string> = {}
+	if (retryAfter !== undefined) {
+		headers['Retry-After'] = String(retryAfter)
+	}
+	sendErrorResponse(res, status, openAIError, headers)
+	return status
+}
@@ -1,6 +1,7 @@
 import type { IncomingMessage, ServerResponse } from 'node:http'
 import type { OpenAI } from 'openai'
 import type { ModelServer } from '#lllms/server.js'
+import type { ModelInstanceHandle } from '#lllms/pool.js'
 import {
 	ChatCompletionRequest,
 	ToolDefinition,
@@ -9,10 +10,23 @@ import {
 	UserMessage,
 	AssistantMessage,
 	SystemMessage,
+	ChatCompletionChoice,
+	TokenLogprob,
 } from '#lllms/types/index.js'
 import { parseJSONRequestBody } from '#lllms/api/parseJSONRequestBody.js'
+import { parseRequestPriority } from '#lllms/api/parseRequestPriority.js'
+import { getRequestAPIKey, isModelAllowed } from '#lllms/api/auth.js'
+import { checkRateLimits, recordTokenUsage } from '#lllms/api/rateLimits.js'
 import { omitEmptyValues } from '#lllms/lib/util.js'
+import { LogLevels } from '#lllms/lib/logger.js'
 import { finishReasonMap, messageRoleMap } from '../enums.js'
+import {
+	sendInvalidRequestError,
+	sendModelNotFoundError,
+	sendProcessingError,
+	sendValidationError,
+} from '../errors.js'
+import { validateChatCompletionParams } from '../schemas.js'
 
 interface OpenAIChatCompletionParams
 	extends Omit<OpenAI.ChatCompletionCreateParamsStreaming, 'stream'> {
@@ -26,6 +40,58 @@ interface OpenAIChatCompletionChunk extends OpenAI.ChatCompletionChunk {
 	usage?: OpenAI.CompletionUsage
 }
 
+function createResponseLogprobs(
+	logprobs?: TokenLogprob[],
+): OpenAI.ChatCompletion.Choice.Logprobs | null {
+	if (!logprobs) {
+		return null
+	}
+	return {
+		content: logprobs.map((entry) => ({
+			token: entry.token,
+			logprob: entry.logprob,
+			bytes: [...Buffer.from(entry.token)],
+			top_logprobs: (entry.topLogprobs ?? []).map((top) => ({
+				token: top.token,
+				logprob: top.logprob,
+				bytes: [...Buffer.from(top.token)],
+			})),
+		})),
+	}
+}
+
+function createResponseChoice(
+	choice: ChatCompletionChoice,
+	index: number,
+): OpenAI.ChatCompletion.Choice {
+	const responseChoice: OpenAI.ChatCompletion.Choice = {
+		index,
+		message: {
+			role: 'assistant',
+			content: choice.message.content || null,
+		},
+		logprobs: createResponseLogprobs(choice.logprobs),
+		finish_reason: choice.finishReason
+			? finishReasonMap[choice.finishReason]
+			: 'stop',
+	}
+	if (choice.message.toolCalls?.length) {
+		responseChoice.message.tool_calls = choice.message.toolCalls.map(
+			(call) => {
+				return {
+					id: call.id,
+					type: 'function',
+					function: {
+						name: call.name,
+						arguments: JSON.stringify(call.parameters),
+					},
+				}
+			},
+		)
+	}
+	return responseChoice
+}
+
 // v1/chat/completions
 // https://platform.openai.com/docs/api-reference/chat/create
 export function createChatCompletionHandler(llms: ModelServer) {
@@ -36,53 +102,80 @@ export function createChatCompletionHandler(llms: ModelServer) {
 			const body = await parseJSONRequestBody(req)
 			args = body
 		} catch (e) {
-			console.error(e)
-			res.writeHead(400, { 'Content-Type': 'application/json' })
-			res.end(JSON.stringify({ error: 'Invalid request' }))
+			llms.log(LogLevels.warn, 'Failed to parse request body', { error: e })
+			sendInvalidRequestError(res, 'We could not parse the JSON body of your request.')
+			return
+		}
+
+		if (!validateChatCompletionParams(args)) {
+			sendValidationError(res, validateChatCompletionParams.errors!)
+			return
+		}
+
+		if (!llms.modelExists(args.model) || !isModelAllowed(req, args.model)) {
+			sendModelNotFoundError(res, args.model)
+			return
+		}
+
+		let priority: number | undefined
+		try {
+			priority = parseRequestPriority(req)
+		} catch (e: any) {
+			sendInvalidRequestError(res, e.message)
 			return
 		}
 
-		// TODO ajv schema validation?
-		if (!args.model || !args.messages) {
-			res.writeHead(400, { 'Content-Type': 'application/json' })
-			res.end(JSON.stringify({ error: 'Invalid request (need at least model and messages)' }))
+		if (typeof args.top_logprobs === 'number' && !args.logprobs) {
+			sendInvalidRequestError(
+				res,
+				'logprobs must be set to true if top_logprobs is used.',
+				'top_logprobs',
+				'invalid_value',
+			)
 			return
 		}
 
-		if (!llms.modelExists(args.model)) {
-			res.writeHead(400, { 'Content-Type': 'application/json' })
-			res.end(JSON.stringify({ error: 'Model does not exist' }))
+		if (!checkRateLimits(req, res, args.model)) {
 			return
 		}
 
 		const controller = new AbortController()
 		req.on('close', () => {
-			console.debug('Client closed connection')
+			llms.log(LogLevels.debug, 'Client closed connection')
 			controller.abort()
 		})
 		req.on('end', () => {
-			console.debug('Client ended connection')
+			llms.log(LogLevels.debug, 'Client ended connection')
 			controller.abort()
 		})
 		req.on('aborted', () => {
-			console.debug('Client aborted connection')
+			llms.log(LogLevels.debug, 'Client aborted connection')
 			controller.abort()
 		})
 		req.on('error', () => {
-			console.debug('Client error')
+			llms.log(LogLevels.debug, 'Client error')
 			controller.abort()
 		})
 
-		try {
-			let ssePing: NodeJS.Timeout | undefined
-			if (args.stream) {
+		// stream headers are sent once an instance is acquired or the first ping is due,
+		// so queue errors can still be responded to with a status code
+		const startStream = () => {
+			if (!res.headersSent) {
 				res.writeHead(200, {
 					'Content-Type': 'text/event-stream',
 					'Cache-Control': 'no-cache',
 					Connection: 'keep-alive',
 				})
 				res.flushHeaders()
+			}
+		}
+		let ssePing: NodeJS.Timeout | undefined
+		let releaseInstance: ModelInstanceHandle['release'] | undefined
+
+		try {
+			if (args.stream) {
 				ssePing = setInterval(() => {
+					startStream()
 					res.write(':ping\n\n')
 				}, 30000)
 			}
@@ -128,6 +221,8 @@ export function createChatCompletionHandler(llms: ModelServer) {
 
 			const completionReq = omitEmptyValues<ChatCompletionRequest>({
 				model: args.model,
+				priority,
+				tenant: getRequestAPIKey(req)?.label,
 				messages: args.messages.map((msg) => {
 					const role = messageRoleMap[msg.role]
 					let content: ChatMessage['content']
@@ -175,6 +270,9 @@ export function createChatCompletionHandler(llms: ModelServer) {
 					: undefined,
 				topP: args.top_p ? args.top_p : undefined,
 				tokenBias: args.logit_bias ? args.logit_bias : undefined,
+				n: args.n ? args.n : undefined,
+				logprobs: args.logprobs ? true : undefined,
+				topLogprobs: args.logprobs ? (args.top_logprobs ?? 0) : undefined,
 				grammar: completionGrammar,
 				tools: completionTools,
 				// additional non-spec params
@@ -188,10 +286,14 @@ export function createChatCompletionHandler(llms: ModelServer) {
 				completionReq,
 				controller.signal,
 			)
-			
+			releaseInstance = release
+
 			if (ssePing) {
 				clearInterval(ssePing)
 			}
+			if (args.stream) {
+				startStream()
+			}
 			const task = instance.processChatCompletionTask(completionReq, {
 				signal: controller.signal,
 				onChunk: (chunk) => {
@@ -203,12 +305,12 @@ export function createChatCompletionHandler(llms: ModelServer) {
 							created: Math.floor(task.createdAt.getTime() / 1000),
 							choices: [
 								{
-									index: 0,
+									index: chunk.index ?? 0,
 									delta: {
 										role: 'assistant',
 										content: chunk.text,
 									},
-									logprobs: null,
+									logprobs: createResponseLogprobs(chunk.logprobs),
 									finish_reason: null,
 								},
 							],
@@ -219,6 +321,11 @@ export function createChatCompletionHandler(llms: ModelServer) {
 			})
 
 			const result = await task.result
+			recordTokenUsage(
+				req,
+				args.model,
+				result.promptTokens + result.completionTokens,
+			)
 
 			release()
 
@@ -268,16 +375,14 @@ export function createChatCompletionHandler(llms: ModelServer) {
 						model: task.model,
 						created: Math.floor(task.createdAt.getTime() / 1000),
 						system_fingerprint: instance.fingerprint,
-						choices: [
-							{
-								index: 0,
-								delta: {},
-								logprobs: null,
-								finish_reason: result.finishReason
-									? finishReasonMap[result.finishReason]
-									: 'stop',
-							},
-						],
+						choices: (result.choices ?? [result]).map((choice, index) => ({
+							index,
+							delta: {},
+							logprobs: null,
+							finish_reason: choice.finishReason
+								? finishReasonMap[choice.finishReason]
+								: 'stop',
+						})),
 						usage: {
 							prompt_tokens: result.promptTokens,
 							completion_tokens: result.completionTokens,
@@ -295,51 +400,25 @@ export function createChatCompletionHandler(llms: ModelServer) {
 					object: 'chat.completion',
 					created: Math.floor(task.createdAt.getTime() / 1000),
 					system_fingerprint: instance.fingerprint,
-					choices: [
-						{
-							index: 0,
-							message: {
-								role: 'assistant',
-								content: result.message.content || null,
-							},
-							logprobs: null,
-							finish_reason: result.finishReason
-								? finishReasonMap[result.finishReason]
-								: 'stop',
-						},
-					],
+					choices: (result.choices ?? [result]).map(createResponseChoice),
 					usage: {
 						prompt_tokens: result.promptTokens,
 						completion_tokens: result.completionTokens,
 						total_tokens: result.totalTokens,
 					},
 				}
-				if (
-					'toolCalls' in result.message &&
-					result.message.toolCalls?.length
-				) {
-					response.choices[0].message.tool_calls =
-						result.message.toolCalls.map((call) => {
-							return {
-								id: call.id,
-								type: 'function',
-								function: {
-									name: call.name,
-									arguments: JSON.stringify(call.parameters),
-								},
-							}
-						})
-				}
 				res.writeHead(200, { 'Content-Type': 'application/json' })
 				res.end(JSON.stringify(response, null, 2))
 			}
 		} catch (e) {
-			console.error(e)
-			if (args.stream) {
-				res.write('data: [ERROR]')
-			} else {
-				res.writeHead(500, { 'Content-Type': 'application/json' })
-				res.end(JSON.stringify({ error: 'Internal server error' }))
+			if (ssePing) {
+				clearInterval(ssePing)
+			}
+			releaseInstance?.()
+			if (sendProcessingError(res, e) === 500) {
+				llms.log(LogLevels.error, 'Failed to process chat completion request', {
+					error: e,
+				})
 			}
 		}
 	}
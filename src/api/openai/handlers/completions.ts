@@ -1,10 +1,26 @@
 import type { IncomingMessage, ServerResponse } from 'node:http'
 import type { OpenAI } from 'openai'
 import type { ModelServer } from '#lllms/server.js'
-import { TextCompletionRequest } from '#lllms/types/index.js'
+import type { ModelInstanceHandle } from '#lllms/pool.js'
+import {
+	TextCompletionRequest,
+	TextCompletionChoice,
+	TokenLogprob,
+} from '#lllms/types/index.js'
 import { parseJSONRequestBody } from '#lllms/api/parseJSONRequestBody.js'
+import { parseRequestPriority } from '#lllms/api/parseRequestPriority.js'
+import { getRequestAPIKey, isModelAllowed } from '#lllms/api/auth.js'
+import { checkRateLimits, recordTokenUsage } from '#lllms/api/rateLimits.js'
 import { omitEmptyValues } from '#lllms/lib/util.js'
+import { LogLevels } from '#lllms/lib/logger.js'
 import { finishReasonMap } from '../enums.js'
+import {
+	sendInvalidRequestError,
+	sendModelNotFoundError,
+	sendProcessingError,
+	sendValidationError,
+} from '../errors.js'
+import { validateCompletionParams } from '../schemas.js'
 
 interface OpenAICompletionParams
 	extends Omit<OpenAI.CompletionCreateParamsStreaming, 'stream'> {
@@ -18,6 +34,47 @@ interface OpenAICompletionChunk extends OpenAI.Completions.Completion {
 	usage?: OpenAI.CompletionUsage
 }
 
+// text offsets count from the start of the prompt, like in the official api
+function createResponseLogprobs(
+	logprobs: TokenLogprob[] | undefined,
+	textOffset: number,
+): OpenAI.CompletionChoice.Logprobs | null {
+	if (!logprobs) {
+		return null
+	}
+	const offsets: number[] = []
+	for (const entry of logprobs) {
+		offsets.push(textOffset)
+		textOffset += entry.token.length
+	}
+	return {
+		tokens: logprobs.map((entry) => entry.token),
+		token_logprobs: logprobs.map((entry) => entry.logprob),
+		top_logprobs: logprobs.map((entry) => {
+			return Object.fromEntries(
+				(entry.topLogprobs ?? []).map((top) => [top.token, top.logprob]),
+			)
+		}),
+		text_offset: offsets,
+	}
+}
+
+function createResponseChoice(
+	choice: TextCompletionChoice,
+	index: number,
+	textOffset: number,
+): OpenAI.CompletionChoice {
+	return {
+		index,
+		text: choice.text,
+		logprobs: createResponseLogprobs(choice.logprobs, textOffset),
+		// official api has no tool_calls finish reason for text completions
+		finish_reason: (choice.finishReason
+			? finishReasonMap[choice.finishReason]
+			: 'stop') as OpenAI.CompletionChoice['finish_reason'],
+	}
+}
+
 // v1/completions
 // https://platform.openai.com/docs/api-reference/completions/create
 export function createCompletionHandler(llms: ModelServer) {
@@ -28,50 +85,62 @@ export function createCompletionHandler(llms: ModelServer) {
 			const body = await parseJSONRequestBody(req)
 			args = body
 		} catch (e) {
-			console.error(e)
-			res.writeHead(400, { 'Content-Type': 'application/json' })
-			res.end(JSON.stringify({ error: 'Invalid request' }))
+			llms.log(LogLevels.warn, 'Failed to parse request body', { error: e })
+			sendInvalidRequestError(res, 'We could not parse the JSON body of your request.')
+			return
+		}
+
+		if (!validateCompletionParams(args)) {
+			sendValidationError(res, validateCompletionParams.errors!)
 			return
 		}
-		
-		// TODO ajv schema validation?
-		if (!args.model || !args.prompt) {
-			res.writeHead(400, { 'Content-Type': 'application/json' })
-			res.end(JSON.stringify({ error: 'Invalid request' }))
+		if (args.best_of && args.best_of < (args.n ?? 1)) {
+			sendInvalidRequestError(
+				res,
+				'best_of must be greater than or equal to n.',
+				'best_of',
+				'invalid_value',
+			)
+			return
+		}
+		if (args.stream && args.best_of && args.best_of > (args.n ?? 1)) {
+			sendInvalidRequestError(
+				res,
+				'Cannot stream results when best_of is greater than n.',
+				'stream',
+				'invalid_value',
+			)
+			return
+		}
+		if (!llms.modelExists(args.model) || !isModelAllowed(req, args.model)) {
+			sendModelNotFoundError(res, args.model)
 			return
 		}
-		if (!llms.modelExists(args.model)) {
-			res.writeHead(400, { 'Content-Type': 'application/json' })
-			res.end(JSON.stringify({ error: 'Invalid model' }))
+
+		let priority: number | undefined
+		try {
+			priority = parseRequestPriority(req)
+		} catch (e: any) {
+			sendInvalidRequestError(res, e.message)
+			return
+		}
+
+		if (!checkRateLimits(req, res, args.model)) {
 			return
 		}
 
 		const controller = new AbortController()
 		req.on('close', () => {
-			console.debug('Client closed connection')
+			llms.log(LogLevels.debug, 'Client closed connection')
 			controller.abort()
 		})
 		req.on('end', () => {
-			console.debug('Client ended connection')
+			llms.log(LogLevels.debug, 'Client ended connection')
 			controller.abort()
 		})
 
+		let releaseInstance: ModelInstanceHandle['release'] | undefined
 		try {
-			if (args.stream) {
-				res.writeHead(200, {
-					'Content-Type': 'text/event-stream',
-					'Cache-Control': 'no-cache',
-					Connection: 'keep-alive',
-				})
-				res.flushHeaders()
-			}
-
-			let prompt = args.prompt
-
-			if (typeof prompt !== 'string') {
-				throw new Error('Prompt must be a string')
-			}
-
 			let stop = args.stop ? args.stop : undefined
 			if (typeof stop === 'string') {
 				stop = [stop]
@@ -79,6 +148,8 @@ export function createCompletionHandler(llms: ModelServer) {
 
 			const completionReq = omitEmptyValues<TextCompletionRequest>({
 				model: args.model,
+				priority,
+				tenant: getRequestAPIKey(req)?.label,
 				prompt: args.prompt as string,
 				temperature: args.temperature ? args.temperature : undefined,
 				stream: args.stream ? Boolean(args.stream) : false,
@@ -93,6 +164,10 @@ export function createCompletionHandler(llms: ModelServer) {
 					: undefined,
 				tokenBias: args.logit_bias ? args.logit_bias : undefined,
 				topP: args.top_p ? args.top_p : undefined,
+				n: args.n ? args.n : undefined,
+				bestOf: args.best_of ? args.best_of : undefined,
+				logprobs: typeof args.logprobs === 'number' ? true : undefined,
+				topLogprobs: args.logprobs ? args.logprobs : undefined,
 				// additional non-spec params
 				repeatPenaltyNum: args.repeat_penalty_num
 					? args.repeat_penalty_num
@@ -105,10 +180,26 @@ export function createCompletionHandler(llms: ModelServer) {
 				completionReq,
 				controller.signal,
 			)
+			releaseInstance = release
+			// headers are sent after acquiring an instance, so queue errors can still get a status code
+			if (args.stream) {
+				res.writeHead(200, {
+					'Content-Type': 'text/event-stream',
+					'Cache-Control': 'no-cache',
+					Connection: 'keep-alive',
+				})
+				res.flushHeaders()
+			}
+			const promptLength = completionReq.prompt!.length
+			// where the next chunk of each choice starts
+			const chunkOffsets: number[] = []
 			const task = instance.processTextCompletionTask(completionReq, {
 				signal: controller.signal,
 				onChunk: (chunk) => {
 					if (args.stream) {
+						const index = chunk.index ?? 0
+						const textOffset = chunkOffsets[index] ?? promptLength
+						chunkOffsets[index] = textOffset + chunk.text.length
 						const chunkData: OpenAICompletionChunk = {
 							id: task.id,
 							model: task.model,
@@ -116,9 +207,9 @@ export function createCompletionHandler(llms: ModelServer) {
 							created: Math.floor(task.createdAt.getTime() / 1000),
 							choices: [
 								{
-									index: 0,
+									index,
 									text: chunk.text,
-									logprobs: null,
+									logprobs: createResponseLogprobs(chunk.logprobs, textOffset),
 									// @ts-ignore official api returns null here in the same case
 									finish_reason: null,
 								},
@@ -129,6 +220,11 @@ export function createCompletionHandler(llms: ModelServer) {
 				},
 			})
 			const result = await task.result
+			recordTokenUsage(
+				req,
+				args.model,
+				result.promptTokens + result.completionTokens,
+			)
 			release()
 
 			if (args.stream) {
@@ -138,17 +234,13 @@ export function createCompletionHandler(llms: ModelServer) {
 						model: task.model,
 						object: 'text_completion',
 						created: Math.floor(task.createdAt.getTime() / 1000),
-						choices: [
-							{
-								index: 0,
-								text: '',
-								logprobs: null,
-								// @ts-ignore
-								finish_reason: result.finishReason
-									? finishReasonMap[result.finishReason]
-									: 'stop',
-							},
-						],
+						choices: (result.choices ?? [result]).map((choice, index) =>
+							createResponseChoice(
+								{ ...choice, text: '', logprobs: undefined },
+								index,
+								promptLength,
+							),
+						),
 					}
 					res.write(
 						`data: ${JSON.stringify(finalChunk)}\n\n`,
@@ -163,17 +255,9 @@ export function createCompletionHandler(llms: ModelServer) {
 					object: 'text_completion',
 					created: Math.floor(task.createdAt.getTime() / 1000),
 					system_fingerprint: instance.fingerprint,
-					choices: [
-						{
-							index: 0,
-							text: result.text,
-							logprobs: null,
-							// @ts-ignore
-							finish_reason: result.finishReason
-								? finishReasonMap[result.finishReason]
-								: 'stop',
-						},
-					],
+					choices: (result.choices ?? [result]).map((choice, index) =>
+						createResponseChoice(choice, index, promptLength),
+					),
 					usage: {
 						prompt_tokens: result.promptTokens,
 						completion_tokens: result.completionTokens,
@@ -184,12 +268,11 @@ export function createCompletionHandler(llms: ModelServer) {
 				res.end(JSON.stringify(response, null, 2))
 			}
 		} catch (err) {
-			console.error(err)
-			if (args.stream) {
-				res.write('data: [ERROR]')
-			} else {
-				res.writeHead(500, { 'Content-Type': 'application/json' })
-				res.end(JSON.stringify({ error: 'Internal server error' }))
+			releaseInstance?.()
+			if (sendProcessingError(res, err) === 500) {
+				llms.log(LogLevels.error, 'Failed to process completion request', {
+					error: err,
+				})
 			}
 		}
 	}
@@ -1,9 +1,21 @@
 import { IncomingMessage, ServerResponse } from 'node:http'
 import type { OpenAI } from 'openai'
 import { EmbeddingRequest } from '#lllms/types/index.js'
+import type { ModelInstanceHandle } from '#lllms/pool.js'
 import { parseJSONRequestBody } from '#lllms/api/parseJSONRequestBody.js'
+import { parseRequestPriority } from '#lllms/api/parseRequestPriority.js'
+import { getRequestAPIKey, isModelAllowed } from '#lllms/api/auth.js'
+import { checkRateLimits, recordTokenUsage } from '#lllms/api/rateLimits.js'
 import { omitEmptyValues } from '#lllms/lib/util.js'
+import { LogLevels } from '#lllms/lib/logger.js'
 import { ModelServer } from '#lllms/server.js'
+import {
+	sendInvalidRequestError,
+	sendModelNotFoundError,
+	sendProcessingError,
+	sendValidationError,
+} from '../errors.js'
+import { validateEmbeddingParams } from '../schemas.js'
 
 type OpenAIEmbeddingsParams = OpenAI.EmbeddingCreateParams
 
@@ -17,45 +29,48 @@ export function createEmbeddingsHandler(llms: ModelServer) {
 			const body = await parseJSONRequestBody(req)
 			args = body
 		} catch (e) {
-			console.error(e)
-			res.writeHead(400, { 'Content-Type': 'application/json' })
-			res.end(JSON.stringify({ error: 'Invalid request' }))
+			llms.log(LogLevels.warn, 'Failed to parse request body', { error: e })
+			sendInvalidRequestError(res, 'We could not parse the JSON body of your request.')
 			return
 		}
-		
-		// TODO ajv schema validation?
-		if (!args.model || !args.input) {
-			res.writeHead(400, { 'Content-Type': 'application/json' })
-			res.end(JSON.stringify({ error: 'Invalid request' }))
+
+		if (!validateEmbeddingParams(args)) {
+			sendValidationError(res, validateEmbeddingParams.errors!)
+			return
+		}
+		if (!llms.modelExists(args.model) || !isModelAllowed(req, args.model)) {
+			sendModelNotFoundError(res, args.model)
+			return
+		}
+
+		let priority: number | undefined
+		try {
+			priority = parseRequestPriority(req)
+		} catch (e: any) {
+			sendInvalidRequestError(res, e.message)
 			return
 		}
-		if (!llms.modelExists(args.model)) {
-			res.writeHead(400, { 'Content-Type': 'application/json' })
-			res.end(JSON.stringify({ error: 'Invalid model' }))
+
+		if (!checkRateLimits(req, res, args.model)) {
 			return
 		}
 
 		const controller = new AbortController()
 		req.on('close', () => {
-			console.debug('Client closed connection')
+			llms.log(LogLevels.debug, 'Client closed connection')
 			controller.abort()
 		})
 		req.on('end', () => {
-			console.debug('Client ended connection')
+			llms.log(LogLevels.debug, 'Client ended connection')
 			controller.abort()
 		})
 
+		let releaseInstance: ModelInstanceHandle['release'] | undefined
 		try {
-
-
-			let input = args.input
-
-			if (typeof input !== 'string') {
-				throw new Error('Input must be a string')
-			}
-
 			const embeddingsReq = omitEmptyValues<EmbeddingRequest>({
 				model: args.model,
+				priority,
+				tenant: getRequestAPIKey(req)?.label,
 				input: args.input as string,
 			})
 
@@ -63,8 +78,10 @@ export function createEmbeddingsHandler(llms: ModelServer) {
 				embeddingsReq,
 				controller.signal,
 			)
+			releaseInstance = release
 			const task = instance.processEmbeddingTask(embeddingsReq)
 			const result = await task.result
+			recordTokenUsage(req, args.model, result.inputTokens)
 			release()
 
 			const response: OpenAI.CreateEmbeddingResponse = {
@@ -84,9 +101,12 @@ export function createEmbeddingsHandler(llms: ModelServer) {
 			res.end(JSON.stringify(response, null, 2))
 
 		} catch (err) {
-			console.error(err)
-			res.writeHead(500, { 'Content-Type': 'application/json' })
-			res.end(JSON.stringify({ error: 'Internal server error' }))
+			releaseInstance?.()
+			if (sendProcessingError(res, err) === 500) {
+				llms.log(LogLevels.error, 'Failed to process embedding request', {
+					error: err,
+				})
+			}
 		}
 	}
 }
@@ -2,14 +2,16 @@ import type { IncomingMessage, ServerResponse } from 'node:http'
 import path from 'node:path'
 import type { OpenAI } from 'openai'
 import type { ModelServer } from '#lllms/server'
+import { isModelAllowed } from '#lllms/api/auth.js'
 
 // https://platform.openai.com/docs/api-reference/models/list
 export function createModelsHandler(llms: ModelServer) {
 	return async (req: IncomingMessage, res: ServerResponse) => {
 		
 		const models = llms.store.getStatus()
-		const data: OpenAI.Model[] = Object.entries(models).map(
-			([id, info]) => {
+		const data: OpenAI.Model[] = Object.entries(models)
+			.filter(([id]) => isModelAllowed(req, id))
+			.map(([id, info]) => {
 				// const lastModDate = new Date(info.source.lastModified)
 				// const created = Math.floor(lastModDate.getTime() / 1000)
 				
@@ -24,8 +26,7 @@ export function createModelsHandler(llms: ModelServer) {
 					created: 0,
 					owned_by,
 				}
-			},
-		)
+			})
 
 		res.writeHead(200, { 'Content-Type': 'application/json' })
 		res.end(JSON.stringify({ object: 'list', data }, null, 2))
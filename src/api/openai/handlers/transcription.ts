@@ -1,2 +1,294 @@
-// TODO
-// https://platform.openai.com/docs/api-reference/audio/createTranscription
\ No newline at end of file
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { IncomingMessage, ServerResponse } from 'node:http'
+import { nanoid } from 'nanoid'
+import {
+	EngineSpeechToTextResult,
+	SpeechToTextRequest,
+	SpeechToTextSegment,
+} from '#lllms/types/index.js'
+import { parseMultipartRequestBody } from '#lllms/api/parseMultipartRequestBody.js'
+import { parseRequestPriority } from '#lllms/api/parseRequestPriority.js'
+import { getRequestAPIKey, isModelAllowed } from '#lllms/api/auth.js'
+import { checkRateLimits } from '#lllms/api/rateLimits.js'
+import { omitEmptyValues } from '#lllms/lib/util.js'
+import { LogLevels } from '#lllms/lib/logger.js'
+import { ModelServer } from '#lllms/server.js'
+import { RequestBodyTooLargeError } from '#lllms/errors.js'
+import {
+	sendErrorResponse,
+	sendInvalidRequestError,
+	sendModelNotFoundError,
+	sendProcessingError,
+	sendValidationError,
+} from '../errors.js'
+import { validateSpeechToTextParams } from '../schemas.js'
+
+type SpeechToTextTask = NonNullable<SpeechToTextRequest['task']>
+
+type TranscriptionResponseFormat =
+	'json' | 'text' | 'srt' | 'vtt' | 'verbose_json'
+
+// form fields as validated by the schema
+interface SpeechToTextFields {
+	model: string
+	language?: string
+	prompt?: string
+	response_format?: TranscriptionResponseFormat
+	stream?: 'true' | 'false'
+}
+
+// formats seconds as 00:00:01,500 for srt or 00:00:01.500 for vtt
+function formatTimestamp(seconds: number, decimalMarker: string) {
+	const totalMs = Math.round(seconds * 1000)
+	const hours = Math.floor(totalMs / 3600000)
+	const minutes = Math.floor((totalMs % 3600000) / 60000)
+	const secs = Math.floor((totalMs % 60000) / 1000)
+	const ms = totalMs % 1000
+	const pad = (num: number, length = 2) => String(num).padStart(length, '0')
+	return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${decimalMarker}${pad(ms, 3)}`
+}
+
+// engines that dont return segments get a single one spanning the whole audio
+function getSegments(result: EngineSpeechToTextResult): SpeechToTextSegment[] {
+	if (result.segments?.length) {
+		return result.segments
+	}
+	return [{ start: 0, end: result.duration ?? 0, text: result.text }]
+}
+
+function formatSRT(segments: SpeechToTextSegment[]) {
+	return segments
+		.map((segment, index) => {
+			const start = formatTimestamp(segment.start, ',')
+			const end = formatTimestamp(segment.end, ',')
+			return `${index + 1}\n${start} --> ${end}\n${segment.text.trim()}\n`
+		})
+		.join('\n')
+}
+
+function formatVTT(segments: SpeechToTextSegment[]) {
+	const cues = segments.map((segment) => {
+		const start = formatTimestamp(segment.start, '.')
+		const end = formatTimestamp(segment.end, '.')
+		return `${start} --> ${end}\n${segment.text.trim()}\n`
+	})
+	return `WEBVTT\n\n${cues.join('\n')}`
+}
+
+function sendTranscription(
+	res: ServerResponse,
+	result: EngineSpeechToTextResult,
+	format: TranscriptionResponseFormat,
+	task: SpeechToTextTask,
+) {
+	switch (format) {
+		case 'text':
+			res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' })
+			res.end(result.text)
+			break
+		case 'srt':
+			res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' })
+			res.end(formatSRT(getSegments(result)))
+			break
+		case 'vtt':
+			res.writeHead(200, { 'Content-Type': 'text/vtt; charset=utf-8' })
+			res.end(formatVTT(getSegments(result)))
+			break
+		case 'verbose_json':
+			res.writeHead(200, { 'Content-Type': 'application/json' })
+			res.end(
+				JSON.stringify(
+					{
+						task,
+						language: result.language,
+						duration: result.duration,
+						text: result.text,
+						segments: getSegments(result).map((segment, id) => ({
+							id,
+							...segment,
+						})),
+					},
+					null,
+					2,
+				),
+			)
+			break
+		default:
+			res.writeHead(200, { 'Content-Type': 'application/json' })
+			res.end(JSON.stringify({ text: result.text }, null, 2))
+	}
+}
+
+// handles transcriptions and translations, which share their parameters and response formats
+function createSpeechToTextHandler(llms: ModelServer, task: SpeechToTextTask) {
+	return async (req: IncomingMessage, res: ServerResponse) => {
+		let formData: FormData
+
+		try {
+			formData = await parseMultipartRequestBody(req)
+		} catch (e) {
+			llms.log(LogLevels.warn, 'Failed to parse request body', { error: e })
+			if (e instanceof RequestBodyTooLargeError) {
+				sendErrorResponse(res, 413, {
+					message: `The uploaded file is too large. The maximum size is ${e.maxSize} bytes.`,
+					type: 'invalid_request_error',
+					param: 'file',
+					code: 'request_too_large',
+				})
+				return
+			}
+			sendInvalidRequestError(
+				res,
+				'We could not parse the multipart body of your request.',
+			)
+			return
+		}
+
+		const file = formData.get('file')
+		if (!(file instanceof Blob)) {
+			sendInvalidRequestError(
+				res,
+				"Missing required parameter: 'file'.",
+				'file',
+				'missing_required_parameter',
+			)
+			return
+		}
+		const fields: Record<string, unknown> = {}
+		formData.forEach((value, key) => {
+			if (key !== 'file') {
+				fields[key] = value
+			}
+		})
+		if (!validateSpeechToTextParams(fields)) {
+			sendValidationError(res, validateSpeechToTextParams.errors!)
+			return
+		}
+		const {
+			model,
+			language,
+			prompt,
+			response_format: format = 'json',
+		} = fields as SpeechToTextFields
+		const stream = fields.stream === 'true'
+
+		if (stream && format !== 'json' && format !== 'text') {
+			sendInvalidRequestError(
+				res,
+				'Streaming is only supported for json and text response formats.',
+				'stream',
+				'invalid_value',
+			)
+			return
+		}
+		if (!llms.modelExists(model) || !isModelAllowed(req, model)) {
+			sendModelNotFoundError(res, model)
+			return
+		}
+
+		let priority: number | undefined
+		try {
+			priority = parseRequestPriority(req)
+		} catch (e: any) {
+			sendInvalidRequestError(res, e.message)
+			return
+		}
+
+		if (!checkRateLimits(req, res, model)) {
+			return
+		}
+
+		// the body has been read already, so only a closed response means the client is gone
+		const controller = new AbortController()
+		res.on('close', () => {
+			if (!res.writableFinished) {
+				llms.log(LogLevels.debug, 'Client closed connection')
+				controller.abort()
+			}
+		})
+
+		// engines read audio from files
+		const fileName = 'name' in file ? String(file.name) : ''
+		const filePath = path.join(
+			os.tmpdir(),
+			`lllms-audio-${nanoid()}${path.extname(fileName)}`,
+		)
+
+		let result: EngineSpeechToTextResult
+		try {
+			await fs.promises.writeFile(
+				filePath,
+				Buffer.from(await file.arrayBuffer()),
+			)
+
+			const transcriptionReq = omitEmptyValues<SpeechToTextRequest>({
+				model,
+				priority,
+				tenant: getRequestAPIKey(req)?.label,
+				file: filePath,
+				task,
+				language,
+				prompt,
+			})
+
+			const { instance, release } = await llms.requestInstance(
+				transcriptionReq,
+				controller.signal,
+			)
+			try {
+				if (stream) {
+					res.writeHead(200, {
+						'Content-Type': 'text/event-stream',
+						'Cache-Control': 'no-cache',
+						Connection: 'keep-alive',
+					})
+					res.flushHeaders()
+				}
+				const task = instance.processSpeechToTextTask(transcriptionReq, {
+					signal: controller.signal,
+					onChunk: (chunk) => {
+						if (stream) {
+							const event = { type: 'transcript.text.delta', delta: chunk.text }
+							res.write(`data: ${JSON.stringify(event)}\n\n`)
+						}
+					},
+				})
+				result = await task.result
+			} finally {
+				release()
+			}
+		} catch (err) {
+			if (sendProcessingError(res, err) === 500) {
+				llms.log(LogLevels.error, 'Failed to process speech to text request', {
+					error: err,
+				})
+			}
+			return
+		} finally {
+			await fs.promises.rm(filePath, { force: true })
+		}
+
+		if (stream) {
+			const event = { type: 'transcript.text.done', text: result.text }
+			res.write(`data: ${JSON.stringify(event)}\n\n`)
+			res.write('data: [DONE]')
+			res.end()
+		} else {
+			sendTranscription(res, result, format, task)
+		}
+	}
+}
+
+// v1/audio/transcriptions
+// https://platform.openai.com/docs/api-reference/audio/createTranscription
+export function createTranscriptionHandler(llms: ModelServer) {
+	return createSpeechToTextHandler(llms, 'transcribe')
+}
+
+// v1/audio/translations
+// https://platform.openai.com/docs/api-reference/audio/createTranslation
+export function createTranslationHandler(llms: ModelServer) {
+	return createSpeechToTextHandler(llms, 'translate')
+}
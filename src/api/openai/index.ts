@@ -3,6 +3,10 @@ import { createChatCompletionHandler } from './handlers/chat.js'
 import { createCompletionHandler } from './handlers/completions.js'
 import { createModelsHandler } from './handlers/models.js'
 import { createEmbeddingsHandler } from './handlers/embeddings.js'
+import {
+	createTranscriptionHandler,
+	createTranslationHandler,
+} from './handlers/transcription.js'
 
 
 // See OpenAI API specs at https://github.com/openai/openai-openapi/blob/master/openapi.yaml
@@ -12,5 +16,7 @@ export function createOpenAIRequestHandlers(llmServer: ModelServer) {
 		completions: createCompletionHandler(llmServer),
 		models: createModelsHandler(llmServer),
 		embeddings: createEmbeddingsHandler(llmServer),
+		transcriptions: createTranscriptionHandler(llmServer),
+		translations: createTranslationHandler(llmServer),
 	}
 }
@@ -0,0 +1,136 @@
+import Ajv from 'ajv'
+
+// JSON schemas for OpenAI requests. Only covers the params the handlers use, others are ignored.
+// Optional params are nullable because some clients send null instead of omitting them.
+
+const ajv = new Ajv({ strict: false })
+
+const samplingParamsSchema = {
+	temperature: { type: 'number', minimum: 0, maximum: 2, nullable: true },
+	top_p: { type: 'number', minimum: 0, maximum: 1, nullable: true },
+	max_tokens: { type: 'integer', minimum: 1, nullable: true },
+	seed: { type: 'integer', nullable: true },
+	stop: {
+		type: ['string', 'array', 'null'],
+		items: { type: 'string' },
+		maxItems: 4,
+	},
+	frequency_penalty: {
+		type: 'number',
+		minimum: -2,
+		maximum: 2,
+		nullable: true,
+	},
+	presence_penalty: { type: 'number', minimum: -2, maximum: 2, nullable: true },
+	logit_bias: {
+		type: 'object',
+		additionalProperties: { type: 'number', minimum: -100, maximum: 100 },
+		nullable: true,
+	},
+	n: { type: 'integer', minimum: 1, maximum: 128, nullable: true },
+	stream: { type: 'boolean', nullable: true },
+	stream_options: {
+		type: 'object',
+		properties: {
+			include_usage: { type: 'boolean' },
+		},
+		nullable: true,
+	},
+	// additional non-spec params
+	top_k: { type: 'integer', minimum: 0, nullable: true },
+	min_p: { type: 'number', minimum: 0, maximum: 1, nullable: true },
+	repeat_penalty_num: { type: 'integer', minimum: 0, nullable: true },
+}
+
+const modelSchema = { type: 'string', minLength: 1 }
+
+const chatMessageSchema = {
+	type: 'object',
+	required: ['role'],
+	properties: {
+		role: {
+			type: 'string',
+			enum: ['system', 'user', 'assistant', 'tool', 'function'],
+		},
+		content: { type: ['string', 'array', 'null'] },
+		tool_call_id: { type: 'string' },
+	},
+}
+
+const toolSchema = {
+	type: 'object',
+	required: ['type'],
+	properties: {
+		type: { type: 'string' },
+		function: {
+			type: 'object',
+			required: ['name'],
+			properties: {
+				name: { type: 'string', minLength: 1 },
+				description: { type: 'string' },
+				parameters: { type: 'object' },
+			},
+		},
+	},
+}
+
+export const validateChatCompletionParams = ajv.compile({
+	type: 'object',
+	required: ['model', 'messages'],
+	properties: {
+		model: modelSchema,
+		messages: { type: 'array', minItems: 1, items: chatMessageSchema },
+		...samplingParamsSchema,
+		response_format: {
+			type: 'object',
+			required: ['type'],
+			properties: {
+				type: { type: 'string', enum: ['text', 'json_object'] },
+			},
+			nullable: true,
+		},
+		tools: { type: 'array', items: toolSchema, nullable: true },
+		logprobs: { type: 'boolean', nullable: true },
+		top_logprobs: { type: 'integer', minimum: 0, maximum: 20, nullable: true },
+	},
+})
+
+export const validateCompletionParams = ajv.compile({
+	type: 'object',
+	required: ['model', 'prompt'],
+	properties: {
+		model: modelSchema,
+		// arrays of prompts or tokens are not supported
+		prompt: { type: 'string' },
+		...samplingParamsSchema,
+		best_of: { type: 'integer', minimum: 1, maximum: 20, nullable: true },
+		// number of top logprobs per token, unlike the boolean of chat completions
+		logprobs: { type: 'integer', minimum: 0, maximum: 5, nullable: true },
+	},
+})
+
+export const validateEmbeddingParams = ajv.compile({
+	type: 'object',
+	required: ['model', 'input'],
+	properties: {
+		model: modelSchema,
+		// arrays of inputs or tokens are not supported
+		input: { type: 'string', minLength: 1 },
+	},
+})
+
+// form fields of multipart requests, without the file
+export const validateSpeechToTextParams = ajv.compile({
+	type: 'object',
+	required: ['model'],
+	properties: {
+		model: modelSchema,
+		language: { type: 'string' },
+		prompt: { type: 'string' },
+		response_format: {
+			type: 'string',
+			enum: ['json', 'text', 'srt', 'vtt', 'verbose_json'],
+		},
+		stream: { type: 'string', enum: ['true', 'false'] },
+	},
+})
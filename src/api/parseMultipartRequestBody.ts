@@ -0,0 +1,57 @@
+import { IncomingMessage } from 'node:http'
+import { Readable, Transform } from 'node:stream'
+import { RequestBodyTooLargeError } from '#lllms/errors.js'
+
+// parses multipart/form-data bodies with the form data parser of the fetch api.
+// rejects bodies larger than maxSize bytes, also chunked ones that dont announce their length.
+export async function parseMultipartRequestBody(
+	req: IncomingMessage,
+	maxSize: number = 25 * 1024 * 1024,
+) {
+	const contentType = req.headers['content-type'] ?? ''
+	if (!contentType.startsWith('multipart/form-data')) {
+		throw new Error('Expected multipart/form-data')
+	}
+	const contentLength = parseInt(req.headers['content-length'] ?? '', 10)
+	if (contentLength > maxSize) {
+		throw new RequestBodyTooLargeError(maxSize)
+	}
+	const headers = new Headers()
+	for (const [key, value] of Object.entries(req.headers)) {
+		if (Array.isArray(value)) {
+			value.forEach((item) => headers.append(key, item))
+		} else if (value !== undefined) {
+			headers.set(key, value)
+		}
+	}
+	// counts the bytes as they arrive and stops reading once there are too many
+	let receivedSize = 0
+	const body = new Transform({
+		transform(chunk, encoding, callback) {
+			receivedSize += chunk.length
+			if (receivedSize > maxSize) {
+				req.unpipe(body)
+				callback(new RequestBodyTooLargeError(maxSize))
+				return
+			}
+			callback(null, chunk)
+		},
+	})
+	req.on('error', (error) => body.destroy(error))
+	req.pipe(body)
+	const request = new Request(`http://localhost${req.url}`, {
+		method: req.method,
+		headers,
+		body: Readable.toWeb(body),
+		// @ts-ignore required to stream request bodies, missing in the types
+		duplex: 'half',
+	})
+	try {
+		return await request.formData()
+	} catch (error) {
+		if (receivedSize > maxSize) {
+			throw new RequestBodyTooLargeError(maxSize)
+		}
+		throw error
+	}
+}
@@ -0,0 +1,14 @@
+import { IncomingMessage } from 'node:http'
+
+// reads the x-lllms-priority header. throws if it's not an integer.
+export function parseRequestPriority(req: IncomingMessage): number | undefined {
+	const header = req.headers['x-lllms-priority']
+	if (header === undefined) {
+		return undefined
+	}
+	const value = Array.isArray(header) ? header[0] : header
+	if (!/^-?\d+$/.test(value.trim())) {
+		throw new Error(`Invalid priority: ${value}`)
+	}
+	return parseInt(value, 10)
+}
@@ -0,0 +1,101 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { getRequestAuth } from '#lllms/api/auth.js'
+import { RateLimitScope, RateLimitState } from '#lllms/lib/rateLimiter.js'
+
+// the limits of the requests api key, and those for the model if configured
+function getRateLimitScopes(req: IncomingMessage, modelId: string) {
+	const auth = getRequestAuth(req)
+	const scopes: RateLimitScope[] = []
+	if (!auth?.rateLimiter) {
+		return scopes
+	}
+	if (auth.apiKey.limits) {
+		scopes.push({ id: auth.keyId, limits: auth.apiKey.limits })
+	}
+	const modelLimits = auth.apiKey.modelLimits?.[modelId]
+	if (modelLimits) {
+		scopes.push({ id: `${auth.keyId}:${modelId}`, limits: modelLimits })
+	}
+	return scopes
+}
+
+// formats durations like openai does, ie 20ms, 1s or 6m0s
+function formatResetTime(ms: number) {
+	if (ms < 1000) {
+		return `${Math.ceil(ms)}ms`
+	}
+	const totalSeconds = Math.ceil(ms / 1000)
+	const hours = Math.floor(totalSeconds / 3600)
+	const minutes = Math.floor((totalSeconds % 3600) / 60)
+	const seconds = totalSeconds % 60
+	if (hours) {
+		return `${hours}h${minutes}m${seconds}s`
+	}
+	if (minutes) {
+		return `${minutes}m${seconds}s`
+	}
+	return `${seconds}s`
+}
+
+function setRateLimitHeaders(
+	res: ServerResponse,
+	type: 'requests' | 'tokens',
+	state: RateLimitState,
+) {
+	res.setHeader(`x-ratelimit-limit-${type}`, String(state.limit))
+	res.setHeader(`x-ratelimit-remaining-${type}`, String(state.remaining))
+	res.setHeader(`x-ratelimit-reset-${type}`, formatResetTime(state.reset))
+}
+
+// counts the request against the limits of its api key and sets the x-ratelimit-* headers.
+// responds with 429 and returns false if a limit is exceeded.
+export function checkRateLimits(
+	req: IncomingMessage,
+	res: ServerResponse,
+	modelId: string,
+) {
+	const scopes = getRateLimitScopes(req, modelId)
+	if (!scopes.length) {
+		return true
+	}
+	const result = getRequestAuth(req)!.rateLimiter!.consume(scopes)
+	if (result.requests) {
+		setRateLimitHeaders(res, 'requests', result.requests)
+	}
+	if (result.tokens) {
+		setRateLimitHeaders(res, 'tokens', result.tokens)
+	}
+	if (result.allowed) {
+		return true
+	}
+	const state = result[result.exceeded!]!
+	const limitName =
+		result.exceeded === 'requests' ? 'requests per minute' : 'tokens per day'
+	res.writeHead(429, {
+		'Content-Type': 'application/json',
+		'Retry-After': String(Math.ceil(state.reset / 1000)),
+	})
+	res.end(
+		JSON.stringify({
+			error: {
+				message: `Rate limit reached for ${limitName} on ${modelId}: Limit ${state.limit}. Please try again in ${formatResetTime(state.reset)}.`,
+				type: result.exceeded,
+				param: null,
+				code: 'rate_limit_exceeded',
+			},
+		}),
+	)
+	return false
+}
+
+// counts tokens used by a finished request towards its keys daily limits
+export function recordTokenUsage(
+	req: IncomingMessage,
+	modelId: string,
+	tokenCount: number,
+) {
+	const scopes = getRateLimitScopes(req, modelId)
+	if (scopes.length && tokenCount) {
+		getRequestAuth(req)!.rateLimiter!.recordTokens(scopes, tokenCount)
+	}
+}
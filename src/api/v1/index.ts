@@ -2,12 +2,13 @@ import { IncomingMessage, ServerResponse } from 'node:http'
 import express from 'express'
 import { ModelPool } from '#lllms/pool.js'
 import { ModelServer } from '#lllms/server.js'
+import { LogLevels } from '#lllms/lib/logger.js'
 
 export function createAPIMiddleware(server: ModelServer) {
 	const router = express.Router()
 	
 	router.use((req, res, next) => {
-		console.debug('API call', {
+		server.log(LogLevels.debug, 'API call', {
 			method: req.method,
 			url: req.url,
 			body: req.body,
@@ -1,9 +1,423 @@
 #!/usr/bin/env node
-process.stdout.write("Nothing here, yet.\n");
-
-/* API Ideas:
-- `lllms ls` - list stored models
-- `lllms rm <name>` - remove a stored model
-- `lllms show <name>` - show details of a stored model
-- `lllms prepare <config>` - download everything required for given config
-*/
\ No newline at end of file
+import os from 'node:os'
+import path from 'node:path'
+import fs from 'node:fs'
+import { parseArgs } from 'node:util'
+import type { AddressInfo } from 'node:net'
+import chalk from 'chalk'
+import ora from 'ora'
+import prettyBytes from 'pretty-bytes'
+import { ModelServer } from '#lllms/server.js'
+import { ModelHTTPServerOptions, startHTTPServer } from '#lllms/http.js'
+import {
+	getGGUFArchitectureMeta,
+	readGGUFMetaFromFile,
+} from '#lllms/lib/gguf.js'
+import { resolveModelLocation } from '#lllms/lib/resolveModelLocation.js'
+import { calculateFileChecksum } from '#lllms/lib/calculateFileChecksum.js'
+import { LogFormat, LogLevel, LoggerOptions } from '#lllms/lib/logger.js'
+import {
+	loadConfigFile,
+	findConfigFile,
+	watchConfigFile,
+} from '#lllms/config.js'
+
+const usage = `Usage: lllms <command> [options]
+
+Commands:
+  ls                 List stored models
+  show <name>        Show details of a stored model, by model id, url or path
+  rm <name>          Remove a stored model, by model id, url or path
+  prepare [config]   Download and verify all models required by given config
+  serve [config]     Start an HTTP server for given config
+
+Config files can be JSON, YAML or JS. If none is given, lllms.config.{json,yaml,yml,js,mjs}
+in the current directory is used.
+
+Model ids refer to the config file in the current directory, if there is one.
+
+Options:
+  --models-path <path>  Where models are stored (default: modelsPath of the config or ~/.cache/lllms)
+  --log <level>         Log level for prepare and serve (default: info)
+  --log-format <format> Log as pretty printed lines or one JSON object per line (default: pretty)
+  --watch               Apply model changes in the config file without restarting (serve only)
+  -h, --help            Show this help
+`
+
+// time in ms running tasks may take to finish when the server gets stopped
+const shutdownDrainTimeout = 30000
+
+interface StoredModelEntry {
+	name: string
+	location: string
+	size: number
+	modified: Date
+	format: 'gguf' | 'onnx' | 'bin'
+}
+
+function getDirectorySize(dirPath: string): number {
+	let size = 0
+	for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+		const entryPath = path.join(dirPath, entry.name)
+		if (entry.isDirectory()) {
+			size += getDirectorySize(entryPath)
+		} else if (entry.isFile()) {
+			size += fs.statSync(entryPath).size
+		}
+	}
+	return size
+}
+
+// walks the models directory and collects gguf files and transformers.js model directories
+function findStoredModels(modelsPath: string, dirPath = modelsPath) {
+	const models: StoredModelEntry[] = []
+	if (!fs.existsSync(dirPath)) {
+		return models
+	}
+	for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+		const entryPath = path.join(dirPath, entry.name)
+		if (entry.isDirectory()) {
+			// transformers.js models are stored as a directory containing an onnx subdirectory
+			if (fs.existsSync(path.join(entryPath, 'onnx'))) {
+				models.push({
+					name: path.relative(modelsPath, entryPath),
+					location: entryPath,
+					size: getDirectorySize(entryPath),
+					modified: fs.statSync(entryPath).mtime,
+					format: 'onnx',
+				})
+			} else {
+				models.push(...findStoredModels(modelsPath, entryPath))
+			}
+			continue
+		}
+		const extension = path.extname(entry.name)
+		if (extension === '.gguf' || extension === '.bin') {
+			const stat = fs.statSync(entryPath)
+			models.push({
+				name: path.relative(modelsPath, entryPath),
+				location: entryPath,
+				size: stat.size,
+				modified: stat.mtime,
+				format: extension === '.gguf' ? 'gguf' : 'bin',
+			})
+		}
+	}
+	return models
+}
+
+interface ModelStoreLocations {
+	modelsPath: string
+	// by model id of the config file in the current directory
+	configuredLocations: Record<string, string>
+}
+
+// resolves where models are stored the same way the server does
+async function resolveModelStoreLocations(
+	modelsPathFlag?: string,
+): Promise<ModelStoreLocations> {
+	const configFile = findConfigFile()
+	const config = configFile ? await loadConfigFile(configFile) : undefined
+	const modelsPath =
+		modelsPathFlag ||
+		config?.modelsPath ||
+		path.resolve(os.homedir(), '.cache/lllms')
+	const configuredLocations: Record<string, string> = {}
+	for (const [modelId, modelOptions] of Object.entries(config?.models ?? {})) {
+		// custom engine models have no location
+		if (
+			'url' in modelOptions ||
+			'file' in modelOptions ||
+			'location' in modelOptions
+		) {
+			configuredLocations[modelId] = resolveModelLocation(
+				modelsPath,
+				modelOptions,
+			)
+		}
+	}
+	return { modelsPath, configuredLocations }
+}
+
+// find a stored model by configured model id, url, relative path, file name or file name without extension
+function findStoredModel(
+	{ modelsPath, configuredLocations }: ModelStoreLocations,
+	name: string,
+) {
+	const models = findStoredModels(modelsPath)
+	const configuredLocation = configuredLocations[name]
+	const location =
+		configuredLocation ??
+		resolveModelLocation(
+			modelsPath,
+			/^https?:\/\//.test(name) ? { url: name } : { file: name },
+		)
+	const exactMatch = models.find((model) => model.location === location)
+	if (exactMatch) {
+		return exactMatch
+	}
+	if (configuredLocation) {
+		throw new Error(`Model "${name}" is not stored at ${configuredLocation}`)
+	}
+	const matches = models.filter((model) => {
+		const baseName = path.basename(model.name)
+		return (
+			baseName === name || baseName.replace(path.extname(baseName), '') === name
+		)
+	})
+	if (matches.length > 1) {
+		throw new Error(
+			`Name "${name}" is ambiguous, use one of:\n` +
+				matches.map((model) => `  ${model.name}`).join('\n'),
+		)
+	}
+	if (!matches.length) {
+		throw new Error(`No stored model found for "${name}"`)
+	}
+	return matches[0]
+}
+
+function listModels({ modelsPath, configuredLocations }: ModelStoreLocations) {
+	const models = findStoredModels(modelsPath)
+	if (!models.length) {
+		console.log(chalk.dim(`No models stored in ${modelsPath}`))
+		return
+	}
+	const nameWidth = Math.max(...models.map((model) => model.name.length))
+	for (const model of models) {
+		const modelIds = Object.keys(configuredLocations).filter(
+			(modelId) => configuredLocations[modelId] === model.location,
+		)
+		console.log(
+			model.name.padEnd(nameWidth + 2) +
+				prettyBytes(model.size).padStart(10) +
+				'  ' +
+				chalk.dim(model.modified.toISOString().substring(0, 10)) +
+				(modelIds.length ? '  ' + modelIds.join(', ') : ''),
+		)
+	}
+	const totalSize = models.reduce((acc, model) => acc + model.size, 0)
+	console.log(chalk.dim(`${models.length} models, ${prettyBytes(totalSize)}`))
+}
+
+async function showModel(locations: ModelStoreLocations, name: string) {
+	const model = findStoredModel(locations, name)
+	const printField = (key: string, value: unknown) => {
+		if (value !== undefined && value !== null) {
+			console.log(chalk.dim(key.padEnd(18)) + String(value))
+		}
+	}
+	printField('name', model.name)
+	printField('location', model.location)
+	printField('format', model.format)
+	printField('size', prettyBytes(model.size))
+	printField('modified', model.modified.toISOString())
+
+	if (model.format === 'gguf') {
+		const meta = await readGGUFMetaFromFile(model.location)
+		const archMeta = getGGUFArchitectureMeta(meta)
+		printField('gguf version', meta.version)
+		printField('model name', meta.general.name)
+		printField('architecture', meta.general.architecture)
+		printField('file type', meta.general.file_type)
+		printField('quantization', meta.general.quantization_version)
+		printField('context length', archMeta.context_length)
+		printField('embedding length', archMeta.embedding_length)
+		printField('block count', archMeta.block_count)
+	} else if (model.format === 'onnx') {
+		const configFile = path.join(model.location, 'config.json')
+		if (fs.existsSync(configFile)) {
+			const modelConfig = JSON.parse(fs.readFileSync(configFile, 'utf-8'))
+			printField('model type', modelConfig.model_type)
+		}
+		const onnxDir = path.join(model.location, 'onnx')
+		for (const file of fs.readdirSync(onnxDir)) {
+			const fileSize = fs.statSync(path.join(onnxDir, file)).size
+			printField('onnx', `${file} (${prettyBytes(fileSize)})`)
+		}
+	}
+
+	if (model.format !== 'onnx') {
+		const spinner = ora('Calculating sha256 checksum').start()
+		const checksum = await calculateFileChecksum(model.location, 'sha256')
+		spinner.stop()
+		printField('sha256', checksum)
+	}
+}
+
+function removeModel(locations: ModelStoreLocations, name: string) {
+	const model = findStoredModel(locations, name)
+	// lock files are created next to model files, or inside model directories
+	const lockFile = model.location + '.lock'
+	if (fs.existsSync(lockFile)) {
+		fs.rmSync(lockFile)
+	}
+	fs.rmSync(model.location, { recursive: true, force: true })
+	console.log(`Removed ${model.name} ${chalk.dim(prettyBytes(model.size))}`)
+}
+
+function mergeLogOptions(
+	configLog: ModelHTTPServerOptions['log'],
+	logOptions: LoggerOptions,
+): ModelHTTPServerOptions['log'] {
+	// custom loggers from js configs are used as is
+	if (typeof configLog === 'function') {
+		return configLog
+	}
+	return {
+		level: 'info',
+		...(typeof configLog === 'string' ? { level: configLog } : configLog),
+		...logOptions,
+	}
+}
+
+async function prepareModels(
+	configFile: string,
+	options: Partial<ModelHTTPServerOptions>,
+	logOptions: LoggerOptions,
+) {
+	const config = await loadConfigFile(configFile)
+	const server = new ModelServer({
+		...config,
+		...options,
+		log: mergeLogOptions(config.log, logOptions),
+	})
+	await server.prepareModels()
+	let failedCount = 0
+	for (const [modelId, model] of Object.entries(server.store.models)) {
+		if (model.status === 'ready') {
+			const estimates = []
+			if (model.resources?.ram) {
+				estimates.push(`${prettyBytes(model.resources.ram)} RAM`)
+			}
+			if (model.resources?.vram) {
+				estimates.push(`${prettyBytes(model.resources.vram)} VRAM`)
+			}
+			const estimate = estimates.length ? ` (~${estimates.join(', ')})` : ''
+			console.log(
+				`${chalk.green('ready')} ${modelId} ${chalk.dim(model.location + estimate)}`,
+			)
+		} else {
+			failedCount++
+			console.log(`${chalk.red(model.status)} ${modelId} ${chalk.dim(model.location)}`)
+		}
+	}
+	server.store.dispose()
+	if (failedCount) {
+		throw new Error(`Failed to prepare ${failedCount} models`)
+	}
+}
+
+async function serveModels(
+	configFile: string,
+	options: Partial<ModelHTTPServerOptions>,
+	logOptions: LoggerOptions,
+	watch: boolean = false,
+) {
+	const config = await loadConfigFile(configFile)
+	const server = await startHTTPServer({
+		...config,
+		...options,
+		log: mergeLogOptions(config.log, logOptions),
+	})
+	const { address, port } = server.httpServer.address() as AddressInfo
+	const hostname = address === '' || address === '::' ? 'localhost' : address
+	console.log(`Server listening at http://${hostname}:${port}/`)
+	const watcher = watch
+		? await watchConfigFile(configFile, server.modelServer)
+		: undefined
+	let stopping = false
+	const stop = async () => {
+		// a second signal, like pressing ctrl-c again, exits without waiting for running tasks
+		if (stopping) {
+			process.exit(1)
+		}
+		stopping = true
+		watcher?.close()
+		await server.close({ drainTimeout: shutdownDrainTimeout })
+		process.exit(0)
+	}
+	process.on('SIGTERM', stop)
+	process.on('SIGINT', stop)
+}
+
+async function main() {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			'models-path': { type: 'string' },
+			log: { type: 'string' },
+			'log-format': { type: 'string' },
+			watch: { type: 'boolean' },
+			help: { type: 'boolean', short: 'h' },
+		},
+	})
+	const [command, arg] = positionals
+	if (values.help || !command) {
+		process.stdout.write(usage)
+		return
+	}
+	// flags take precedence over whats configured in the config file
+	const serverOptions: Partial<ModelHTTPServerOptions> = {}
+	if (values['models-path']) {
+		serverOptions.modelsPath = values['models-path']
+	}
+	// log flags only override the level and format of the configs log options
+	const logOptions: LoggerOptions = {}
+	if (values.log) {
+		logOptions.level = values.log as LogLevel
+	}
+	if (values['log-format']) {
+		logOptions.format = values['log-format'] as LogFormat
+	}
+	const requireConfigFile = () => {
+		const configFile = arg ?? findConfigFile()
+		if (!configFile) {
+			throw new Error(
+				`Missing argument <config> for "${command}" and no lllms.config file found`,
+			)
+		}
+		return configFile
+	}
+	const requireArg = (name: string) => {
+		if (!arg) {
+			throw new Error(`Missing argument <${name}> for "${command}"`)
+		}
+		return arg
+	}
+	switch (command) {
+		case 'ls':
+			listModels(await resolveModelStoreLocations(values['models-path']))
+			break
+		case 'show':
+			await showModel(
+				await resolveModelStoreLocations(values['models-path']),
+				requireArg('name'),
+			)
+			break
+		case 'rm':
+			removeModel(
+				await resolveModelStoreLocations(values['models-path']),
+				requireArg('name'),
+			)
+			break
+		case 'prepare':
+			await prepareModels(requireConfigFile(), serverOptions, logOptions)
+			break
+		case 'serve':
+			await serveModels(
+				requireConfigFile(),
+				serverOptions,
+				logOptions,
+				values.watch,
+			)
+			break
+		default:
+			throw new Error(`Unknown command "${command}"\n\n${usage}`)
+	}
+}
+
+main().catch((err: Error) => {
+	console.error(chalk.red(err.message))
+	process.exit(1)
+})
@@ -0,0 +1,424 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import Ajv, { ErrorObject } from 'ajv'
+import {
+	parseDocument,
+	visit,
+	isScalar,
+	isNode,
+	isPair,
+	LineCounter,
+	Document,
+	Scalar,
+} from 'yaml'
+import { ModelHTTPServerOptions } from '#lllms/http.js'
+import { ModelServer } from '#lllms/server.js'
+import { ModelOptions } from '#lllms/types/index.js'
+import { configSchema } from '#lllms/lib/configSchema.js'
+import { LogLevels } from '#lllms/lib/logger.js'
+
+export interface ConfigError {
+	path: string
+	message: string
+	line?: number
+	column?: number
+}
+
+export class ConfigValidationError extends Error {
+	file: string
+	errors: ConfigError[]
+	constructor(file: string, errors: ConfigError[]) {
+		const lines = errors.map((error) => {
+			const location = error.line ? `${file}:${error.line}:${error.column}` : file
+			return `  ${location} ${error.path ? error.path + ' ' : ''}${error.message}`
+		})
+		super(`Invalid config file ${file}\n${lines.join('\n')}`)
+		this.name = 'ConfigValidationError'
+		this.file = file
+		this.errors = errors
+	}
+}
+
+export const defaultConfigFiles = [
+	'lllms.config.json',
+	'lllms.config.yaml',
+	'lllms.config.yml',
+	'lllms.config.js',
+	'lllms.config.mjs',
+]
+
+// finds the first default config file in given directory
+export function findConfigFile(dirPath: string = process.cwd()) {
+	for (const fileName of defaultConfigFiles) {
+		const filePath = path.join(dirPath, fileName)
+		if (fs.existsSync(filePath)) {
+			return filePath
+		}
+	}
+	return undefined
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false })
+const validateConfig = ajv.compile<ModelHTTPServerOptions>(configSchema)
+// js configs may also declare custom engines
+const validateJSConfig = ajv.compile<ModelHTTPServerOptions>({
+	...configSchema,
+	properties: {
+		...configSchema.properties,
+		engines: { type: 'object' },
+	},
+})
+
+// matches ${VAR} and ${VAR:-default}
+const envVarPattern = /\$\{([a-zA-Z_][a-zA-Z0-9_]*)(?::-([^}]*))?\}/g
+
+function getNodePosition(
+	node: unknown,
+	lineCounter?: LineCounter,
+): Pick<ConfigError, 'line' | 'column'> {
+	if (!lineCounter || !isNode(node) || !node.range) {
+		return {}
+	}
+	const { line, col } = lineCounter.linePos(node.range[0])
+	return { line, column: col }
+}
+
+// replaces environment variable references in all string values of the document
+function interpolateEnvVars(
+	doc: Document,
+	lineCounter: LineCounter,
+	env: Record<string, string | undefined>,
+) {
+	const errors: ConfigError[] = []
+	visit(doc, {
+		Scalar(key, node, ancestors) {
+			if (key === 'key' || typeof node.value !== 'string') {
+				return
+			}
+			const source = node.value
+			if (!source.includes('${')) {
+				return
+			}
+			const interpolated = source.replace(
+				envVarPattern,
+				(match, name: string, defaultValue?: string) => {
+					const value = env[name] ?? defaultValue
+					if (value === undefined) {
+						errors.push({
+							path: getNodePath(key, ancestors),
+							message: `references undefined environment variable "${name}"`,
+							...getNodePosition(node, lineCounter),
+						})
+						return match
+					}
+					return value
+				},
+			)
+			// values that consist of a single reference get coerced, so numbers and booleans work
+			if (/^\$\{[^}]+\}$/.test(source.trim())) {
+				const coerced = parseDocument(interpolated).toJS()
+				node.value = isScalarValue(coerced) ? coerced : interpolated
+			} else {
+				node.value = interpolated
+			}
+		},
+	})
+	return errors
+}
+
+// builds a dotted path like "models.phi3.url" from the visitor ancestors
+function getNodePath(key: unknown, ancestors: readonly unknown[]) {
+	const segments: string[] = []
+	for (const ancestor of ancestors) {
+		if (isPair(ancestor) && isScalar(ancestor.key)) {
+			segments.push(String(ancestor.key.value))
+		}
+	}
+	if (typeof key === 'number') {
+		segments.push(String(key))
+	}
+	return segments.join('.')
+}
+
+function isScalarValue(value: unknown) {
+	return (
+		typeof value === 'string' ||
+		typeof value === 'number' ||
+		typeof value === 'boolean'
+	)
+}
+
+function formatAjvError(error: ErrorObject) {
+	if (error.keyword === 'additionalProperties') {
+		return `has unknown property "${error.params.additionalProperty}"`
+	}
+	if (error.keyword === 'enum') {
+		return `${error.message}: ${error.params.allowedValues
+			.map((value: unknown) => JSON.stringify(value))
+			.join(', ')}`
+	}
+	return error.message ?? 'is invalid'
+}
+
+// positions are only known for errors in JSON and YAML documents
+function toConfigErrors(
+	ajvErrors: ErrorObject[],
+	doc?: Document,
+	lineCounter?: LineCounter,
+) {
+	const errors: ConfigError[] = []
+	for (const error of ajvErrors) {
+		// "if" errors only indicate that a "then" branch failed, which is reported separately
+		if (error.keyword === 'if') {
+			continue
+		}
+		const segments = error.instancePath
+			.split('/')
+			.slice(1)
+			.map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+		let node: unknown = doc?.getIn(segments, true)
+		let errorPath = segments.join('.')
+		if (error.keyword === 'additionalProperties') {
+			// point to the offending key instead of the parent object
+			const keySegments = [...segments, error.params.additionalProperty]
+			const parent: any = doc?.getIn(segments, true) ?? doc?.contents
+			const pair = parent?.items?.find(
+				(item: any) =>
+					isScalar(item.key) &&
+					(item.key as Scalar).value === error.params.additionalProperty,
+			)
+			node = pair?.key ?? node
+			errorPath = keySegments.join('.')
+		}
+		const configError = {
+			path: errorPath,
+			message: formatAjvError(error),
+			...getNodePosition(node, lineCounter),
+		}
+		// anyOf/allOf branches may report the same problem multiple times
+		const isDuplicate = errors.some(
+			(existing) =>
+				existing.path === configError.path &&
+				existing.message === configError.message,
+		)
+		if (!isDuplicate) {
+			errors.push(configError)
+		}
+	}
+	return errors
+}
+
+// parses and validates a JSON or YAML config string
+export function parseConfig(
+	source: string,
+	file = 'config',
+	env: Record<string, string | undefined> = process.env,
+): ModelHTTPServerOptions {
+	const lineCounter = new LineCounter()
+	const doc = parseDocument(source, { lineCounter, prettyErrors: false })
+	if (doc.errors.length) {
+		throw new ConfigValidationError(
+			file,
+			doc.errors.map((error) => {
+				const { line, col } = lineCounter.linePos(error.pos[0])
+				return {
+					path: '',
+					message: error.message.split('\n')[0],
+					line,
+					column: col,
+				}
+			}),
+		)
+	}
+	const envErrors = interpolateEnvVars(doc, lineCounter, env)
+	if (envErrors.length) {
+		throw new ConfigValidationError(file, envErrors)
+	}
+	const config = doc.toJS()
+	if (!validateConfig(config)) {
+		throw new ConfigValidationError(
+			file,
+			toConfigErrors(validateConfig.errors ?? [], doc, lineCounter),
+		)
+	}
+	return config
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== 'object' || value === null) {
+		return false
+	}
+	const prototype = Object.getPrototypeOf(value)
+	return prototype === Object.prototype || prototype === null
+}
+
+function isJSONValue(value: unknown) {
+	return (
+		value === null ||
+		isScalarValue(value) ||
+		Array.isArray(value) ||
+		isPlainObject(value)
+	)
+}
+
+// drops what only js configs can contain, like loggers, tracers, model classes and regular expressions
+function omitNonJSONValues(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.filter(isJSONValue).map(omitNonJSONValues)
+	}
+	if (isPlainObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([, entry]) => isJSONValue(entry))
+				.map(([key, entry]) => [key, omitNonJSONValues(entry)]),
+		)
+	}
+	return value
+}
+
+// validates the parts of a js config that could also be written as JSON.
+// the options of custom engine models are up to their engine.
+export function validateConfigObject(
+	config: ModelHTTPServerOptions,
+	file = 'config',
+) {
+	const values = omitNonJSONValues(config)
+	if (isPlainObject(values) && isPlainObject(values.models)) {
+		const customEngines = Object.keys(config.engines ?? {})
+		values.models = Object.fromEntries(
+			Object.entries(values.models).filter(([, modelOptions]) => {
+				return !(
+					isPlainObject(modelOptions) &&
+					customEngines.includes(modelOptions.engine as string)
+				)
+			}),
+		)
+	}
+	if (!validateJSConfig(values)) {
+		throw new ConfigValidationError(
+			file,
+			toConfigErrors(validateJSConfig.errors ?? []),
+		)
+	}
+}
+
+// loads and validates a config file
+export async function loadConfigFile(
+	file: string,
+): Promise<ModelHTTPServerOptions> {
+	const configPath = path.resolve(file)
+	if (!fs.existsSync(configPath)) {
+		throw new Error(`Config file not found: ${configPath}`)
+	}
+	const extension = path.extname(configPath)
+	let config: ModelHTTPServerOptions
+	if (extension === '.js' || extension === '.mjs' || extension === '.cjs') {
+		// include mtime so changed files are not served from the module cache
+		const configUrl = pathToFileURL(configPath)
+		configUrl.searchParams.set('t', String(fs.statSync(configPath).mtimeMs))
+		const configModule = await import(configUrl.href)
+		config = configModule.default ?? configModule
+		validateConfigObject(config, path.relative(process.cwd(), configPath))
+	} else {
+		const source = fs.readFileSync(configPath, 'utf-8')
+		config = parseConfig(source, path.relative(process.cwd(), configPath))
+	}
+	// relative paths in config files are relative to the config file
+	if (config.modelsPath && !path.isAbsolute(config.modelsPath)) {
+		config.modelsPath = path.resolve(path.dirname(configPath), config.modelsPath)
+	}
+	for (const key of ['keysFile', 'usageFile'] as const) {
+		const filePath = config.auth?.[key]
+		if (filePath && !path.isAbsolute(filePath)) {
+			config.auth![key] = path.resolve(path.dirname(configPath), filePath)
+		}
+	}
+	return config
+}
+
+// applies model changes in a config file to a running server. other changes require a restart.
+export async function watchConfigFile(file: string, server: ModelServer) {
+	const configPath = path.resolve(file)
+	let currentConfig = await loadConfigFile(configPath)
+	let reloadPromise = Promise.resolve()
+	let reloadTimeout: NodeJS.Timeout | undefined
+
+	const applyConfig = async () => {
+		let nextConfig: ModelHTTPServerOptions
+		try {
+			nextConfig = await loadConfigFile(configPath)
+		} catch (error) {
+			server.log(LogLevels.error, 'Failed to reload config file', {
+				file: configPath,
+				error,
+			})
+			return
+		}
+		for (const key in { ...currentConfig, ...nextConfig }) {
+			const optionKey = key as keyof ModelHTTPServerOptions
+			if (
+				optionKey !== 'models' &&
+				JSON.stringify(currentConfig[optionKey]) !==
+					JSON.stringify(nextConfig[optionKey])
+			) {
+				server.log(LogLevels.warn, `Changing "${key}" requires a restart`)
+			}
+		}
+		const currentModels = currentConfig.models ?? {}
+		const nextModels = nextConfig.models ?? {}
+		currentConfig = nextConfig
+		const changes: Array<Promise<void>> = []
+		for (const modelId in currentModels) {
+			if (!nextModels[modelId]) {
+				changes.push(server.removeModel(modelId))
+			}
+		}
+		for (const modelId in nextModels) {
+			const modelOptions = nextModels[modelId]
+			if (!currentModels[modelId]) {
+				changes.push(server.addModel(modelId, modelOptions))
+			} else if (
+				JSON.stringify(currentModels[modelId]) !== JSON.stringify(modelOptions)
+			) {
+				// unset options that have been removed from the config
+				const removedOptions = Object.fromEntries(
+					Object.keys(currentModels[modelId])
+						.filter((key) => !(key in modelOptions))
+						.map((key) => [key, undefined]),
+				)
+				changes.push(
+					server.updateModel(modelId, {
+						...removedOptions,
+						...modelOptions,
+					} as Partial<ModelOptions>),
+				)
+			}
+		}
+		const results = await Promise.allSettled(changes)
+		for (const result of results) {
+			if (result.status === 'rejected') {
+				server.log(LogLevels.error, 'Failed to apply config change', {
+					error: result.reason,
+				})
+			}
+		}
+		server.log(LogLevels.info, 'Config reloaded', { file: configPath })
+	}
+
+	// watching the directory, because editors often replace the file instead of writing to it
+	const watcher = fs.watch(path.dirname(configPath), (event, fileName) => {
+		if (fileName !== path.basename(configPath)) {
+			return
+		}
+		clearTimeout(reloadTimeout)
+		reloadTimeout = setTimeout(() => {
+			if (!fs.existsSync(configPath)) {
+				return
+			}
+			reloadPromise = reloadPromise.then(applyConfig)
+		}, 100)
+	})
+	watcher.on('close', () => clearTimeout(reloadTimeout))
+	return watcher
+}
@@ -23,6 +23,8 @@ import {
 	ModelConfig,
 	TextCompletionPreloadOptions,
 	TextCompletionParams,
+	ChatCompletionChoice,
+	TextCompletionChoice,
 } from '#lllms/types/index.js'
 import { LogLevels } from '#lllms/lib/logger.js'
 import { downloadLargeFile } from '#lllms/lib/downloadLargeFile.js'
@@ -58,6 +60,7 @@ export interface GPT4AllModelConfig extends ModelConfig {
 }
 
 export const autoGpu = true
+export const supportsChoices = true
 
 export async function prepareModel(
 	{ config, log }: EngineContext<GPT4AllModelConfig>,
@@ -123,6 +126,20 @@ export async function prepareModel(
 	return modelMeta
 }
 
+// gpt4all's model list contains the required ram in GB, fall back to file size for unlisted models
+export async function estimateResources({
+	config,
+	meta,
+}: EngineContext<GPT4AllModelConfig, GPT4AllModelMeta>) {
+	const requiredBytes = meta?.ramrequired
+		? Number(meta.ramrequired) * 1024 * 1024 * 1024
+		: fs.statSync(config.location).size
+	if (config.device?.gpu) {
+		return { ram: 0, vram: requiredBytes }
+	}
+	return { ram: requiredBytes, vram: 0 }
+}
+
 export async function createInstance(
 	{ config, log }: EngineContext<GPT4AllModelConfig>,
 	signal?: AbortSignal,
@@ -199,77 +216,95 @@ export async function processTextCompletionTask(
 		throw new Error('Prompt is required for text completion.')
 	}
 
-	let finishReason: CompletionFinishReason = 'eogToken'
-	let suffixToRemove: string | undefined
-
 	const defaults = config.completionDefaults ?? {}
 	const stopTriggers = request.stop ?? defaults.stop ?? []
 	const includesStopTriggers = (text: string) =>
 		stopTriggers.find((t) => text.includes(t))
-	const result = await instance.generate(request.prompt, {
-		// @ts-ignore
-		special: true, // allows passing in raw prompt (including <|start|> etc.)
-		promptTemplate: '%1',
-		temperature: request.temperature ?? defaults.temperature,
-		nPredict: request.maxTokens ?? defaults.maxTokens,
-		topP: request.topP ?? defaults.topP,
-		topK: request.topK ?? defaults.topK,
-		minP: request.minP ?? defaults.minP,
-		nBatch: config?.batchSize,
-		repeatLastN: request.repeatPenaltyNum ?? defaults.repeatPenaltyNum,
-		// repeat penalty is doing something different than both frequency and presence penalty
-		// so not falling back to them here.
-		repeatPenalty: request.repeatPenalty ?? defaults.repeatPenalty,
-		// seed: args.seed, // https://github.com/nomic-ai/gpt4all/issues/1952
-		// @ts-ignore
-		onResponseToken: (tokenId, text) => {
-			const matchingTrigger = includesStopTriggers(text)
-			if (matchingTrigger) {
-				finishReason = 'stopTrigger'
-				suffixToRemove = text
-				return false
-			}
-			if (onChunk) {
-				onChunk({
-					text,
-					tokens: [tokenId],
-				})
-			}
-			return !signal?.aborted
-		},
-		// @ts-ignore
-		onResponseTokens: ({ tokenIds, text }) => {
-			const matchingTrigger = includesStopTriggers(text)
-			if (matchingTrigger) {
-				finishReason = 'stopTrigger'
-				suffixToRemove = text
-				return false
-			}
-			if (onChunk) {
-				onChunk({
-					text,
-					tokens: tokenIds,
-				})
-			}
-			return !signal?.aborted
-		},
-	})
+	const choiceCount = request.n ?? 1
+	const choices: TextCompletionChoice[] = []
+	let promptTokens = 0
+	let completionTokens = 0
+	// gpt4all cant be seeded (see below). its sampler continues from one choice to the next,
+	// so each choice is a new random draw.
+	for (let index = 0; index < choiceCount && !signal?.aborted; index++) {
+		let finishReason: CompletionFinishReason = 'eogToken'
+		let suffixToRemove: string | undefined
+		const result = await instance.generate(request.prompt, {
+			// @ts-ignore
+			special: true, // allows passing in raw prompt (including <|start|> etc.)
+			promptTemplate: '%1',
+			temperature: request.temperature ?? defaults.temperature,
+			nPredict: request.maxTokens ?? defaults.maxTokens,
+			topP: request.topP ?? defaults.topP,
+			topK: request.topK ?? defaults.topK,
+			minP: request.minP ?? defaults.minP,
+			nBatch: config?.batchSize,
+			repeatLastN: request.repeatPenaltyNum ?? defaults.repeatPenaltyNum,
+			// repeat penalty is doing something different than both frequency and presence penalty
+			// so not falling back to them here.
+			repeatPenalty: request.repeatPenalty ?? defaults.repeatPenalty,
+			// seed: args.seed, // https://github.com/nomic-ai/gpt4all/issues/1952
+			// @ts-ignore
+			onResponseToken: (tokenId, text) => {
+				const matchingTrigger = includesStopTriggers(text)
+				if (matchingTrigger) {
+					finishReason = 'stopTrigger'
+					suffixToRemove = text
+					return false
+				}
+				if (onChunk) {
+					onChunk({
+						text,
+						tokens: [tokenId],
+						index,
+					})
+				}
+				return !signal?.aborted
+			},
+			// @ts-ignore
+			onResponseTokens: ({ tokenIds, text }) => {
+				const matchingTrigger = includesStopTriggers(text)
+				if (matchingTrigger) {
+					finishReason = 'stopTrigger'
+					suffixToRemove = text
+					return false
+				}
+				if (onChunk) {
+					onChunk({
+						text,
+						tokens: tokenIds,
+						index,
+					})
+				}
+				return !signal?.aborted
+			},
+		})
 
-	if (result.tokensGenerated === request.maxTokens) {
-		finishReason = 'maxTokens'
-	}
+		if (result.tokensGenerated === request.maxTokens) {
+			finishReason = 'maxTokens'
+		}
 
-	let responseText = result.text
-	if (suffixToRemove) {
-		responseText = responseText.slice(0, -suffixToRemove.length)
+		let responseText = result.text
+		if (suffixToRemove) {
+			responseText = responseText.slice(0, -suffixToRemove.length)
+		}
+		choices.push({
+			finishReason,
+			text: responseText,
+		})
+		// the prompt is ingested for every choice, but counted once like openai does
+		if (index === 0) {
+			promptTokens = result.tokensIngested
+		}
+		completionTokens += result.tokensGenerated
 	}
 
 	return {
-		finishReason,
-		text: responseText,
-		promptTokens: result.tokensIngested,
-		completionTokens: result.tokensGenerated,
-		totalTokens: result.tokensIngested + result.tokensGenerated,
+		...choices[0],
+		choices: choiceCount > 1 ? choices : undefined,
+		promptTokens,
+		completionTokens,
+		totalTokens: promptTokens + completionTokens,
 	}
 }
 
@@ -315,76 +350,99 @@ export async function processChatCompletionTask(
 	}
 	const input: CompletionInput = lastMessage.content
 
-	let finishReason: CompletionFinishReason = 'eogToken'
-	let suffixToRemove: string | undefined
-
 	const defaults = config.completionDefaults ?? {}
 	const stopTriggers = request.stop ?? defaults.stop ?? []
 	const includesStopTriggers = (text: string) =>
 		stopTriggers.find((t) => text.includes(t))
-	const result = await createCompletion(session, input, {
-		temperature: request.temperature ?? defaults.temperature,
-		nPredict: request.maxTokens ?? defaults.maxTokens,
-		topP: request.topP ?? defaults.topP,
-		topK: request.topK ?? defaults.topK,
-		minP: request.minP ?? defaults.minP,
-		nBatch: config.batchSize,
-		repeatLastN: request.repeatPenaltyNum ?? defaults.repeatPenaltyNum,
-		repeatPenalty: request.repeatPenalty ?? defaults.repeatPenalty,
-		// seed: args.seed, // see https://github.com/nomic-ai/gpt4all/issues/1952
-		// @ts-ignore
-		onResponseToken: (tokenId, text) => {
-			const matchingTrigger = includesStopTriggers(text)
-			if (matchingTrigger) {
-				finishReason = 'stopTrigger'
-				suffixToRemove = text
-				return false
-			}
-			if (onChunk) {
-				onChunk({
-					text,
-					tokens: [tokenId],
-				})
-			}
-			return !signal?.aborted
-		},
-		// @ts-ignore
-		onResponseTokens: ({ tokenIds, text }) => {
-			const matchingTrigger = includesStopTriggers(text)
-			if (matchingTrigger) {
-				finishReason = 'stopTrigger'
-				suffixToRemove = text
-				return false
-			}
-			if (onChunk) {
-				onChunk({
-					tokens: tokenIds,
-					text,
-				})
-			}
-
-			return !signal?.aborted
-		},
-	})
+	const choiceCount = request.n ?? 1
+	const choices: ChatCompletionChoice[] = []
+	let promptTokens = 0
+	let completionTokens = 0
+	// the session keeps the last generated choice, so the first one is generated last.
+	// the others rewind the session to before the new user message.
+	const sessionPast = session.promptContext.nPast
+	const sessionMessageCount = session.messages.length
+	const choiceIndexes = [...Array(choiceCount).keys()].slice(1).concat(0)
+	for (const index of choiceIndexes) {
+		let finishReason: CompletionFinishReason = 'eogToken'
+		let suffixToRemove: string | undefined
+		const result = await createCompletion(session, input, {
+			nPast: sessionPast,
+			temperature: request.temperature ?? defaults.temperature,
+			nPredict: request.maxTokens ?? defaults.maxTokens,
+			topP: request.topP ?? defaults.topP,
+			topK: request.topK ?? defaults.topK,
+			minP: request.minP ?? defaults.minP,
+			nBatch: config.batchSize,
+			repeatLastN: request.repeatPenaltyNum ?? defaults.repeatPenaltyNum,
+			repeatPenalty: request.repeatPenalty ?? defaults.repeatPenalty,
+			// seed: args.seed, // see https://github.com/nomic-ai/gpt4all/issues/1952
+			// @ts-ignore
+			onResponseToken: (tokenId, text) => {
+				const matchingTrigger = includesStopTriggers(text)
+				if (matchingTrigger) {
+					finishReason = 'stopTrigger'
+					suffixToRemove = text
+					return false
+				}
+				if (onChunk) {
+					onChunk({
+						text,
+						tokens: [tokenId],
+						index,
+					})
+				}
+				return !signal?.aborted
+			},
+			// @ts-ignore
+			onResponseTokens: ({ tokenIds, text }) => {
+				const matchingTrigger = includesStopTriggers(text)
+				if (matchingTrigger) {
+					finishReason = 'stopTrigger'
+					suffixToRemove = text
+					return false
+				}
+				if (onChunk) {
+					onChunk({
+						tokens: tokenIds,
+						text,
+						index,
+					})
+				}
+
+				return !signal?.aborted
+			},
+		})
+		if (index !== 0) {
+			session.messages.length = sessionMessageCount
+		}
 
-	if (result.usage.completion_tokens === request.maxTokens) {
-		finishReason = 'maxTokens'
-	}
+		if (result.usage.completion_tokens === request.maxTokens) {
+			finishReason = 'maxTokens'
+		}
 
-	let response = result.choices[0].message.content
-	if (suffixToRemove) {
-		response = response.slice(0, -suffixToRemove.length)
+		let response = result.choices[0].message.content
+		if (suffixToRemove) {
+			response = response.slice(0, -suffixToRemove.length)
+		}
+		choices[index] = {
+			finishReason,
+			message: {
+				role: 'assistant',
+				content: response,
+			},
+		}
+		// the user message is ingested for every choice, but counted once like openai does
+		promptTokens = result.usage.prompt_tokens
+		completionTokens += result.usage.completion_tokens
 	}
 
 	return {
-		finishReason,
-		message: {
-			role: 'assistant',
-			content: response,
-		},
-		promptTokens: result.usage.prompt_tokens,
-		completionTokens: result.usage.completion_tokens,
-		totalTokens: result.usage.total_tokens,
+		...choices[0],
+		choices: choiceCount > 1 ? choices : undefined,
+		promptTokens,
+		completionTokens,
+		totalTokens: promptTokens + completionTokens,
 	}
 }
 
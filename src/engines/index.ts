@@ -1,6 +1,6 @@
 import type { ModelPool } from '#lllms/pool.js'
 import type { ModelStore } from '#lllms/store.js'
-import { ModelEngine, EngineStartContext, ModelOptions, BuiltInModelOptions } from '#lllms/types/index.js'
+import { ModelEngine, EngineStartContext, ModelOptions, BuiltInModelOptions, ModelTaskType } from '#lllms/types/index.js'
 // export type { NodeLlamaCppEngineOptions } from './node-llama-cpp/engine.js'
 // export type { GPT4AllEngineOptions } from './gpt4all/engine.js'
 // export type { TransformersJsEngineOptions } from './transformers-js/engine.js'
@@ -17,6 +17,13 @@ export const builtInEngineNames: string[] = [
 	...Object.values(BuiltInEngines),
 ] as const
 
+// which tasks can be used with which built-in engine
+export const builtInEngineTasks: Record<BuiltInEngineName, ModelTaskType[]> = {
+	[BuiltInEngines.gpt4all]: ['text-completion', 'embedding'],
+	[BuiltInEngines.nodeLlamaCpp]: ['text-completion', 'embedding'],
+	[BuiltInEngines.transformersJs]: ['image-to-text', 'speech-to-text'],
+}
+
 export class CustomEngine implements ModelEngine {
 	pool!: ModelPool
 	store!: ModelStore
@@ -14,18 +14,19 @@ import {
 	Token,
 	LlamaContextSequence,
 	LlamaGrammar,
+	LlamaGrammarEvaluationState,
 	ChatHistoryItem,
 	LlamaChatResponse,
 	ChatModelResponse,
 	LlamaEmbeddingContext,
 	defineChatSessionFunction,
-	GbnfJsonSchema,
+	GbnfJsonObjectSchema,
 	ChatSessionModelFunction,
 	createModelDownloader,
 	readGgufFileInfo,
 	GgufFileInfo,
 	LlamaJsonSchemaGrammar,
-	LlamaModelOptions,
+	LlamaContextOptions,
 	LLamaChatContextShiftOptions,
 } from 'node-llama-cpp'
 import { StopGenerationTrigger } from 'node-llama-cpp/dist/utils/StopGenerationDetector'
@@ -45,7 +46,10 @@ import {
 	TextCompletionParams,
 	TextCompletionPreloadOptions,
 	TextCompletionGrammar,
+	ChatCompletionChoice,
+	TextCompletionChoice,
 } from '#lllms/types/index.js'
+import { UnsupportedTaskError } from '#lllms/errors.js'
 import { LogLevels } from '#lllms/lib/logger.js'
 import { flattenMessageTextContent } from '#lllms/lib/flattenMessageTextContent.js'
 import { calculateFileChecksum } from '#lllms/lib/calculateFileChecksum.js'
@@ -55,6 +59,7 @@ import {
 	createChatMessageArray,
 	addFunctionCallToChatHistory,
 	mapFinishReason,
+	generateWithLogprobs,
 } from './util.js'
 import { LlamaChatResult } from './types.js'
 
@@ -82,7 +87,7 @@ export interface NodeLlamaCppModelConfig extends ModelConfig {
 	preload?: TextCompletionPreloadOptions
 	contextSize?: number
 	batchSize?: number
-	lora?: LlamaModelOptions['lora']
+	lora?: LlamaContextOptions['lora']
 	contextShiftStrategy?: LLamaChatContextShiftOptions['strategy']
 	device?: {
 		gpu?: boolean | 'auto' | (string & {})
@@ -93,6 +98,8 @@ export interface NodeLlamaCppModelConfig extends ModelConfig {
 }
 
 export const autoGpu = true
+export const supportsLogprobs = true
+export const supportsChoices = true
 
 export async function prepareModel(
 	{
@@ -163,6 +170,38 @@ export async function prepareModel(
 }
 
 
+// rough estimate of memory use, based on model file size and the size of the kv cache
+export async function estimateResources({
+	config,
+	meta,
+}: EngineContext<NodeLlamaCppModelConfig, NodeLlamaCppModelMeta>) {
+	const modelSize = fs.statSync(config.location).size
+	let kvCacheSize = 0
+	let gpuLayerRatio = 1
+	if (meta?.gguf) {
+		const arch = meta.gguf.architectureMetadata
+		const layerCount = arch.block_count ?? 0
+		const embeddingLength = arch.embedding_length ?? 0
+		const headCount = arch.attention?.head_count ?? 1
+		const headCountKv = arch.attention?.head_count_kv ?? headCount
+		const contextSize = config.contextSize ?? arch.context_length ?? 4096
+		// keys and values for each layer and token, stored as f16
+		const kvEmbeddingLength = (embeddingLength * headCountKv) / headCount
+		kvCacheSize = 2 * layerCount * contextSize * kvEmbeddingLength * 2
+		if (config.device?.gpuLayers !== undefined && layerCount) {
+			gpuLayerRatio = Math.min(config.device.gpuLayers / layerCount, 1)
+		}
+	}
+	// compute buffers and scratch space
+	const overhead = 0.05 * modelSize
+	const totalSize = Math.round(modelSize + kvCacheSize + overhead)
+	if (!config.device?.gpu) {
+		return { ram: totalSize, vram: 0 }
+	}
+	const vram = Math.round(totalSize * gpuLayerRatio)
+	return { ram: totalSize - vram, vram }
+}
+
 export async function createInstance(
 	{
 		config,
@@ -208,7 +247,7 @@ export async function createInstance(
 				})
 			} else {
 				// assume input is a JSON schema object
-				llamaGrammars[key] = new LlamaJsonSchemaGrammar(llama, input as GbnfJsonSchema)
+				llamaGrammars[key] = new LlamaJsonSchemaGrammar(llama, input as GbnfJsonObjectSchema)
 			}
 		}
 	}
@@ -218,13 +257,12 @@ export async function createInstance(
 		loadSignal: signal,
 		useMlock: config.device?.memLock ?? false,
 		gpuLayers: config.device?.gpuLayers,
-		lora: config.lora,
 		// onLoadProgress: (percent) => {}
 	})
 
 	const context = await llamaModel.createContext({
 		sequences: 1,
-		seed: config.completionDefaults?.seed ?? createSeed(0, 1000000),
+		lora: config.lora,
 		threads: config.device?.cpuThreads,
 		batchSize: config.batchSize,
 		contextSize: config.contextSize,
@@ -261,7 +299,7 @@ export async function createInstance(
 					const functionDef = config.tools[functionName]
 					inputFunctions[functionName] = defineChatSessionFunction({
 						description: functionDef.description,
-						params: functionDef.parameters as GbnfJsonSchema,
+						params: functionDef.parameters as GbnfJsonObjectSchema,
 						handler: functionDef.handler || (() => {}),
 					}) as ChatSessionModelFunction
 				}
@@ -350,7 +388,7 @@ export async function processChatCompletionTask(
 	const completionTokenBias =
 		request.tokenBias ?? config.completionDefaults?.tokenBias
 	if (completionTokenBias) {
-		tokenBias = new TokenBias(instance.model)
+		tokenBias = new TokenBias(instance.model.tokenizer)
 		for (const key in completionTokenBias) {
 			const bias = completionTokenBias[key] / 10
 			const tokenId = parseInt(key) as Token
@@ -446,12 +484,16 @@ export async function processChatCompletionTask(
 			const functionDef = toolDefinitions[functionName]
 			inputFunctions[functionName] = defineChatSessionFunction({
 				description: functionDef.description,
-				params: functionDef.parameters as GbnfJsonSchema,
+				params: functionDef.parameters as GbnfJsonObjectSchema,
 				handler: functionDef.handler || (() => {}),
 			}) as ChatSessionModelFunction
 		}
 	}
 	const defaults = config.completionDefaults ?? {}
+	// choices are sampled with consecutive seeds
+	const seed = request.seed ?? defaults.seed ?? createSeed(0, 1000000)
+	// best_of ranks choices by their summed logprobs
+	const withLogprobs = request.logprobs || (request.bestOf ?? 1) > 1
 	let lastEvaluation: LlamaChatResponse['lastEvaluation'] | undefined =
 		instance.lastEvaluation
 	let newChatHistory = instance.chatHistory.slice()
@@ -494,18 +536,124 @@ export async function processChatCompletionTask(
 				grammar: inputGrammar,
 		  }
 
-	while (true) {
-		const {
-			functionCalls,
-			lastEvaluation: currentLastEvaluation,
-			metadata,
-		} = await instance.chat.generateResponse(newChatHistory, {
+	const choiceCount = request.n ?? 1
+	if (choiceCount > 1 && inputFunctions) {
+		throw new UnsupportedTaskError(
+			'Generating multiple choices is not supported with tools',
+		)
+	}
+	const getTokenUsage = () => {
+		const promptTokens =
+			instance.chat!.sequence.tokenMeter.usedInputTokens - inputTokenCountBefore
+		const completionTokens =
+			instance.chat!.sequence.tokenMeter.usedOutputTokens -
+			outputTokenCountBefore
+		return {
+			promptTokens,
+			completionTokens,
+			totalTokens: promptTokens + completionTokens,
+		}
+	}
+
+	if (withLogprobs) {
+		if (inputFunctions) {
+			throw new UnsupportedTaskError('Logprobs are not supported with tools')
+		}
+		const { contextText, stopGenerationTriggers } =
+			instance.chat.chatWrapper.generateContextState({
+				chatHistory: newChatHistory,
+			})
+		const tokens = contextText.tokenize(instance.model.tokenizer)
+		const responseItem = newChatHistory[
+			newChatHistory.length - 1
+		] as ChatModelResponse
+		const choices: ChatCompletionChoice[] = []
+		let responseText = ''
+		for (let index = 0; index < choiceCount; index++) {
+			const result = await generateWithLogprobs(instance.chat.sequence, {
+				tokens,
+				evaluateOptions: {
+					temperature: request.temperature ?? defaults.temperature,
+					topP: request.topP ?? defaults.topP,
+					topK: request.topK ?? defaults.topK,
+					minP: request.minP ?? defaults.minP,
+					seed: seed + index,
+					tokenBias,
+					grammarEvaluationState:
+						inputGrammar &&
+						new LlamaGrammarEvaluationState({
+							model: instance.model,
+							grammar: inputGrammar,
+						}),
+				},
+				repeatPenalty: {
+					lastTokens: request.repeatPenaltyNum ?? defaults.repeatPenaltyNum,
+					frequencyPenalty:
+						request.frequencyPenalty ?? defaults.frequencyPenalty,
+					presencePenalty: request.presencePenalty ?? defaults.presencePenalty,
+				},
+				maxTokens: request.maxTokens ?? defaults.maxTokens,
+				stopTriggers: [...stopGenerationTriggers, ...(stopTrigger ?? [])],
+				topLogprobs: request.topLogprobs,
+				signal,
+				onToken: (tokens, text, logprobs) => {
+					if (onChunk) {
+						onChunk({
+							tokens,
+							text,
+							index,
+							logprobs: request.logprobs ? logprobs : undefined,
+						})
+					}
+				},
+			})
+			responseText = result.text
+			choices.push({
+				message: { role: 'assistant', content: result.text },
+				finishReason: result.finishReason,
+				logprob: result.logprob,
+				logprobs: request.logprobs ? result.logprobs : undefined,
+			})
+			if (signal?.aborted) {
+				break
+			}
+		}
+		// the sequence holds the last generated choice, the chat continues from there
+		newChatHistory[newChatHistory.length - 1] = {
+			...responseItem,
+			response: [...responseItem.response, responseText],
+		}
+		instance.chatHistory = newChatHistory
+		instance.lastEvaluation = {
+			cleanHistory: newChatHistory,
+			contextWindow: newChatHistory,
+			contextShiftMetadata: lastEvaluation?.contextShiftMetadata,
+		}
+		return {
+			...choices[choices.length - 1],
+			choices: choiceCount > 1 ? choices : undefined,
+			...getTokenUsage(),
+		}
+	}
+	// additional choices are generated from the same history, reusing the evaluated prompt
+	const choiceChatHistory = newChatHistory
+	const choiceContextWindowChatHistory = newContextWindowChatHistory
+	const choiceContextShiftMetadata = lastEvaluation?.contextShiftMetadata
+
+	const generateResponse = (
+		chatHistory: ChatHistoryItem[],
+		contextWindowChatHistory: ChatHistoryItem[] | undefined,
+		contextShiftMetadata: LlamaChatResponse['lastEvaluation']['contextShiftMetadata'],
+		choiceIndex: number,
+	) =>
+		instance.chat!.generateResponse(chatHistory, {
 			signal,
 			maxTokens: request.maxTokens ?? defaults.maxTokens,
 			temperature: request.temperature ?? defaults.temperature,
 			topP: request.topP ?? defaults.topP,
 			topK: request.topK ?? defaults.topK,
 			minP: request.minP ?? defaults.minP,
+			seed: seed + choiceIndex,
 			tokenBias,
 			customStopTriggers,
 			trimWhitespaceSuffix: false,
@@ -518,10 +666,10 @@ export async function processChatCompletionTask(
 			},
 			contextShift: {
 				strategy: config.contextShiftStrategy,
-				lastEvaluationMetadata: lastEvaluation?.contextShiftMetadata,
+				lastEvaluationMetadata: contextShiftMetadata,
 			},
 			lastEvaluationContextWindow: {
-				history: newContextWindowChatHistory,
+				history: contextWindowChatHistory,
 				minimumOverlapPercentageToPreventContextShift: 0.5,
 			},
 			onToken: (tokens) => {
@@ -530,15 +678,28 @@ export async function processChatCompletionTask(
 					onChunk({
 						tokens,
 						text,
+						index: choiceIndex,
 					})
 				}
 			},
 		})
 
+	while (true) {
+		const {
+			functionCalls,
+			lastEvaluation: currentLastEvaluation,
+			metadata,
+		} = await generateResponse(
+			newChatHistory,
+			newContextWindowChatHistory,
+			lastEvaluation?.contextShiftMetadata,
+			0,
+		)
+
 		lastEvaluation = currentLastEvaluation
 		newChatHistory = lastEvaluation.cleanHistory
 
-		if (functionCalls) {
+		if (functionCalls?.length) {
 			// find leading immediately evokable function calls (=have a handler function)
 			const evokableFunctionCalls = []
 			for (const functionCall of functionCalls) {
@@ -658,8 +819,9 @@ export async function processChatCompletionTask(
 			},
 		)
 		if (tailingFunctionCalls.length) {
-			console.debug(tailingFunctionCalls)
-			log(LogLevels.warn, 'Tailing function calls not resolved')
+			log(LogLevels.warn, 'Tailing function calls not resolved', {
+				functionCalls: tailingFunctionCalls,
+			})
 		}
 
 		assistantMessage.toolCalls = pendingFunctionCalls.map((call) => {
@@ -678,17 +840,43 @@ export async function processChatCompletionTask(
 		})
 	}
 
-	const inputTokenCountAfter = instance.chat.sequence.tokenMeter.usedInputTokens
-	const outputTokenCountAfter =
-		instance.chat.sequence.tokenMeter.usedOutputTokens
-	const promptTokens = inputTokenCountAfter - inputTokenCountBefore
-	const completionTokens = outputTokenCountAfter - outputTokenCountBefore
+	const choices: ChatCompletionChoice[] = [
+		{
+			message: assistantMessage,
+			finishReason: mapFinishReason(completionResult.stopReason),
+		},
+	]
+	// node-llama-cpp cant fork a sequence, so the choices are generated one after another.
+	// each one rewinds the sequence to the prompt, which is only evaluated once.
+	// the chat continues from the last generated choice.
+	for (let index = 1; index < choiceCount && !signal?.aborted; index++) {
+		const { lastEvaluation: choiceEvaluation, metadata } =
+			await generateResponse(
+				choiceChatHistory,
+				choiceContextWindowChatHistory,
+				choiceContextShiftMetadata,
+				index,
+			)
+		instance.lastEvaluation = choiceEvaluation
+		instance.chatHistory = choiceEvaluation.cleanHistory
+		const response = choiceEvaluation.cleanHistory[
+			choiceEvaluation.cleanHistory.length - 1
+		] as ChatModelResponse
+		choices.push({
+			message: {
+				role: 'assistant',
+				content: response.response
+					.filter((item: any) => typeof item === 'string')
+					.join(''),
+			},
+			finishReason: mapFinishReason(metadata.stopReason),
+		})
+	}
+
 	return {
-		finishReason: mapFinishReason(completionResult.stopReason),
-		message: assistantMessage,
-		promptTokens,
-		completionTokens,
-		totalTokens: promptTokens + completionTokens,
+		...choices[choices.length - 1],
+		choices: choiceCount > 1 ? choices : undefined,
+		...getTokenUsage(),
 	}
 }
 
@@ -718,10 +906,7 @@ export async function processTextCompletionTask(
 		await instance.context.dispose()
 		instance.context = await instance.model.createContext({
 			createSignal: signal,
-			seed:
-				request.seed ??
-				config.completionDefaults?.seed ??
-				createSeed(0, 1000000),
+			lora: config.lora,
 			threads: config.device?.cpuThreads,
 			batchSize: config.batchSize,
 		})
@@ -740,39 +925,91 @@ export async function processTextCompletionTask(
 
 	const tokens = instance.model.tokenize(request.prompt)
 	const defaults = config.completionDefaults ?? {}
-	let generatedTokenCount = 0
-	const result = await completion.generateCompletionWithMeta(tokens, {
-		maxTokens: request.maxTokens ?? defaults.maxTokens,
+	const samplingOptions = {
 		temperature: request.temperature ?? defaults.temperature,
 		topP: request.topP ?? defaults.topP,
 		topK: request.topK ?? defaults.topK,
 		minP: request.minP ?? defaults.minP,
-		repeatPenalty: {
-			lastTokens: request.repeatPenaltyNum ?? defaults.repeatPenaltyNum,
-			frequencyPenalty: request.frequencyPenalty ?? defaults.frequencyPenalty,
-			presencePenalty: request.presencePenalty ?? defaults.presencePenalty,
-		},
-		signal: signal,
-		customStopTriggers: stopGenerationTriggers.length
-			? stopGenerationTriggers
-			: undefined,
-		onToken: (tokens) => {
-			generatedTokenCount += tokens.length
-			const text = instance.model.detokenize(tokens)
-			if (onChunk) {
-				onChunk({
-					tokens,
-					text,
-				})
-			}
-		},
-	})
+	}
+	const seed = request.seed ?? defaults.seed ?? createSeed(0, 1000000)
+	const withLogprobs = request.logprobs || (request.bestOf ?? 1) > 1
+	const repeatPenalty = {
+		lastTokens: request.repeatPenaltyNum ?? defaults.repeatPenaltyNum,
+		frequencyPenalty: request.frequencyPenalty ?? defaults.frequencyPenalty,
+		presencePenalty: request.presencePenalty ?? defaults.presencePenalty,
+	}
+	const choiceCount = request.n ?? 1
+	const choices: TextCompletionChoice[] = []
+	let generatedTokenCount = 0
+	// choices are generated one after another on the same sequence, see chat completions.
+	// only the first one evaluates the prompt
+	for (let index = 0; index < choiceCount; index++) {
+		if (withLogprobs) {
+			const { bos, shouldPrependBosToken } = instance.model.tokens
+			const result = await generateWithLogprobs(contextSequence, {
+				tokens:
+					shouldPrependBosToken && bos !== null ? [bos, ...tokens] : tokens,
+				evaluateOptions: { ...samplingOptions, seed: seed + index },
+				repeatPenalty,
+				maxTokens: request.maxTokens ?? defaults.maxTokens,
+				stopTriggers: stopTrigger,
+				topLogprobs: request.topLogprobs,
+				signal,
+				onToken: (tokens, text, logprobs) => {
+					generatedTokenCount += tokens.length
+					if (onChunk) {
+						onChunk({
+							tokens,
+							text,
+							index,
+							logprobs: request.logprobs ? logprobs : undefined,
+						})
+					}
+				},
+			})
+			choices.push({
+				finishReason: result.finishReason,
+				text: result.text,
+				logprob: result.logprob,
+				logprobs: request.logprobs ? result.logprobs : undefined,
+			})
+		} else {
+			const result = await completion.generateCompletionWithMeta(tokens, {
+				...samplingOptions,
+				seed: seed + index,
+				maxTokens: request.maxTokens ?? defaults.maxTokens,
+				repeatPenalty,
+				signal: signal,
+				customStopTriggers: stopGenerationTriggers.length
+					? stopGenerationTriggers
+					: undefined,
+				onToken: (tokens) => {
+					generatedTokenCount += tokens.length
+					const text = instance.model.detokenize(tokens)
+					if (onChunk) {
+						onChunk({
+							tokens,
+							text,
+							index,
+						})
+					}
+				},
+			})
+			choices.push({
+				finishReason: mapFinishReason(result.metadata.stopReason),
+				text: result.response,
+			})
+		}
+		if (signal?.aborted) {
+			break
+		}
+	}
 
 	completion.dispose()
 
 	return {
-		finishReason: mapFinishReason(result.metadata.stopReason),
-		text: result.response,
+		...choices[0],
+		choices: choiceCount > 1 ? choices : undefined,
 		promptTokens: tokens.length,
 		completionTokens: generatedTokenCount,
 		totalTokens: tokens.length + generatedTokenCount,
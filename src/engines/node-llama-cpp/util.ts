@@ -6,9 +6,18 @@ import {
 	ChatHistoryItem,
 	ChatModelResponse,
 	LlamaTextJSON,
+	LlamaContextSequence,
+	LlamaText,
+	LLamaContextualRepeatPenalty,
+	SequenceEvaluateOptions,
+	Token,
 } from 'node-llama-cpp'
 import { getGrammarsFolder } from 'node-llama-cpp/dist/utils/getGrammarsFolder'
-import { CompletionFinishReason, ChatMessage } from '#lllms/types/index.js'
+import {
+	CompletionFinishReason,
+	ChatMessage,
+	TokenLogprob,
+} from '#lllms/types/index.js'
 import { flattenMessageTextContent } from '#lllms/lib/flattenMessageTextContent.js'
 import { LlamaChatResult } from './types.js'
 
@@ -129,4 +138,174 @@ export async function readGBNFFiles(directoryPath: string) {
 	}, {} as Record<string, string>)
 }
 
+interface LogprobsGenerationOptions {
+	tokens: Token[]
+	evaluateOptions: Omit<SequenceEvaluateOptions, 'repeatPenalty'>
+	repeatPenalty?: LLamaContextualRepeatPenalty
+	maxTokens?: number
+	stopTriggers?: Array<string | LlamaText>
+	topLogprobs?: number
+	signal?: AbortSignal
+	onToken?: (tokens: Token[], text: string, logprobs: TokenLogprob[]) => void
+}
+
+// tokens can be missing from the probabilities, which would make their logprob -Infinity
+const minLogprob = -9999
+
+function toLogprob(probability: number = 0) {
+	return Math.max(Math.log(probability), minLogprob)
+}
+
+// LlamaChat and LlamaCompletion dont expose token probabilities, so requests with
+// logprobs are generated by evaluating the sequence directly.
+export async function generateWithLogprobs(
+	sequence: LlamaContextSequence,
+	{
+		tokens,
+		evaluateOptions,
+		repeatPenalty,
+		maxTokens,
+		stopTriggers = [],
+		topLogprobs = 0,
+		signal,
+		onToken,
+	}: LogprobsGenerationOptions,
+) {
+	const model = sequence.model
+	const stopTokens: Token[] = []
+	const stopTexts: string[] = []
+	for (const trigger of stopTriggers) {
+		if (typeof trigger === 'string') {
+			stopTexts.push(trigger)
+			continue
+		}
+		const triggerTokens = trigger.tokenize(model.tokenizer)
+		if (triggerTokens.length === 1) {
+			stopTokens.push(triggerTokens[0])
+		} else {
+			stopTexts.push(model.detokenize(triggerTokens))
+		}
+	}
+
+	// reuse the evaluated part of the input, the last token is evaluated again for its logits
+	const inputTokens = tokens.slice()
+	const lastInputToken = inputTokens.pop()
+	if (lastInputToken === undefined) {
+		throw new Error('Cannot generate without input tokens')
+	}
+	await sequence.adaptStateToTokens(inputTokens, false)
+
+	const generatedTokens: Token[] = []
+	const offsets: number[] = []
+	const logprobs: TokenLogprob[] = []
+	let text = ''
+	let releasedCount = 0
+	let finishReason: CompletionFinishReason = 'eogToken'
+
+	// tokens are held back while the text could still turn into a stop trigger
+	const releaseTokens = (releaseUntil: number) => {
+		let count = releasedCount
+		while (
+			count < generatedTokens.length &&
+			(offsets[count + 1] ?? text.length) <= releaseUntil
+		) {
+			count++
+		}
+		if (count > releasedCount && onToken) {
+			onToken(
+				generatedTokens.slice(releasedCount, count),
+				text.slice(offsets[releasedCount], offsets[count] ?? text.length),
+				logprobs.slice(releasedCount, count),
+			)
+		}
+		releasedCount = count
+	}
+
+	const evaluation = sequence.evaluateWithMetadata(
+		[...inputTokens.slice(sequence.nextTokenIndex), lastInputToken],
+		{ probabilities: true },
+		{
+			...evaluateOptions,
+			// end of generation tokens are yielded to finish with the right reason
+			yieldEogToken: true,
+			repeatPenalty: repeatPenalty && {
+				punishTokens: () =>
+					[...tokens, ...generatedTokens].slice(
+						-(repeatPenalty.lastTokens ?? 64),
+					),
+				penalty: repeatPenalty.penalty,
+				frequencyPenalty: repeatPenalty.frequencyPenalty,
+				presencePenalty: repeatPenalty.presencePenalty,
+			},
+		},
+	)
+	for await (const { token, probabilities } of evaluation) {
+		if (signal?.aborted) {
+			finishReason = 'abort'
+			break
+		}
+		if (stopTokens.includes(token)) {
+			finishReason = 'stopTrigger'
+			break
+		}
+		if (model.isEogToken(token)) {
+			finishReason = 'eogToken'
+			break
+		}
+		const previousTokens = generatedTokens.slice()
+		const tokenText = model.detokenize([token], false, previousTokens)
+		generatedTokens.push(token)
+		offsets.push(text.length)
+		text += tokenText
+		logprobs.push({
+			token: tokenText,
+			logprob: toLogprob(probabilities.get(token)),
+			topLogprobs: [...probabilities.entries()]
+				.slice(0, topLogprobs)
+				.map(([topToken, probability]) => ({
+					token: model.detokenize([topToken], false, previousTokens),
+					logprob: toLogprob(probability),
+				})),
+		})
 
+		const stopIndex = Math.min(
+			...stopTexts
+				.map((trigger) => text.indexOf(trigger))
+				.filter((index) => index >= 0),
+		)
+		if (stopIndex !== Infinity) {
+			text = text.slice(0, stopIndex)
+			const keptCount = offsets.filter((offset) => offset < stopIndex).length
+			generatedTokens.length = keptCount
+			offsets.length = keptCount
+			logprobs.length = keptCount
+			finishReason = 'stopTrigger'
+			break
+		}
+		if (maxTokens && generatedTokens.length >= maxTokens) {
+			finishReason = 'maxTokens'
+			break
+		}
+		let holdFrom = text.length
+		for (const trigger of stopTexts) {
+			const maxLength = Math.min(trigger.length - 1, text.length)
+			for (let length = maxLength; length > 0; length--) {
+				if (trigger.startsWith(text.slice(-length))) {
+					holdFrom = Math.min(holdFrom, text.length - length)
+					break
+				}
+			}
+		}
+		releaseTokens(holdFrom)
+	}
+	releaseTokens(Infinity)
+
+	return {
+		text,
+		tokens: generatedTokens,
+		logprobs,
+		// sum of the token logprobs, used to rank choices
+		logprob: logprobs.reduce((sum, entry) => sum + entry.logprob, 0),
+		finishReason,
+	}
+}
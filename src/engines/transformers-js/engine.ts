@@ -9,20 +9,23 @@ import {
 	EngineSpeechToTextArgs,
 } from '#lllms/types/index.js'
 
-import {
+// @ts-ignore
+import * as Transformers from '@xenova/transformers'
+import { LogLevels } from '#lllms/lib/logger.js'
+import { acquireFileLock } from '#lllms/lib/acquireFileLock.js'
+import { decodeAudio } from '#lllms/lib/audio.js'
+
+// TODO transformers.js types currently hard to fix, until v3 is released on npm (with typedefs)
+
+// the namespace is kept around to look up model classes by export name
+const {
 	env,
 	PreTrainedModel,
 	AutoProcessor,
 	AutoTokenizer,
 	RawImage,
 	TextStreamer,
-	// @ts-ignore
-} from '@xenova/transformers'
-import { LogLevels } from '#lllms/lib/logger.js'
-import { acquireFileLock } from '#lllms/lib/acquireFileLock.js'
-import { decodeAudio } from '#lllms/lib/audio.js'
-
-// TODO transformers.js types currently hard to fix, until v3 is released on npm (with typedefs)
+} = Transformers
 
 interface TransformersJsInstance {
 	model: any
@@ -85,6 +88,27 @@ function checkModelExists(config: TransformersJsModelConfig) {
 
 export const autoGpu = true
 
+// model classes can be passed in as class or by export name, for example from config files
+function resolveModelClass(config: TransformersJsModelConfig) {
+	if (!config.modelClass) {
+		return PreTrainedModel
+	}
+	if (typeof config.modelClass === 'string') {
+		const ModelClass =
+			Transformers[config.modelClass as keyof typeof Transformers]
+		if (
+			typeof ModelClass !== 'function' ||
+			!('from_pretrained' in ModelClass)
+		) {
+			throw new Error(
+				`Unknown model class "${config.modelClass}" for model ${config.id}`,
+			)
+		}
+		return ModelClass
+	}
+	return config.modelClass
+}
+
 export async function prepareModel(
 	{
 		config,
@@ -113,7 +137,7 @@ export async function prepareModel(
 	const branch = urlSegments[4] || 'main'
 
 	const modelId = `${org}/${repo}`
-	const ModelClass = config.modelClass ?? PreTrainedModel
+	const ModelClass = resolveModelClass(config)
 	const modelFiles: ModelFile[] = []
 	const configMeta: any = {}
 
@@ -202,6 +226,20 @@ export async function prepareModel(
 	}
 }
 
+// onnx weights are loaded into memory as a whole
+export async function estimateResources({
+	config,
+	meta,
+}: EngineContext<TransformersJsModelConfig, TransformersJsModelMeta>) {
+	const onnxSize = (meta?.files ?? [])
+		.filter((modelFile) => modelFile.file.endsWith('.onnx'))
+		.reduce((acc, modelFile) => acc + modelFile.size, 0)
+	if (config.device?.gpu) {
+		return { ram: 0, vram: onnxSize }
+	}
+	return { ram: onnxSize, vram: 0 }
+}
+
 export async function createInstance(
 	{
 		config,
@@ -209,7 +247,7 @@ export async function createInstance(
 	}: EngineContext<TransformersJsModelConfig>,
 	signal?: AbortSignal,
 ) {
-	const ModelClass = config.modelClass ?? PreTrainedModel
+	const ModelClass = resolveModelClass(config)
 	let modelPath = config.location
 	if (!modelPath.endsWith('/')) {
 		modelPath += '/'
@@ -287,8 +325,9 @@ export async function processImageToTextTask(
 	}
 }
 
+const WHISPER_SAMPLING_RATE = 16_000
+
 async function readAudioFile(filePath: string) {
-	const WHISPER_SAMPLING_RATE = 16_000
 	const MAX_AUDIO_LENGTH = 30 // seconds
 	const MAX_SAMPLES = WHISPER_SAMPLING_RATE * MAX_AUDIO_LENGTH
 	// Read the file into a buffer
@@ -320,15 +359,21 @@ export async function processSpeechToTextTask(
 		},
 	})
 	let inputs
+	let duration: number | undefined
 	if (request.file) {
 		const audio = await readAudioFile(request.file)
+		duration = audio.length / WHISPER_SAMPLING_RATE
 		inputs = await instance.processor(audio)
 	}
 
+	const task = request.task ?? 'transcribe'
+	// when translating, let the model detect the spoken language unless its given
+	const language = request.language ?? (task === 'translate' ? undefined : 'en')
 	const outputs = await instance.model.generate({
 		...inputs,
 		max_new_tokens: request.maxTokens ?? 128,
-		language: request.language ?? 'en',
+		language,
+		task,
 		streamer,
 	})
 
@@ -338,5 +383,7 @@ export async function processSpeechToTextTask(
 	
 	return {
 		text: outputText[0],
+		language,
+		duration,
 	}
 }
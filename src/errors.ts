@@ -0,0 +1,73 @@
+// thrown when a request cant be queued because too many requests are waiting already
+export class QueueFullError extends Error {
+	// seconds after which the client may retry
+	retryAfter: number
+
+	constructor(message: string, retryAfter: number = 1) {
+		super(message)
+		this.name = 'QueueFullError'
+		this.retryAfter = retryAfter
+	}
+}
+
+// thrown when a request waited longer than the queue timeout for an instance
+export class QueueTimeoutError extends Error {
+	// seconds after which the client may retry
+	retryAfter: number
+
+	constructor(message: string, retryAfter: number = 1) {
+		super(message)
+		this.name = 'QueueTimeoutError'
+		this.retryAfter = retryAfter
+	}
+}
+
+// thrown when a model is temporarily unavailable, ie because its instances keep failing to load
+export class ModelUnavailableError extends Error {
+	// seconds after which the client may retry
+	retryAfter: number
+
+	constructor(message: string, retryAfter: number = 1) {
+		super(message)
+		this.name = 'ModelUnavailableError'
+		this.retryAfter = retryAfter
+	}
+}
+
+// thrown for requests that arrive or are still waiting while the server is shutting down
+export class ShutdownError extends Error {
+	constructor(message: string = 'Server is shutting down') {
+		super(message)
+		this.name = 'ShutdownError'
+	}
+}
+
+// thrown when a model does not exist, or has been removed while it was used
+export class ModelNotFoundError extends Error {
+	modelId: string
+
+	constructor(modelId: string) {
+		super(`Model not found: ${modelId}`)
+		this.name = 'ModelNotFoundError'
+		this.modelId = modelId
+	}
+}
+
+// thrown when a task is requested from an instance whose engine cant process it
+export class UnsupportedTaskError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'UnsupportedTaskError'
+	}
+}
+
+// thrown when a request body is larger than the server accepts
+export class RequestBodyTooLargeError extends Error {
+	maxSize: number
+
+	constructor(maxSize: number) {
+		super(`Request body exceeds ${maxSize} bytes`)
+		this.name = 'RequestBodyTooLargeError'
+		this.maxSize = maxSize
+	}
+}
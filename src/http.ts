@@ -1,51 +1,254 @@
 import http from 'node:http'
 import { ListenOptions } from 'node:net'
 import express from 'express'
-import cors from 'cors'
+import cors, { CorsOptions } from 'cors'
+import {
+	SpanKind,
+	SpanStatusCode,
+	Tracer,
+	context,
+	trace,
+} from '@opentelemetry/api'
 import { createOpenAIRequestHandlers } from '#lllms/api/openai/index.js'
 import { createAPIMiddleware } from '#lllms/api/v1/index.js'
+import {
+	AuthOptions,
+	createAuthMiddleware,
+	isModelAllowed,
+	requireAllModelsAccess,
+} from '#lllms/api/auth.js'
+import { RateLimiter } from '#lllms/lib/rateLimiter.js'
+import {
+	AdminAPIOptions,
+	createAdminMiddleware,
+} from '#lllms/api/admin/index.js'
 import { LogLevel } from '#lllms/lib/logger.js'
-import { ModelServer, ModelServerOptions, startModelServer } from '#lllms/server.js'
+import { lifecycleEventNames } from '#lllms/lib/lifecycleEvents.js'
+import { extractTraceContext } from '#lllms/lib/tracing.js'
+import { ModelServerMetrics, metricsContentType } from '#lllms/lib/metrics.js'
+import {
+	ModelServer,
+	ModelServerOptions,
+	StopOptions,
+	startModelServer,
+} from '#lllms/server.js'
+
+// wraps each request in a server span, continuing the trace of incoming traceparent headers
+function createTracingMiddleware(tracer: Tracer): express.RequestHandler {
+	return (req, res, next) => {
+		const parentContext = extractTraceContext(req.headers)
+		const span = tracer.startSpan(
+			`${req.method} ${req.baseUrl}${req.path}`,
+			{
+				kind: SpanKind.SERVER,
+				attributes: {
+					'http.request.method': req.method,
+					'url.path': req.baseUrl + req.path,
+				},
+			},
+			parentContext,
+		)
+		res.once('close', () => {
+			span.setAttribute('http.response.status_code', res.statusCode)
+			if (res.statusCode >= 500) {
+				span.setStatus({ code: SpanStatusCode.ERROR })
+			}
+			span.end()
+		})
+		context.with(trace.setSpan(parentContext, span), next)
+	}
+}
 
 export function createOpenAIMiddleware(modelServer: ModelServer) {
 	const router = express.Router()
+	router.use(createTracingMiddleware(modelServer.tracer))
 	const requestHandlers = createOpenAIRequestHandlers(modelServer)
 	router.get('/v1/models', requestHandlers.models)
 	router.post('/v1/completions', requestHandlers.completions)
 	router.post('/v1/chat/completions', requestHandlers.chatCompletions)
 	router.post('/v1/embeddings', requestHandlers.embeddings)
+	router.post('/v1/audio/transcriptions', requestHandlers.transcriptions)
+	router.post('/v1/audio/translations', requestHandlers.translations)
 	return router
 }
 
-export function createExpressMiddleware(modelServer: ModelServer) {
+// streams the servers lifecycle events as server-sent events
+function createEventStreamHandler(modelServer: ModelServer) {
+	return (req: express.Request, res: express.Response) => {
+		res.writeHead(200, {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive',
+		})
+		res.flushHeaders()
+		const listeners = lifecycleEventNames.map((eventName) => {
+			const listener = (event: unknown) => {
+				res.write(`event: ${eventName}\ndata: ${JSON.stringify(event)}\n\n`)
+			}
+			modelServer.on(eventName, listener)
+			return { eventName, listener }
+		})
+		const ssePing = setInterval(() => {
+			res.write(':ping\n\n')
+		}, 30000)
+		req.on('close', () => {
+			clearInterval(ssePing)
+			for (const { eventName, listener } of listeners) {
+				modelServer.off(eventName, listener)
+			}
+		})
+	}
+}
+
+export interface ExpressMiddlewareOptions {
+	// requires api keys for all endpoints but /health and /ready
+	auth?: AuthOptions
+	// counts requests and tokens of api keys with limits. created from auth options if unset.
+	rateLimiter?: RateLimiter
+	// served at /metrics. created if unset, pass one to be able to dispose it.
+	metrics?: ModelServerMetrics
+}
+
+export function createExpressMiddleware(
+	modelServer: ModelServer,
+	options: ExpressMiddlewareOptions = {},
+) {
 	const router = express.Router()
-	router.get('/', (req, res) => {
+	// liveness, responds as long as the process is able to handle requests
+	router.get('/health', (req, res) => {
+		res.json({ status: 'ok' })
+	})
+	// readiness of all models, or a single one given as ?model=id
+	router.get('/ready', (req, res) => {
+		const modelId = req.query.model
+		if (typeof modelId === 'string' && !modelServer.modelExists(modelId)) {
+			res.status(404).json({ error: 'Model not found' })
+			return
+		}
+		const readiness = modelServer.getReadiness(
+			typeof modelId === 'string' ? [modelId] : undefined,
+		)
+		res.status(readiness.ready ? 200 : 503).json(readiness)
+	})
+	// probes above stay public
+	if (options.auth) {
+		const rateLimiter =
+			options.rateLimiter ??
+			new RateLimiter({ file: options.auth.usageFile, log: modelServer.log })
+		router.use(
+			createAuthMiddleware(options.auth, modelServer.log, rateLimiter),
+		)
+	}
+	const allModelsAccess = requireAllModelsAccess()
+	router.get('/', allModelsAccess, (req, res) => {
 		res.json(modelServer.getStatus())
 	})
+	router.get('/events', allModelsAccess, createEventStreamHandler(modelServer))
+	const metrics = options.metrics ?? new ModelServerMetrics(modelServer)
+	router.get('/metrics', allModelsAccess, (req, res) => {
+		res.set('Content-Type', metricsContentType)
+		res.send(metrics.serialize())
+	})
+	// tasks of models the key may not use are treated as unknown
+	router.get('/tasks', (req, res) => {
+		res.json(
+			modelServer.listTasks().filter((task) => isModelAllowed(req, task.model)),
+		)
+	})
+	router.get('/tasks/:id', (req, res) => {
+		const task = modelServer.getTask(req.params.id)
+		if (!task || !isModelAllowed(req, task.model)) {
+			res.status(404).json({ error: 'Task not found' })
+			return
+		}
+		res.json(task)
+	})
+	router.delete('/tasks/:id', (req, res) => {
+		const task = modelServer.getTask(req.params.id)
+		if (
+			!task ||
+			!isModelAllowed(req, task.model) ||
+			!modelServer.cancelTask(task.id)
+		) {
+			res.status(404).json({ error: 'Task not found' })
+			return
+		}
+		res.json(task)
+	})
 	router.use('/openai', createOpenAIMiddleware(modelServer))
 	router.use('/llama', createAPIMiddleware(modelServer))
 	return router
 }
 
+export interface AdminHTTPOptions extends AdminAPIOptions {
+	// serve the admin api on its own address instead of under /admin of the main server
+	listen?: ListenOptions
+}
+
 export interface ModelHTTPServerOptions extends ModelServerOptions {
 	listen?: ListenOptions
 	logLevel?: LogLevel
+	// enables the admin api. requires a token, unless it listens on a separate address.
+	admin?: AdminHTTPOptions
+	auth?: AuthOptions
+	// allowed origins etc, see the cors package. defaults to allowing all origins.
+	// set to false to not send any cors headers.
+	cors?: CorsOptions | false
 }
 
 export class ModelHTTPServer {
 	httpServer: http.Server
+	adminServer?: http.Server
 	modelServer: ModelServer
+	rateLimiter?: RateLimiter
+	metrics: ModelServerMetrics
 	listenOptions: ListenOptions
+	adminListenOptions?: ListenOptions
 	
 	constructor(options: ModelHTTPServerOptions) {
-		const { listen, ...modelServerOpts } = options
+		const {
+			listen,
+			admin,
+			auth,
+			cors: corsOptions = {},
+			...modelServerOpts
+		} = options
 		this.modelServer = new ModelServer(modelServerOpts)
 		this.listenOptions = listen ?? { port: 3000 }
 		const app = express()
+		if (corsOptions) {
+			app.use(cors(corsOptions))
+		}
+		app.use(express.json({ limit: '50mb' }))
+		if (admin?.listen) {
+			const adminApp = express()
+			adminApp.use(express.json())
+			adminApp.use('/admin', createAdminMiddleware(this.modelServer, admin))
+			adminApp.set('json spaces', 2)
+			this.adminServer = http.createServer(adminApp)
+			this.adminListenOptions = admin.listen
+		} else if (admin) {
+			if (!admin.token) {
+				throw new Error(
+					'Admin API requires a token when served on the main address',
+				)
+			}
+			app.use('/admin', createAdminMiddleware(this.modelServer, admin))
+		}
+		// after the admin api, so it is protected by its own token only
+		if (auth) {
+			this.rateLimiter = new RateLimiter({
+				file: auth.usageFile,
+				log: this.modelServer.log,
+			})
+		}
+		this.metrics = new ModelServerMetrics(this.modelServer)
 		app.use(
-			cors(),
-			express.json({ limit: '50mb' }),
-			createExpressMiddleware(this.modelServer),
+			createExpressMiddleware(this.modelServer, {
+				auth,
+				rateLimiter: this.rateLimiter,
+				metrics: this.metrics,
+			}),
 		)
 	
 		app.set('json spaces', 2)
@@ -57,11 +260,27 @@ export class ModelHTTPServer {
 		await new Promise<void>((resolve) => {
 			this.httpServer.listen(this.listenOptions, resolve)
 		})
+		if (this.adminServer) {
+			await new Promise<void>((resolve) => {
+				this.adminServer!.listen(this.adminListenOptions, resolve)
+			})
+		}
 	}
 	
-	async close() {
-		this.httpServer.close()
-		await this.modelServer.stop()
+	// stops accepting connections and waits until running requests are finished or cancelled
+	async close(options: StopOptions = {}) {
+		const closePromise = new Promise<void>((resolve, reject) => {
+			this.httpServer.close((error) => (error ? reject(error) : resolve()))
+		})
+		this.httpServer.closeIdleConnections()
+		this.adminServer?.close()
+		this.adminServer?.closeAllConnections()
+		await this.modelServer.stop(options)
+		// whats left are keep-alive connections that became idle while draining
+		this.httpServer.closeAllConnections()
+		await closePromise
+		this.rateLimiter?.dispose()
+		this.metrics.dispose()
 	}
 }
 
@@ -1,7 +1,14 @@
 export * from './api/openai/index.js'
+export * from './api/auth.js'
 export * from './types/index.js'
 export * from './pool.js'
 export * from './instance.js'
 export * from './store.js'
 export * from './server.js'
-export * from './http.js'
\ No newline at end of file
+export * from './http.js'
+export * from './config.js'
+export * from './lib/scheduling.js'
+export * from './errors.js'
+export * from './lib/circuitBreaker.js'
+export * from './lib/metrics.js'
+export * from './lib/rateLimiter.js'
@@ -1,8 +1,11 @@
 import crypto from 'node:crypto'
 import { customAlphabet } from 'nanoid'
+import type { Attributes, Tracer } from '@opentelemetry/api'
 import {
 	TextCompletionRequest,
 	ChatCompletionRequest,
+	EngineChatCompletionResult,
+	EngineTextCompletionResult,
 	ModelEngine,
 	ModelConfig,
 	ModelInstanceRequest,
@@ -12,6 +15,10 @@ import {
 	ProcessingOptions,
 	SpeechToTextRequest,
 	SpeechToTextProcessingOptions,
+	ResourceEstimate,
+	ModelInstanceTask,
+	ModelInstanceTaskHandle,
+	TaskCompletedEvent,
 } from '#lllms/types/index.js'
 import { calculateChatIdentity } from '#lllms/lib/calculateChatIdentity.js'
 import {
@@ -21,6 +28,10 @@ import {
 	withLogMeta,
 } from '#lllms/lib/logger.js'
 import { elapsedMillis, mergeAbortSignals } from '#lllms/lib/util.js'
+import { requiresGpu } from '#lllms/lib/gpuDevices.js'
+import { noopTracer, withSpan } from '#lllms/lib/tracing.js'
+import { UnsupportedTaskError } from '#lllms/errors.js'
+import { selectBestChoices } from '#lllms/lib/selectBestChoices.js'
 
 const idAlphabet =
 	'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
@@ -31,6 +42,9 @@ type ModelInstanceStatus = 'idle' | 'busy' | 'error' | 'loading' | 'preparing'
 interface ModelInstanceOptions extends ModelConfig {
 	log?: Logger
 	gpu: boolean
+	gpuDevice?: string
+	tracer?: Tracer
+	onTaskCompleted?: (event: TaskCompletedEvent) => void
 }
 
 export class ModelInstance<TEngineState = unknown> {
@@ -42,8 +56,12 @@ export class ModelInstance<TEngineState = unknown> {
 	createdAt: Date
 	lastUsed: number = 0
 	gpu: boolean
+	// name of the gpu device the instance is placed on
+	gpuDevice?: string
 	ttl: number
 	log: Logger
+	// estimated memory use, set by the pool before loading
+	resources?: ResourceEstimate
 
 	private engine: ModelEngine
 	private contextStateIdentity?: string
@@ -51,16 +69,32 @@ export class ModelInstance<TEngineState = unknown> {
 	private engineInstance?: TEngineState | unknown
 	private currentRequest?: ModelInstanceRequest | null
 	private shutdownController: AbortController
+	private disposePromise?: Promise<void>
+	private onTaskCompleted?: (event: TaskCompletedEvent) => void
+	private tracer: Tracer
+	// tasks that are currently running on this instance
+	tasks: Map<string, ModelInstanceTask> = new Map()
+	private taskResults: Map<string, Promise<unknown>> = new Map()
 
 	constructor(
 		engine: ModelEngine,
-		{ log, gpu, ...options }: ModelInstanceOptions,
+		{
+			log,
+			gpu,
+			gpuDevice,
+			tracer,
+			onTaskCompleted,
+			...options
+		}: ModelInstanceOptions,
 	) {
 		this.modelId = options.id
 		this.id = this.generateInstanceId()
 		this.engine = engine
 		this.config = options
 		this.gpu = gpu
+		this.gpuDevice = gpuDevice
+		this.onTaskCompleted = onTaskCompleted
+		this.tracer = tracer ?? noopTracer
 		this.ttl = options.ttl ?? 300
 		this.status = 'preparing'
 		this.createdAt = new Date()
@@ -78,7 +112,7 @@ export class ModelInstance<TEngineState = unknown> {
 			model: this.modelId,
 			engine: this.config.engine,
 			device: this.config.device,
-			hasGpuLock: this.gpu,
+			gpuDevice: this.gpuDevice,
 		})
 	}
 
@@ -101,20 +135,34 @@ export class ModelInstance<TEngineState = unknown> {
 			signal,
 		])
 		try {
-			this.engineInstance = await this.engine.createInstance(
+			this.engineInstance = await withSpan(
+				this.tracer,
+				'lllms.loadInstance',
 				{
-					log: withLogMeta(this.log, {
-						instance: this.id,
-					}),
-					config: {
-						...this.config,
-						device: {
-							...this.config.device,
-							gpu: this.gpu,
-						},
+					attributes: {
+						'lllms.model': this.modelId,
+						'lllms.instance': this.id,
+						'lllms.engine': this.config.engine,
+						'lllms.gpu_device': this.gpuDevice,
 					},
 				},
-				abortSignal,
+				() =>
+					this.engine.createInstance(
+						{
+							log: withLogMeta(this.log, {
+								instance: this.id,
+							}),
+							config: {
+								...this.config,
+								device: {
+									...this.config.device,
+									gpu: this.gpu,
+									gpuDevice: this.gpuDevice,
+								},
+							},
+						},
+						abortSignal,
+					),
 			)
 			this.status = 'idle'
 			if (this.config.preload) {
@@ -141,8 +189,12 @@ export class ModelInstance<TEngineState = unknown> {
 		if (!this.engineInstance) {
 			return Promise.resolve()
 		}
-		this.shutdownController.abort()
-		return this.engine.disposeInstance(this.engineInstance)
+		// instances may get disposed from multiple places, ie when a model gets removed while its ttl expires
+		if (!this.disposePromise) {
+			this.shutdownController.abort()
+			this.disposePromise = this.engine.disposeInstance(this.engineInstance)
+		}
+		return this.disposePromise
 	}
 
 	lock(request: ModelInstanceRequest) {
@@ -162,6 +214,11 @@ export class ModelInstance<TEngineState = unknown> {
 		this.needsContextReset = true
 	}
 
+	// resolves once all running tasks settled, ie after they have been cancelled
+	async waitForTasks() {
+		await Promise.allSettled(this.taskResults.values())
+	}
+
 	getContextStateIdentity() {
 		return this.contextStateIdentity
 	}
@@ -182,12 +239,104 @@ export class ModelInstance<TEngineState = unknown> {
 	}
 
 	matchesRequirements(request: ModelInstanceRequest) {
-		const mustGpu = this.config.device?.gpu === true
+		const mustGpu = requiresGpu(this.config.device?.gpu)
 		const modelMatches = this.modelId === request.model
 		const gpuMatches = mustGpu ? this.gpu : true
 		return modelMatches && gpuMatches
 	}
 
+	private createTaskLogger(taskId: string) {
+		const { sequence, tenant } = this.currentRequest!
+		return withLogMeta(this.log, {
+			sequence,
+			task: taskId,
+			...(tenant && { tenant }),
+		})
+	}
+
+	// keeps track of the task until its result settles, so it can be listed and cancelled by id.
+	// once settled its duration and token usage are reported to the pool.
+	private registerTask<T extends ModelInstanceTaskHandle>(
+		type: ModelInstanceTask['type'],
+		task: T,
+	): T {
+		const sequence = this.currentRequest?.sequence
+		const tenant = this.currentRequest?.tenant
+		this.tasks.set(task.id, {
+			id: task.id,
+			type,
+			model: this.modelId,
+			instance: this.id,
+			sequence,
+			createdAt: task.createdAt,
+			cancel: task.cancel,
+		})
+		this.taskResults.set(task.id, task.result)
+		const complete = (result?: unknown, error?: string) => {
+			this.tasks.delete(task.id)
+			this.taskResults.delete(task.id)
+			const usage = result as
+				| { promptTokens?: number; completionTokens?: number }
+				| undefined
+			this.onTaskCompleted?.({
+				timestamp: Date.now(),
+				model: this.modelId,
+				instance: this.id,
+				task: task.id,
+				type,
+				sequence,
+				tenant,
+				duration: Date.now() - task.createdAt.getTime(),
+				error,
+				promptTokens: usage?.promptTokens,
+				completionTokens: usage?.completionTokens,
+			})
+		}
+		task.result.then(
+			(result) => complete(result),
+			(error) =>
+				complete(
+					undefined,
+					error instanceof Error ? error.message : String(error),
+				),
+		)
+		return task
+	}
+
+	// runs the engine call of a task within an active span,
+	// so spans created by the engine or pool requests of custom engines are nested.
+	private traceTask<T>(
+		name: string,
+		taskId: string,
+		attributes: Attributes,
+		run: () => Promise<T>,
+	) {
+		return withSpan(
+			this.tracer,
+			name,
+			{
+				attributes: {
+					...attributes,
+					'lllms.model': this.modelId,
+					'lllms.instance': this.id,
+					'lllms.sequence': this.currentRequest?.sequence,
+					'lllms.task': taskId,
+				},
+			},
+			async (span) => {
+				const result = await run()
+				const usage = result as
+					| { promptTokens?: number; completionTokens?: number }
+					| undefined
+				span.setAttributes({
+					'lllms.prompt_tokens': usage?.promptTokens,
+					'lllms.completion_tokens': usage?.completionTokens,
+				})
+				return result
+			},
+		)
+	}
+
 	private createTaskController(args: {
 		timeout?: number
 		signal?: AbortSignal
@@ -195,6 +344,10 @@ export class ModelInstance<TEngineState = unknown> {
 		const cancelController = new AbortController()
 		const timeoutController = new AbortController()
 		const abortSignals = [cancelController.signal, this.shutdownController.signal]
+		// allows the pool to cancel running tasks of the request
+		if (this.currentRequest) {
+			abortSignals.push(this.currentRequest.abortController.signal)
+		}
 		if (args.signal) {
 			abortSignals.push(args.signal)
 		}
@@ -219,24 +372,73 @@ export class ModelInstance<TEngineState = unknown> {
 		}
 	}
 
+	// rejects what the engine cant do, before any tokens are generated
+	private validateCompletionRequest(
+		request: ChatCompletionRequest | TextCompletionRequest,
+	) {
+		const choiceCount = Math.max(request.bestOf ?? 1, request.n ?? 1)
+		if (choiceCount > 1 && !this.engine.supportsChoices) {
+			throw new UnsupportedTaskError(
+				`Engine "${this.config.engine}" does not support generating multiple choices`,
+			)
+		}
+		if (request.logprobs && !this.engine.supportsLogprobs) {
+			throw new UnsupportedTaskError(
+				`Engine "${this.config.engine}" does not support logprobs`,
+			)
+		}
+		if (choiceCount > (request.n ?? 1) && !this.engine.supportsLogprobs) {
+			throw new UnsupportedTaskError(
+				`Engine "${this.config.engine}" does not support best_of, which requires logprobs`,
+			)
+		}
+	}
+
+	// engines generate n choices, best_of is handled here by generating more and selecting
+	private getEngineCompletionRequest<
+		TRequest extends ChatCompletionRequest | TextCompletionRequest,
+	>(request: TRequest): TRequest {
+		const choiceCount = Math.max(request.bestOf ?? 1, request.n ?? 1)
+		if (choiceCount === 1) {
+			return request
+		}
+		return { ...request, n: choiceCount }
+	}
+
+	private selectCompletionChoices<
+		TResult extends EngineChatCompletionResult | EngineTextCompletionResult,
+	>(request: ChatCompletionRequest | TextCompletionRequest, result: TResult) {
+		const choiceCount = Math.max(request.bestOf ?? 1, request.n ?? 1)
+		if (choiceCount === 1 || !result.choices) {
+			return result
+		}
+		const n = request.n ?? 1
+		if (choiceCount > n) {
+			const choices = selectBestChoices<{ logprob?: number }>(result.choices, n)
+			Object.assign(result, choices[0], { choices })
+		}
+		if (n === 1) {
+			delete result.choices
+		}
+		return result
+	}
+
 	processChatCompletionTask(
 		request: ChatCompletionRequest,
 		options?: CompletionProcessingOptions,
 	) {
 		if (!('processChatCompletionTask' in this.engine)) {
-			throw new Error(
+			throw new UnsupportedTaskError(
 				`Engine "${this.config.engine}" does not implement chat completions`,
 			)
 		}
 		if (!request.messages?.length) {
 			throw new Error('Messages are required for chat completions')
 		}
+		this.validateCompletionRequest(request)
 		const id = this.generateTaskId()
 		this.lastUsed = Date.now()
-		const taskLogger = withLogMeta(this.log, {
-			sequence: this.currentRequest!.sequence,
-			task: id,
-		})
+		const taskLogger = this.createTaskLogger(id)
 		// checking if this instance has been flagged for reset
 		let resetContext = false
 		if (this.needsContextReset) {
@@ -251,16 +453,22 @@ export class ModelInstance<TEngineState = unknown> {
 		// start completion processing
 		taskLogger(LogLevels.verbose, 'Creating chat completion')
 		const taskBegin = process.hrtime.bigint()
-		const completionPromise = this.engine.processChatCompletionTask!(
-			{
-				request,
-				resetContext,
-				config: this.config,
-				log: taskLogger,
-				onChunk: options?.onChunk,
-			},
-			this.engineInstance,
-			controller.signal,
+		const completionPromise = this.traceTask(
+			'lllms.processChatCompletionTask',
+			id,
+			{ 'lllms.reset_context': resetContext },
+			() =>
+				this.engine.processChatCompletionTask!(
+					{
+						request: this.getEngineCompletionRequest(request),
+						resetContext,
+						config: this.config,
+						log: taskLogger,
+						onChunk: options?.onChunk,
+					},
+					this.engineInstance,
+					controller.signal,
+				),
 		).then((result) => {
 			const elapsedTime = elapsedMillis(taskBegin)
 			controller.complete()
@@ -268,6 +476,7 @@ export class ModelInstance<TEngineState = unknown> {
 				taskLogger(LogLevels.warn, 'Chat completion task timed out')
 				result.finishReason = 'timeout'
 			}
+			// the engine keeps the state of its top level choice, which best_of may not select
 			this.contextStateIdentity = calculateChatIdentity([
 				...request.messages,
 				result.message,
@@ -275,20 +484,20 @@ export class ModelInstance<TEngineState = unknown> {
 			taskLogger(LogLevels.info, 'Chat completion done', {
 				elapsed: elapsedTime,
 			})
-			return result
+			return this.selectCompletionChoices(request, result)
 		}).catch((error) => {
 			taskLogger(LogLevels.error, 'Task failed - ', {
 				error,
 			})
 			throw error
 		})
-		return {
+		return this.registerTask('chat-completion', {
 			id,
 			model: this.modelId,
 			createdAt: new Date(),
 			result: completionPromise,
 			cancel: controller.cancel,
-		}
+		})
 	}
 
 	processTextCompletionTask(
@@ -296,34 +505,38 @@ export class ModelInstance<TEngineState = unknown> {
 		options?: CompletionProcessingOptions,
 	) {
 		if (!('processTextCompletionTask' in this.engine)) {
-			throw new Error(
+			throw new UnsupportedTaskError(
 				`Engine "${this.config.engine}" does not implement text completion`,
 			)
 		}
 		if (!request.prompt) {
 			throw new Error('Prompt is required for text completion')
 		}
+		this.validateCompletionRequest(request)
 		this.lastUsed = Date.now()
 		const id = this.generateTaskId()
-		const taskLogger = withLogMeta(this.log, {
-			sequence: this.currentRequest!.sequence,
-			task: id,
-		})
+		const taskLogger = this.createTaskLogger(id)
 		const controller = this.createTaskController({
 			timeout: options?.timeout,
 			signal: options?.signal,
 		})
 		taskLogger(LogLevels.verbose, 'Creating text completion task')
 		const taskBegin = process.hrtime.bigint()
-		const completionPromise = this.engine.processTextCompletionTask!(
-			{
-				request,
-				config: this.config,
-				log: taskLogger,
-				onChunk: options?.onChunk,
-			},
-			this.engineInstance,
-			controller.signal,
+		const completionPromise = this.traceTask(
+			'lllms.processTextCompletionTask',
+			id,
+			{},
+			() =>
+				this.engine.processTextCompletionTask!(
+					{
+						request: this.getEngineCompletionRequest(request),
+						config: this.config,
+						log: taskLogger,
+						onChunk: options?.onChunk,
+					},
+					this.engineInstance,
+					controller.signal,
+				),
 		).then((result) => {
 			// TODO allow continueing / caching prefix for text completions?
 			// this.contextStateHash = calculateChatIdentity({
@@ -338,25 +551,25 @@ export class ModelInstance<TEngineState = unknown> {
 			taskLogger(LogLevels.verbose, 'Text completion task done', {
 				elapsed: elapsedTime,
 			})
-			return result
+			return this.selectCompletionChoices(request, result)
 		}).catch((error) => {
 			taskLogger(LogLevels.error, 'Task failed - ', {
 				error,
 			})
 			throw error
 		})
-		return {
+		return this.registerTask('text-completion', {
 			id,
 			model: this.modelId,
 			createdAt: new Date(),
 			cancel: controller.cancel,
 			result: completionPromise,
-		}
+		})
 	}
 
 	processEmbeddingTask(request: EmbeddingRequest, options?: ProcessingOptions) {
 		if (!('processEmbeddingTask' in this.engine)) {
-			throw new Error(
+			throw new UnsupportedTaskError(
 				`Engine "${this.config.engine}" does not implement embedding`,
 			)
 		}
@@ -365,24 +578,27 @@ export class ModelInstance<TEngineState = unknown> {
 		}
 		this.lastUsed = Date.now()
 		const id = this.generateTaskId()
-		const taskLogger = withLogMeta(this.log, {
-			sequence: this.currentRequest!.sequence,
-			task: id,
-		})
+		const taskLogger = this.createTaskLogger(id)
 		const controller = this.createTaskController({
 			timeout: options?.timeout,
 			signal: options?.signal,
 		})
 		taskLogger(LogLevels.verbose, 'Creating embedding task')
 		const taskBegin = process.hrtime.bigint()
-		const result = this.engine.processEmbeddingTask!(
-			{
-				request,
-				config: this.config,
-				log: taskLogger,
-			},
-			this.engineInstance,
-			controller.signal,
+		const result = this.traceTask(
+			'lllms.processEmbeddingTask',
+			id,
+			{},
+			() =>
+				this.engine.processEmbeddingTask!(
+					{
+						request,
+						config: this.config,
+						log: taskLogger,
+					},
+					this.engineInstance,
+					controller.signal,
+				),
 		).then((result) => {
 			const timeElapsed = elapsedMillis(taskBegin)
 			controller.complete()
@@ -400,13 +616,13 @@ export class ModelInstance<TEngineState = unknown> {
 			throw error
 		})
 
-		return {
+		return this.registerTask('embedding', {
 			id,
 			model: this.modelId,
 			createdAt: new Date(),
 			cancel: controller.cancel,
 			result,
-		}
+		})
 	}
 
 	processImageToTextTask(
@@ -414,29 +630,32 @@ export class ModelInstance<TEngineState = unknown> {
 		options?: ProcessingOptions,
 	) {
 		if (!('processImageToTextTask' in this.engine)) {
-			throw new Error(
+			throw new UnsupportedTaskError(
 				`Engine "${this.config.engine}" does not implement image to text`,
 			)
 		}
 		this.lastUsed = Date.now()
 		const id = this.generateTaskId()
-		const taskLogger = withLogMeta(this.log, {
-			sequence: this.currentRequest!.sequence,
-			task: id,
-		})
+		const taskLogger = this.createTaskLogger(id)
 		const controller = this.createTaskController({
 			timeout: options?.timeout,
 			signal: options?.signal,
 		})
 		const taskBegin = process.hrtime.bigint()
-		const result = this.engine.processImageToTextTask!(
-			{
-				request,
-				config: this.config,
-				log: taskLogger,
-			},
-			this.engineInstance,
-			controller.signal,
+		const result = this.traceTask(
+			'lllms.processImageToTextTask',
+			id,
+			{},
+			() =>
+				this.engine.processImageToTextTask!(
+					{
+						request,
+						config: this.config,
+						log: taskLogger,
+					},
+					this.engineInstance,
+					controller.signal,
+				),
 		).then((result) => {
 			const timeElapsed = elapsedMillis(taskBegin)
 			controller.complete()
@@ -454,13 +673,13 @@ export class ModelInstance<TEngineState = unknown> {
 			throw error
 		})
 
-		return {
+		return this.registerTask('image-to-text', {
 			id,
 			model: this.modelId,
 			createdAt: new Date(),
 			cancel: controller.cancel,
 			result,
-		}
+		})
 	}
 	
 	processSpeechToTextTask(
@@ -468,29 +687,33 @@ export class ModelInstance<TEngineState = unknown> {
 		options?: SpeechToTextProcessingOptions,
 	) {
 		if (!('processSpeechToTextTask' in this.engine)) {
-			throw new Error(
+			throw new UnsupportedTaskError(
 				`Engine "${this.config.engine}" does not implement speech to text`,
 			)
 		}
 		this.lastUsed = Date.now()
 		const id = this.generateTaskId()
-		const taskLogger = withLogMeta(this.log, {
-			sequence: this.currentRequest!.sequence,
-			task: id,
-		})
+		const taskLogger = this.createTaskLogger(id)
 		const controller = this.createTaskController({
 			timeout: options?.timeout,
 			signal: options?.signal,
 		})
 		const taskBegin = process.hrtime.bigint()
-		const result = this.engine.processSpeechToTextTask!(
-			{
-				request,
-				config: this.config,
-				log: taskLogger,
-			},
-			this.engineInstance,
-			controller.signal,
+		const result = this.traceTask(
+			'lllms.processSpeechToTextTask',
+			id,
+			{},
+			() =>
+				this.engine.processSpeechToTextTask!(
+					{
+						request,
+						config: this.config,
+						log: taskLogger,
+						onChunk: options?.onChunk,
+					},
+					this.engineInstance,
+					controller.signal,
+				),
 		).then((result) => {
 			const timeElapsed = elapsedMillis(taskBegin)
 			controller.complete()
@@ -508,12 +731,12 @@ export class ModelInstance<TEngineState = unknown> {
 			throw error
 		})
 
-		return {
+		return this.registerTask('speech-to-text', {
 			id,
 			model: this.modelId,
 			createdAt: new Date(),
 			cancel: controller.cancel,
 			result,
-		}
+		})
 	}
 }
@@ -11,7 +11,10 @@ function clearFileLocks() {
 
 process.on('SIGINT', () => {
 	clearFileLocks()
-	process.exit(0)
+	// exit like node does by default, unless another listener handles it, like the cli does
+	if (process.listenerCount('SIGINT') === 1) {
+		process.exit(0)
+	}
 })
 
 process.on('SIGTERM', () => {
@@ -0,0 +1,79 @@
+export interface CircuitBreakerOptions {
+	// consecutive failures after which the circuit opens
+	failureThreshold?: number
+	// time in ms after which an open circuit allows another attempt
+	resetTimeout?: number
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+// tracks consecutive failures of a model. while open, no instances should be spawned.
+// once the reset timeout passed a single probe attempt decides whether it closes or opens again.
+export class CircuitBreaker {
+	failures: number = 0
+	lastError?: { message: string; time: Date }
+	private openedAt?: number
+	private probing: boolean = false
+	private failureThreshold: number
+	private resetTimeout: number
+
+	constructor(options: CircuitBreakerOptions = {}) {
+		this.failureThreshold = options.failureThreshold ?? 3
+		this.resetTimeout = options.resetTimeout ?? 60000
+	}
+
+	getState(): CircuitState {
+		if (this.openedAt === undefined) {
+			return 'closed'
+		}
+		if (Date.now() - this.openedAt < this.resetTimeout) {
+			return 'open'
+		}
+		return 'half-open'
+	}
+
+	// also open for everyone but the probe while half-open
+	isOpen() {
+		const state = this.getState()
+		return state === 'open' || (state === 'half-open' && this.probing)
+	}
+
+	// claims the probe if half-open. it ends when its outcome is recorded or its cancelled.
+	beginAttempt() {
+		if (this.getState() === 'half-open') {
+			this.probing = true
+		}
+	}
+
+	cancelAttempt() {
+		this.probing = false
+	}
+
+	// seconds until the circuit allows another attempt
+	getRetryAfter() {
+		if (this.openedAt === undefined) {
+			return 0
+		}
+		const remaining = this.openedAt + this.resetTimeout - Date.now()
+		return Math.max(1, Math.ceil(remaining / 1000))
+	}
+
+	// returns true if the failure opened the circuit
+	recordFailure(error: Error) {
+		this.probing = false
+		this.failures++
+		this.lastError = { message: error.message, time: new Date() }
+		if (this.failures >= this.failureThreshold) {
+			const wasOpen = this.isOpen()
+			this.openedAt = Date.now()
+			return !wasOpen
+		}
+		return false
+	}
+
+	recordSuccess() {
+		this.probing = false
+		this.failures = 0
+		this.openedAt = undefined
+	}
+}
@@ -0,0 +1,450 @@
+import { LogLevels } from '#lllms/lib/logger.js'
+import { modelIdPattern } from '#lllms/lib/validation.js'
+import {
+	BuiltInEngineName,
+	BuiltInEngines,
+	builtInEngineTasks,
+} from '#lllms/engines/index.js'
+import type { BuiltInModelOptions, ModelTaskType } from '#lllms/types/index.js'
+
+// JSON schema for config files. The model options are checked against the BuiltInModelOptions union,
+// so an option that is added to the types but not here, or the other way around, fails the type check.
+// Custom engine models are only validated in JS configs, where they can be configured.
+
+type BuiltInModelOptionsVariant<
+	TEngine extends BuiltInEngineName,
+	TTask extends ModelTaskType,
+> = Extract<BuiltInModelOptions, { engine: TEngine; task: TTask }>
+
+// one schema per option, without any that dont exist
+type ModelOptionsProperties<TOptions, TProperties> = {
+	[K in keyof Required<TOptions>]: object
+} & Record<Exclude<keyof TProperties, keyof TOptions>, never>
+
+const textCompletionParamsSchema = {
+	type: 'object',
+	additionalProperties: false,
+	properties: {
+		temperature: { type: 'number' },
+		maxTokens: { type: 'integer', minimum: 1 },
+		seed: { type: 'integer' },
+		stop: { type: 'array', items: { type: 'string' } },
+		repeatPenalty: { type: 'number' },
+		repeatPenaltyNum: { type: 'integer' },
+		frequencyPenalty: { type: 'number' },
+		presencePenalty: { type: 'number' },
+		grammar: { type: 'string' },
+		topP: { type: 'number' },
+		minP: { type: 'number' },
+		topK: { type: 'integer' },
+		tokenBias: { type: 'object', additionalProperties: { type: 'number' } },
+	},
+}
+
+const chatMessageSchema = {
+	type: 'object',
+	required: ['role', 'content'],
+	properties: {
+		role: { enum: ['user', 'system', 'assistant', 'tool'] },
+		content: { type: ['string', 'array'] },
+		callId: { type: 'string' },
+	},
+}
+
+const preloadSchema = {
+	type: 'object',
+	additionalProperties: false,
+	properties: {
+		messages: { type: 'array', items: chatMessageSchema },
+		toolDocumentation: { type: 'boolean' },
+		prefix: { type: 'string' },
+	},
+}
+
+const toolDefinitionSchema = {
+	type: 'object',
+	additionalProperties: false,
+	properties: {
+		description: { type: 'string' },
+		parameters: { type: 'object' },
+	},
+}
+
+// true, "auto", a device index or a device name
+const gpuOptionSchema = {
+	type: ['boolean', 'string', 'integer'],
+}
+
+const modelOptionsBaseProperties = {
+	engine: { type: 'string' },
+	task: { type: 'string' },
+	prepare: { enum: ['blocking', 'async', 'on-demand'] },
+	minInstances: { type: 'integer', minimum: 0 },
+	maxInstances: { type: 'integer', minimum: 1 },
+	maxPendingRequests: { type: 'integer', minimum: 0 },
+	queueTimeout: { type: 'integer', minimum: 0 },
+	leaseTimeout: { type: 'integer', minimum: 0 },
+	ttl: { type: 'number', minimum: 0 },
+	url: { type: 'string' },
+	location: { type: 'string' },
+}
+
+const textCompletionProperties = {
+	contextSize: { type: 'integer', minimum: 1 },
+	grammars: {
+		type: 'object',
+		additionalProperties: { type: ['string', 'object'] },
+	},
+	tools: { type: 'object', additionalProperties: toolDefinitionSchema },
+	completionDefaults: textCompletionParamsSchema,
+	preload: preloadSchema,
+	batchSize: { type: 'integer', minimum: 1 },
+}
+
+const llamaCppProperties = {
+	...modelOptionsBaseProperties,
+	sha256: { type: 'string' },
+	file: { type: 'string' },
+	batchSize: { type: 'integer', minimum: 1 },
+	device: {
+		type: 'object',
+		additionalProperties: false,
+		properties: {
+			gpu: gpuOptionSchema,
+			gpuLayers: { type: 'integer', minimum: 0 },
+			cpuThreads: { type: 'integer', minimum: 1 },
+			memLock: { type: 'boolean' },
+		},
+	},
+}
+
+const gpt4allProperties = {
+	...modelOptionsBaseProperties,
+	file: { type: 'string' },
+	md5: { type: 'string' },
+	device: {
+		type: 'object',
+		additionalProperties: false,
+		properties: {
+			gpu: gpuOptionSchema,
+			gpuLayers: { type: 'integer', minimum: 0 },
+			cpuThreads: { type: 'integer', minimum: 1 },
+		},
+	},
+}
+
+const transformersJsProperties = {
+	...modelOptionsBaseProperties,
+	// in config files the model class is referenced by its export name, ie "WhisperForConditionalGeneration"
+	modelClass: { type: 'string' },
+	dtype: {
+		type: ['string', 'object'],
+		additionalProperties: { type: 'string' },
+	},
+	device: {
+		type: 'object',
+		additionalProperties: false,
+		properties: {
+			gpu: gpuOptionSchema,
+		},
+	},
+}
+
+// the options of given engine and task combination
+function modelVariant<
+	TEngine extends BuiltInEngineName,
+	TTask extends ModelTaskType,
+	TProperties extends object,
+>(
+	engine: TEngine,
+	tasks: TTask[],
+	properties: TProperties &
+		ModelOptionsProperties<
+			BuiltInModelOptionsVariant<TEngine, TTask>,
+			TProperties
+		>,
+) {
+	return { engine, tasks, properties }
+}
+
+const modelVariants = [
+	modelVariant(BuiltInEngines.nodeLlamaCpp, ['text-completion'], {
+		...llamaCppProperties,
+		...textCompletionProperties,
+	}),
+	modelVariant(BuiltInEngines.nodeLlamaCpp, ['embedding'], llamaCppProperties),
+	modelVariant(BuiltInEngines.gpt4all, ['text-completion'], {
+		...gpt4allProperties,
+		...textCompletionProperties,
+	}),
+	modelVariant(BuiltInEngines.gpt4all, ['embedding'], gpt4allProperties),
+	modelVariant(
+		BuiltInEngines.transformersJs,
+		['image-to-text', 'speech-to-text'],
+		transformersJsProperties,
+	),
+]
+
+const modelOptionsSchema = {
+	type: 'object',
+	required: ['engine', 'task'],
+	properties: {
+		engine: { enum: Object.values(BuiltInEngines) },
+		task: { type: 'string' },
+	},
+	allOf: [
+		// reject task and engine mismatches
+		...Object.entries(builtInEngineTasks).map(([engine, tasks]) => ({
+			if: {
+				required: ['engine'],
+				properties: { engine: { const: engine } },
+			},
+			then: {
+				properties: { task: { enum: tasks } },
+			},
+		})),
+		...modelVariants.map(({ engine, tasks, properties }) => ({
+			if: {
+				required: ['engine', 'task'],
+				properties: {
+					engine: { const: engine },
+					task: { enum: tasks },
+				},
+			},
+			then: {
+				additionalProperties: false,
+				properties,
+			},
+		})),
+		// on mismatches no variant applies, so unknown keys are checked against all options of the engine
+		...Object.values(BuiltInEngines).map((engine) => {
+			const engineVariants = modelVariants.filter(
+				(variant) => variant.engine === engine,
+			)
+			return {
+				if: {
+					required: ['engine', 'task'],
+					properties: {
+						engine: { const: engine },
+						task: {
+							not: {
+								enum: engineVariants.flatMap((variant) => variant.tasks),
+							},
+						},
+					},
+				},
+				then: {
+					additionalProperties: false,
+					properties: Object.assign(
+						{},
+						...engineVariants.map((variant) => variant.properties),
+					),
+				},
+			}
+		}),
+	],
+	anyOf: [
+		{ required: ['url'] },
+		{ required: ['file'] },
+		{ required: ['location'] },
+	],
+}
+
+const listenSchema = {
+	type: 'object',
+	additionalProperties: false,
+	properties: {
+		port: { type: 'integer', minimum: 0 },
+		host: { type: 'string' },
+		path: { type: 'string' },
+		backlog: { type: 'integer' },
+		exclusive: { type: 'boolean' },
+		ipv6Only: { type: 'boolean' },
+	},
+}
+
+const rateLimitsSchema = {
+	type: 'object',
+	additionalProperties: false,
+	properties: {
+		requestsPerMinute: { type: 'integer', minimum: 0 },
+		tokensPerDay: { type: 'integer', minimum: 0 },
+	},
+}
+
+export const configSchema = {
+	type: 'object',
+	required: ['models'],
+	additionalProperties: false,
+	properties: {
+		$schema: { type: 'string' },
+		listen: listenSchema,
+		auth: {
+			type: 'object',
+			additionalProperties: false,
+			properties: {
+				keys: {
+					type: 'array',
+					items: {
+						type: 'object',
+						additionalProperties: false,
+						required: ['key'],
+						properties: {
+							key: { type: 'string', minLength: 1 },
+							label: { type: 'string' },
+							models: { type: 'array', items: { type: 'string' } },
+							limits: rateLimitsSchema,
+							modelLimits: {
+								type: 'object',
+								additionalProperties: rateLimitsSchema,
+							},
+						},
+					},
+				},
+				keysFile: { type: 'string' },
+				usageFile: { type: 'string' },
+			},
+		},
+		cors: {
+			anyOf: [
+				{ const: false },
+				{
+					type: 'object',
+					additionalProperties: false,
+					properties: {
+						origin: {
+							anyOf: [
+								{ type: 'boolean' },
+								{ type: 'string' },
+								{ type: 'array', items: { type: 'string' } },
+							],
+						},
+						methods: { type: 'array', items: { type: 'string' } },
+						allowedHeaders: { type: 'array', items: { type: 'string' } },
+						exposedHeaders: { type: 'array', items: { type: 'string' } },
+						credentials: { type: 'boolean' },
+						maxAge: { type: 'integer', minimum: 0 },
+					},
+				},
+			],
+		},
+		admin: {
+			type: 'object',
+			additionalProperties: false,
+			properties: {
+				token: { type: 'string', minLength: 1 },
+				listen: listenSchema,
+			},
+		},
+		log: {
+			anyOf: [
+				{ enum: Object.values(LogLevels) },
+				{
+					type: 'object',
+					additionalProperties: false,
+					properties: {
+						level: { enum: Object.values(LogLevels) },
+						format: { enum: ['pretty', 'json'] },
+						transports: {
+							type: 'array',
+							items: {
+								anyOf: [
+									{
+										type: 'object',
+										additionalProperties: false,
+										required: ['type'],
+										properties: { type: { const: 'console' } },
+									},
+									{
+										type: 'object',
+										additionalProperties: false,
+										required: ['type', 'path'],
+										properties: {
+											type: { const: 'file' },
+											path: { type: 'string' },
+											maxSize: { type: 'integer', minimum: 1 },
+											maxFiles: { type: 'integer', minimum: 0 },
+										},
+									},
+								],
+							},
+						},
+					},
+				},
+			],
+		},
+		logLevel: { enum: Object.values(LogLevels) },
+		concurrency: { type: 'integer', minimum: 1 },
+		maxPendingRequests: { type: 'integer', minimum: 0 },
+		queueTimeout: { type: 'integer', minimum: 0 },
+		leaseTimeout: { type: 'integer', minimum: 0 },
+		retry: {
+			type: 'object',
+			additionalProperties: false,
+			properties: {
+				maxAttempts: { type: 'integer', minimum: 1 },
+				initialDelay: { type: 'integer', minimum: 0 },
+				maxDelay: { type: 'integer', minimum: 0 },
+			},
+		},
+		circuitBreaker: {
+			type: 'object',
+			additionalProperties: false,
+			properties: {
+				failureThreshold: { type: 'integer', minimum: 1 },
+				resetTimeout: { type: 'integer', minimum: 0 },
+			},
+		},
+		maxMemory: {
+			oneOf: [
+				{ type: 'integer', minimum: 0 },
+				{
+					type: 'object',
+					additionalProperties: false,
+					properties: {
+						total: { type: 'integer', minimum: 0 },
+						ram: { type: 'integer', minimum: 0 },
+						vram: { type: 'integer', minimum: 0 },
+					},
+				},
+			],
+		},
+		gpuDevices: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['name'],
+				additionalProperties: false,
+				properties: {
+					name: { type: 'string' },
+					slots: { type: 'integer', minimum: 1 },
+					vram: { type: 'integer', minimum: 0 },
+				},
+			},
+		},
+		scheduling: {
+			oneOf: [
+				{ enum: ['fifo', 'priority', 'weighted-fair'] },
+				{
+					type: 'object',
+					required: ['policy'],
+					additionalProperties: false,
+					properties: {
+						policy: { enum: ['fifo', 'priority', 'weighted-fair'] },
+						groupBy: { enum: ['model', 'tenant'] },
+						weights: {
+							type: 'object',
+							additionalProperties: { type: 'number', exclusiveMinimum: 0 },
+						},
+					},
+				},
+			],
+		},
+		modelsPath: { type: 'string' },
+		models: {
+			type: 'object',
+			propertyNames: { pattern: modelIdPattern.source },
+			additionalProperties: modelOptionsSchema,
+		},
+	},
+}
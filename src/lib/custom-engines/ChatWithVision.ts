@@ -1,6 +1,7 @@
 
 import { EngineChatCompletionArgs, ModelEngine } from '#lllms/types/index.js'
 import { CustomEngine } from '#lllms/engines/index.js'
+import { LogLevels } from '#lllms/lib/logger.js'
 
 // an experimental engine that replaces images with their descriptions before passing them to a chat model
 
@@ -73,7 +74,7 @@ export class ChatWithVisionEngine extends CustomEngine implements ModelEngine {
 
 		const imageTextResults = await Promise.all(imageTextPromises)
 		imageToTextModel.release()
-		console.debug('Image text results', imageTextResults)
+		args.log(LogLevels.debug, 'Image text results', { imageTextResults })
 		
 		for (const imageTextResult of imageTextResults) {
 			const { text, messageIndex, contentPartIndex } = imageTextResult
@@ -1,6 +1,13 @@
 import { promises as fs } from 'fs'
 import { ggufMetadata } from 'hyllama'
 
+// hyperparameters are stored under the architecture name, like llama.context_length
+export interface GGUFArchitectureMeta {
+	context_length?: number
+	embedding_length?: number
+	block_count?: number
+}
+
 // only typing the properties we interact with
 export interface GGUFMeta {
 	version: number
@@ -41,6 +48,11 @@ function structureGGUFMeta(metadata: Record<string, any>): GGUFMeta {
 	return structuredMeta
 }
 
+export function getGGUFArchitectureMeta(meta: GGUFMeta): GGUFArchitectureMeta {
+	const architectures = meta as unknown as Record<string, GGUFArchitectureMeta>
+	return architectures[meta.general.architecture] ?? {}
+}
+
 export async function readGGUFMetaFromFile(file: string) {
 	// Read first 10mb of gguf file
 	const fd = await fs.open(file, 'r')
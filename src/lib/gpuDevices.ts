@@ -0,0 +1,13 @@
+import { ModelConfig } from '#lllms/types/index.js'
+
+type GpuOption = NonNullable<ModelConfig['device']>['gpu']
+
+// gpu=auto or unset means the gpu is used if available
+export function isAutoGpu(gpu: GpuOption) {
+	return gpu === undefined || gpu === 'auto'
+}
+
+// gpu=true, a device index or a device name means the instance must run on gpu
+export function requiresGpu(gpu: GpuOption) {
+	return !isAutoGpu(gpu) && gpu !== false
+}
@@ -0,0 +1,24 @@
+import { LifecycleEventName } from '#lllms/types/index.js'
+
+const lifecycleEvents: Record<LifecycleEventName, true> = {
+	'request.queued': true,
+	'request.acquired': true,
+	'request.completed': true,
+	'request.aborted': true,
+	'task.completed': true,
+	'instance.spawn': true,
+	'instance.load': true,
+	'instance.dispose': true,
+	'instance.error': true,
+	'cache.hit': true,
+	'cache.miss': true,
+	'gpu.swap': true,
+	'download.start': true,
+	'download.progress': true,
+	'download.done': true,
+	'download.failed': true,
+}
+
+export const lifecycleEventNames = Object.keys(
+	lifecycleEvents,
+) as LifecycleEventName[]
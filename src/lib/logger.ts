@@ -1,3 +1,7 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { inspect } from 'node:util'
+import type { Writable } from 'node:stream'
 import chalk from 'chalk'
 
 export const LogLevels = {
@@ -11,6 +15,40 @@ export const LogLevels = {
 export type LogLevel = keyof typeof LogLevels
 export type Logger = (level: LogLevel, message: string, meta?: any) => void
 
+export type LogFormat = 'pretty' | 'json'
+
+export interface LogEntry {
+	level: LogLevel
+	message: string
+	timestamp: Date
+	meta?: any
+}
+
+// receives every entry that passes the min level, along with the formatted line
+export type LogTransport = (line: string, entry: LogEntry) => void
+
+export interface FileTransportOptions {
+	path: string
+	// size in bytes after which the file is rotated. defaults to 10MB.
+	maxSize?: number
+	// number of rotated files to keep, named <path>.1 to <path>.<maxFiles>. defaults to 5.
+	maxFiles?: number
+}
+
+export type LogTransportOptions =
+	| LogTransport
+	| { type: 'console' }
+	| ({ type: 'file' } & FileTransportOptions)
+	| { type: 'stream'; stream: Writable }
+
+export interface LoggerOptions {
+	level?: LogLevel
+	// pretty prints colored lines, json one object per line. defaults to pretty.
+	format?: LogFormat
+	// defaults to the console
+	transports?: LogTransportOptions[]
+}
+
 export function withLogMeta(logger: Logger, meta: object) {
 	return (level: LogLevel, message: string, extraMeta: object = {}) => {
 		logger(level, message, { ...meta, ...extraMeta })
@@ -18,47 +56,147 @@ export function withLogMeta(logger: Logger, meta: object) {
 }
 
 export function createSublogger(
-	minLevelOrLogger: LogLevel | Logger = LogLevels.warn,
+	options: LogLevel | Logger | LoggerOptions = LogLevels.warn,
 ) {
-	if (minLevelOrLogger) {
-		return typeof minLevelOrLogger === 'string'
-			? createLogger(minLevelOrLogger)
-			: minLevelOrLogger
-	} else {
-		return createLogger(LogLevels.warn)
+	if (typeof options === 'function') {
+		return options
 	}
+	return createLogger(options || LogLevels.warn)
 }
 
-export function createLogger(minLevel: LogLevel) {
+export function createLogger(options: LogLevel | LoggerOptions = {}): Logger {
+	const {
+		level: minLevel = LogLevels.warn,
+		format = 'pretty',
+		transports = [{ type: 'console' }],
+	}: LoggerOptions = typeof options === 'string' ? { level: options } : options
 	const levels = Object.keys(LogLevels).reverse()
 	const minLevelIndex = levels.indexOf(minLevel)
+	const formatEntry = format === 'json' ? formatJSON : formatPretty
+	const writers = transports.map(createTransport)
 
 	return function log(level: LogLevel, message: string, meta?: any) {
 		const levelIndex = levels.indexOf(level)
 		if (levelIndex >= minLevelIndex) {
-			const formattedMessage = formatMessage(level, message, meta)
-			switch (level) {
-				case LogLevels.error:
-					console.error(formattedMessage, meta?.error)
-					break
-				case LogLevels.warn:
-					console.warn(formattedMessage)
-					break
-				case LogLevels.info:
-					console.info(formattedMessage)
-					break
-				case LogLevels.debug:
-				case LogLevels.verbose:
-					console.debug(formattedMessage)
-					break
+			const entry = { level, message, timestamp: new Date(), meta }
+			const line = formatEntry(entry)
+			for (const write of writers) {
+				write(line, entry)
+			}
+		}
+	}
+}
+
+function createTransport(options: LogTransportOptions): LogTransport {
+	if (typeof options === 'function') {
+		return options
+	}
+	switch (options.type) {
+		case 'console':
+			return createConsoleTransport()
+		case 'file':
+			return createFileTransport(options)
+		case 'stream':
+			return createStreamTransport(options.stream)
+	}
+}
+
+export function createConsoleTransport(): LogTransport {
+	return (line, entry) => {
+		switch (entry.level) {
+			case LogLevels.error:
+				console.error(line)
+				break
+			case LogLevels.warn:
+				console.warn(line)
+				break
+			case LogLevels.info:
+				console.info(line)
+				break
+			case LogLevels.debug:
+			case LogLevels.verbose:
+				console.debug(line)
+				break
+		}
+	}
+}
+
+export function createStreamTransport(stream: Writable): LogTransport {
+	return (line) => {
+		stream.write(line + '\n')
+	}
+}
+
+// appends lines to a file and rotates it once it exceeds maxSize
+export function createFileTransport({
+	path: filePath,
+	maxSize = 10 * 1024 * 1024,
+	maxFiles = 5,
+}: FileTransportOptions): LogTransport {
+	fs.mkdirSync(path.dirname(filePath), { recursive: true })
+	let fileSize = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0
+	const rotate = () => {
+		for (let i = maxFiles - 1; i >= 1; i--) {
+			if (fs.existsSync(`${filePath}.${i}`)) {
+				fs.renameSync(`${filePath}.${i}`, `${filePath}.${i + 1}`)
 			}
 		}
+		if (maxFiles >= 1) {
+			fs.renameSync(filePath, `${filePath}.1`)
+		} else {
+			fs.rmSync(filePath)
+		}
+		fileSize = 0
+	}
+	return (line) => {
+		const data = line + '\n'
+		const dataSize = Buffer.byteLength(data)
+		if (fileSize > 0 && fileSize + dataSize > maxSize) {
+			rotate()
+		}
+		fs.appendFileSync(filePath, data)
+		fileSize += dataSize
+	}
+}
+
+function toJSONValue(key: string, value: unknown) {
+	if (value instanceof Error) {
+		return {
+			...value,
+			name: value.name,
+			message: value.message,
+			stack: value.stack,
+		}
+	}
+	if (typeof value === 'bigint') {
+		return value.toString()
+	}
+	return value
+}
+
+function formatJSON({ level, message, timestamp, meta }: LogEntry) {
+	const record = {
+		timestamp: timestamp.toISOString(),
+		level,
+		message,
+		...meta,
+	}
+	try {
+		return JSON.stringify(record, toJSONValue)
+	} catch (error) {
+		// ie circular meta data
+		return JSON.stringify({
+			timestamp: record.timestamp,
+			level,
+			message,
+			meta: inspect(meta, { depth: 2 }),
+		})
 	}
 }
 
-function formatMessage(level: LogLevel, message: string, meta: any = {}) {
-	const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 22)
-	let messageStr = `[${timestamp}]`
+function formatPretty({ level, message, timestamp, meta = {} }: LogEntry) {
+	const timestampStr = timestamp.toISOString().replace('T', ' ').substring(0, 22)
+	let messageStr = `[${timestampStr}]`
 
 	switch (level) {
 		case LogLevels.error:
@@ -92,11 +230,23 @@ function formatMessage(level: LogLevel, message: string, meta: any = {}) {
 		messageStr += ' ' + chalk.green(meta.task)
 	}
 
+	if (meta?.tenant) {
+		messageStr += ' ' + chalk.blue(meta.tenant)
+	}
+
 	messageStr += ' ' + message
 
 	if (meta) {
-		const { instance, sequence, model, task, elapsed, error, ...otherData } =
-			meta
+		const {
+			instance,
+			sequence,
+			model,
+			task,
+			tenant,
+			elapsed,
+			error,
+			...otherData
+		} = meta
 		if (elapsed) {
 			if (elapsed < 1000) {
 				messageStr += ' ' + chalk.magenta(`+${elapsed.toFixed(2)}ms`)
@@ -107,6 +257,10 @@ function formatMessage(level: LogLevel, message: string, meta: any = {}) {
 		if (Object.keys(otherData).length > 0) {
 			messageStr += ' ' + JSON.stringify(otherData, null, 2)
 		}
+		if (error) {
+			messageStr +=
+				' ' + (typeof error === 'string' ? error : inspect(error))
+		}
 	}
 	return messageStr
 }
@@ -0,0 +1,207 @@
+import type EventEmitter3 from 'eventemitter3'
+import type { ModelServer } from '#lllms/server.js'
+import {
+	LifecycleEventListeners,
+	LifecycleEventName,
+} from '#lllms/types/index.js'
+import { Counter, Gauge, Histogram } from '#lllms/lib/prometheus.js'
+import { lifecycleEventNames } from '#lllms/lib/lifecycleEvents.js'
+
+export const metricsContentType = 'text/plain; version=0.0.4; charset=utf-8'
+
+const durationBuckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300]
+const tokensPerSecondBuckets = [1, 2.5, 5, 10, 20, 35, 50, 75, 100, 150, 250]
+
+// typed like the emitter expects them, so they can be added by a generic event name
+type MetricsListeners = {
+	[TEvent in LifecycleEventName]?: EventEmitter3.EventListener<
+		LifecycleEventListeners,
+		TEvent
+	>
+}
+
+// collects prometheus metrics from the lifecycle events of a model server.
+// instance counts are read from the pool status when serializing.
+export class ModelServerMetrics {
+	private modelServer: ModelServer
+	private listeners: MetricsListeners
+	// bytes of each file that have been counted already
+	private downloadedBytes: Map<string, number> = new Map()
+
+	requests = new Counter(
+		'lllms_requests_total',
+		'Number of finished tasks by model, task type and status',
+	)
+	requestDuration = new Histogram(
+		'lllms_request_duration_seconds',
+		'Time it took to process tasks',
+		durationBuckets,
+	)
+	queueWaitTime = new Histogram(
+		'lllms_queue_wait_seconds',
+		'Time requests waited for an instance',
+		durationBuckets,
+	)
+	promptTokens = new Counter(
+		'lllms_prompt_tokens_total',
+		'Number of processed prompt tokens',
+	)
+	completionTokens = new Counter(
+		'lllms_completion_tokens_total',
+		'Number of generated completion tokens',
+	)
+	tokensPerSecond = new Histogram(
+		'lllms_completion_tokens_per_second',
+		'Completion tokens generated per second of task duration',
+		tokensPerSecondBuckets,
+	)
+	instances = new Gauge(
+		'lllms_instances',
+		'Number of model instances by status and device',
+	)
+	pendingRequests = new Gauge(
+		'lllms_pending_requests',
+		'Number of requests waiting for an instance',
+	)
+	cacheHits = new Counter(
+		'lllms_chat_cache_hits_total',
+		'Chat requests that got an instance with matching context',
+	)
+	cacheMisses = new Counter(
+		'lllms_chat_cache_misses_total',
+		'Chat requests without an instance with matching context',
+	)
+	cacheHitRatio = new Gauge(
+		'lllms_chat_cache_hit_ratio',
+		'Ratio of chat requests that got an instance with matching context',
+	)
+	downloadBytes = new Counter(
+		'lllms_download_bytes_total',
+		'Number of downloaded model file bytes',
+	)
+
+	constructor(modelServer: ModelServer) {
+		this.modelServer = modelServer
+		this.listeners = {
+			'task.completed': (event) => {
+				const labels = { model: event.model, task: event.type }
+				this.requests.inc({
+					...labels,
+					status: event.error ? 'error' : 'success',
+				})
+				this.requestDuration.observe(labels, event.duration / 1000)
+				if (event.promptTokens) {
+					this.promptTokens.inc({ model: event.model }, event.promptTokens)
+				}
+				if (event.completionTokens) {
+					this.completionTokens.inc(
+						{ model: event.model },
+						event.completionTokens,
+					)
+					if (event.duration > 0) {
+						this.tokensPerSecond.observe(
+							{ model: event.model },
+							event.completionTokens / (event.duration / 1000),
+						)
+					}
+				}
+			},
+			'request.acquired': (event) => {
+				this.queueWaitTime.observe(
+					{ model: event.model },
+					event.queueWaitTime / 1000,
+				)
+			},
+			'cache.hit': (event) => {
+				this.cacheHits.inc({ model: event.model })
+			},
+			'cache.miss': (event) => {
+				this.cacheMisses.inc({ model: event.model })
+			},
+			'download.progress': (event) => {
+				this.countDownloadedBytes(event.model, event.file, event.loadedBytes)
+			},
+			'download.done': (event) => {
+				this.countDownloadedBytes(event.model, event.file, event.totalBytes)
+				this.downloadedBytes.delete(event.model + ':' + event.file)
+			},
+		}
+		for (const eventName of lifecycleEventNames) {
+			this.toggleListener(eventName, true)
+		}
+	}
+
+	private toggleListener<TEvent extends LifecycleEventName>(
+		eventName: TEvent,
+		enabled: boolean,
+	) {
+		const listener = this.listeners[eventName]
+		if (!listener) {
+			return
+		}
+		if (enabled) {
+			this.modelServer.on(eventName, listener)
+		} else {
+			this.modelServer.off(eventName, listener)
+		}
+	}
+
+	private countDownloadedBytes(
+		model: string,
+		file: string,
+		loadedBytes: number,
+	) {
+		const key = model + ':' + file
+		const countedBytes = this.downloadedBytes.get(key) ?? 0
+		if (loadedBytes > countedBytes) {
+			this.downloadBytes.inc({ model }, loadedBytes - countedBytes)
+			this.downloadedBytes.set(key, loadedBytes)
+		}
+	}
+
+	private collectPoolStatus() {
+		const status = this.modelServer.pool.getStatus()
+		this.pendingRequests.set({}, status.pending)
+		this.instances.reset()
+		for (const instance of Object.values(status.instances)) {
+			this.instances.inc({
+				model: instance.model,
+				status: instance.status,
+				device: instance.gpuDevice ?? instance.device,
+			})
+		}
+		this.cacheHitRatio.reset()
+		for (const modelId of Object.keys(status.models)) {
+			const hits = this.cacheHits.get({ model: modelId })
+			const total = hits + this.cacheMisses.get({ model: modelId })
+			if (total) {
+				this.cacheHitRatio.set({ model: modelId }, hits / total)
+			}
+		}
+	}
+
+	serialize() {
+		this.collectPoolStatus()
+		const metrics = [
+			this.requests,
+			this.requestDuration,
+			this.queueWaitTime,
+			this.promptTokens,
+			this.completionTokens,
+			this.tokensPerSecond,
+			this.instances,
+			this.pendingRequests,
+			this.cacheHits,
+			this.cacheMisses,
+			this.cacheHitRatio,
+			this.downloadBytes,
+		]
+		return metrics.map((metric) => metric.serialize()).join('\n') + '\n'
+	}
+
+	dispose() {
+		for (const eventName of lifecycleEventNames) {
+			this.toggleListener(eventName, false)
+		}
+	}
+}
@@ -0,0 +1,170 @@
+// minimal implementation of the prometheus text exposition format
+// see https://prometheus.io/docs/instrumenting/exposition_formats/
+
+type Labels = Record<string, string | number | undefined>
+
+function escapeLabelValue(value: string) {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Labels) {
+	const pairs = Object.entries(labels)
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => `${key}="${escapeLabelValue(String(value))}"`)
+	return pairs.length ? `{${pairs.join(',')}}` : ''
+}
+
+function formatValue(value: number) {
+	if (value === Infinity) {
+		return '+Inf'
+	}
+	if (value === -Infinity) {
+		return '-Inf'
+	}
+	return String(value)
+}
+
+interface MetricSeries<T> {
+	labels: Labels
+	value: T
+}
+
+abstract class Metric<T> {
+	name: string
+	help: string
+	abstract type: 'counter' | 'gauge' | 'histogram'
+	protected series: Map<string, MetricSeries<T>> = new Map()
+
+	constructor(name: string, help: string) {
+		this.name = name
+		this.help = help
+	}
+
+	protected abstract createValue(): T
+
+	protected getSeries(labels: Labels) {
+		const key = formatLabels(labels)
+		let series = this.series.get(key)
+		if (!series) {
+			series = { labels, value: this.createValue() }
+			this.series.set(key, series)
+		}
+		return series
+	}
+
+	reset() {
+		this.series.clear()
+	}
+
+	protected abstract formatSeries(series: MetricSeries<T>): string[]
+
+	serialize() {
+		const lines = [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} ${this.type}`,
+		]
+		for (const series of this.series.values()) {
+			lines.push(...this.formatSeries(series))
+		}
+		return lines.join('\n')
+	}
+}
+
+function formatSample(name: string, labels: Labels, value: number) {
+	return `${name}${formatLabels(labels)} ${formatValue(value)}`
+}
+
+export class Counter extends Metric<number> {
+	type = 'counter' as const
+
+	protected createValue() {
+		return 0
+	}
+
+	inc(labels: Labels = {}, value: number = 1) {
+		this.getSeries(labels).value += value
+	}
+
+	get(labels: Labels = {}) {
+		return this.series.get(formatLabels(labels))?.value ?? 0
+	}
+
+	protected formatSeries({ labels, value }: MetricSeries<number>) {
+		return [formatSample(this.name, labels, value)]
+	}
+}
+
+export class Gauge extends Metric<number> {
+	type = 'gauge' as const
+
+	protected createValue() {
+		return 0
+	}
+
+	set(labels: Labels, value: number) {
+		this.getSeries(labels).value = value
+	}
+
+	inc(labels: Labels = {}, value: number = 1) {
+		this.getSeries(labels).value += value
+	}
+
+	protected formatSeries({ labels, value }: MetricSeries<number>) {
+		return [formatSample(this.name, labels, value)]
+	}
+}
+
+interface HistogramValue {
+	buckets: number[]
+	sum: number
+	count: number
+}
+
+export class Histogram extends Metric<HistogramValue> {
+	type = 'histogram' as const
+	buckets: number[]
+
+	constructor(name: string, help: string, buckets: number[]) {
+		super(name, help)
+		this.buckets = [...buckets].sort((a, b) => a - b)
+	}
+
+	protected createValue() {
+		return {
+			buckets: this.buckets.map(() => 0),
+			sum: 0,
+			count: 0,
+		}
+	}
+
+	observe(labels: Labels, value: number) {
+		const series = this.getSeries(labels).value
+		for (let i = 0; i < this.buckets.length; i++) {
+			if (value <= this.buckets[i]) {
+				series.buckets[i]++
+			}
+		}
+		series.sum += value
+		series.count++
+	}
+
+	protected formatSeries({ labels, value }: MetricSeries<HistogramValue>) {
+		const lines = this.buckets.map((bucket, i) =>
+			formatSample(
+				`${this.name}_bucket`,
+				{ ...labels, le: formatValue(bucket) },
+				value.buckets[i],
+			),
+		)
+		lines.push(
+			formatSample(
+				`${this.name}_bucket`,
+				{ ...labels, le: '+Inf' },
+				value.count,
+			),
+			formatSample(`${this.name}_sum`, labels, value.sum),
+			formatSample(`${this.name}_count`, labels, value.count),
+		)
+		return lines
+	}
+}
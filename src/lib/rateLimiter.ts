@@ -0,0 +1,205 @@
+import fs from 'node:fs'
+import { Logger, LogLevels, createSublogger } from '#lllms/lib/logger.js'
+
+export interface RateLimits {
+	requestsPerMinute?: number
+	tokensPerDay?: number
+}
+
+interface WindowCounter {
+	// start of the window in ms since epoch
+	window: number
+	count: number
+}
+
+interface ScopeCounters {
+	requests?: WindowCounter
+	tokens?: WindowCounter
+}
+
+export interface RateLimitState {
+	limit: number
+	remaining: number
+	// ms until the current window ends
+	reset: number
+}
+
+export interface RateLimitResult {
+	allowed: boolean
+	// the exceeded limit, if not allowed
+	exceeded?: 'requests' | 'tokens'
+	// state of the most restrictive scope
+	requests?: RateLimitState
+	tokens?: RateLimitState
+}
+
+export interface RateLimitScope {
+	id: string
+	limits: RateLimits
+}
+
+export interface RateLimiterOptions {
+	// persists counters to this json file, so they survive restarts
+	file?: string
+	// ms to wait before writing changed counters to the file. defaults to 1000.
+	saveDelay?: number
+	log?: Logger
+}
+
+const minuteMs = 60 * 1000
+const dayMs = 24 * 60 * minuteMs
+
+function getWindowStart(now: number, windowMs: number) {
+	return now - (now % windowMs)
+}
+
+// counts requests per minute and tokens per day in fixed windows.
+// days are UTC days, minutes start at the full minute.
+export class RateLimiter {
+	private counters: Map<string, ScopeCounters> = new Map()
+	private file?: string
+	private saveDelay: number
+	private saveTimeout?: NodeJS.Timeout
+	private log: Logger
+
+	constructor(options: RateLimiterOptions = {}) {
+		this.file = options.file
+		this.saveDelay = options.saveDelay ?? 1000
+		this.log = createSublogger(options.log)
+		if (this.file && fs.existsSync(this.file)) {
+			try {
+				const saved = JSON.parse(fs.readFileSync(this.file, 'utf8'))
+				this.counters = new Map(Object.entries(saved))
+			} catch (error) {
+				this.log(
+					LogLevels.warn,
+					'Failed to read rate limit counters, starting with empty ones',
+					{ file: this.file, error },
+				)
+			}
+		}
+	}
+
+	private getCount(
+		scopeId: string,
+		type: keyof ScopeCounters,
+		windowStart: number,
+	) {
+		const counter = this.counters.get(scopeId)?.[type]
+		return counter?.window === windowStart ? counter.count : 0
+	}
+
+	private increment(
+		scopeId: string,
+		type: keyof ScopeCounters,
+		windowStart: number,
+		amount: number,
+	) {
+		const counters = this.counters.get(scopeId) ?? {}
+		counters[type] = {
+			window: windowStart,
+			count: this.getCount(scopeId, type, windowStart) + amount,
+		}
+		this.counters.set(scopeId, counters)
+		this.scheduleSave()
+	}
+
+	private getState(
+		scopes: RateLimitScope[],
+		type: keyof ScopeCounters,
+		now: number,
+	): RateLimitState | undefined {
+		const limitKey = type === 'requests' ? 'requestsPerMinute' : 'tokensPerDay'
+		const windowMs = type === 'requests' ? minuteMs : dayMs
+		const windowStart = getWindowStart(now, windowMs)
+		let state: RateLimitState | undefined
+		for (const scope of scopes) {
+			const limit = scope.limits[limitKey]
+			if (limit === undefined) {
+				continue
+			}
+			const used = this.getCount(scope.id, type, windowStart)
+			const remaining = Math.max(0, limit - used)
+			if (!state || remaining < state.remaining) {
+				state = { limit, remaining, reset: windowStart + windowMs - now }
+			}
+		}
+		return state
+	}
+
+	// counts the request if none of the scopes limits are exceeded
+	consume(scopes: RateLimitScope[]): RateLimitResult {
+		const now = Date.now()
+		const tokens = this.getState(scopes, 'tokens', now)
+		let requests = this.getState(scopes, 'requests', now)
+		if (requests?.remaining === 0) {
+			return { allowed: false, exceeded: 'requests', requests, tokens }
+		}
+		if (tokens?.remaining === 0) {
+			return { allowed: false, exceeded: 'tokens', requests, tokens }
+		}
+		const windowStart = getWindowStart(now, minuteMs)
+		for (const scope of scopes) {
+			if (scope.limits.requestsPerMinute !== undefined) {
+				this.increment(scope.id, 'requests', windowStart, 1)
+			}
+		}
+		if (requests) {
+			requests = { ...requests, remaining: requests.remaining - 1 }
+		}
+		return { allowed: true, requests, tokens }
+	}
+
+	// adds used tokens to the scopes counters
+	recordTokens(scopes: RateLimitScope[], tokenCount: number) {
+		const windowStart = getWindowStart(Date.now(), dayMs)
+		for (const scope of scopes) {
+			if (scope.limits.tokensPerDay !== undefined) {
+				this.increment(scope.id, 'tokens', windowStart, tokenCount)
+			}
+		}
+	}
+
+	private scheduleSave() {
+		if (!this.file || this.saveTimeout) {
+			return
+		}
+		this.saveTimeout = setTimeout(() => this.save(), this.saveDelay)
+		this.saveTimeout.unref()
+	}
+
+	save() {
+		clearTimeout(this.saveTimeout)
+		this.saveTimeout = undefined
+		if (!this.file) {
+			return
+		}
+		const now = Date.now()
+		// only keep counters of current windows
+		const counters: Record<string, ScopeCounters> = {}
+		for (const [scopeId, scopeCounters] of this.counters) {
+			const { requests, tokens } = scopeCounters
+			const current: ScopeCounters = {}
+			if (requests?.window === getWindowStart(now, minuteMs)) {
+				current.requests = requests
+			}
+			if (tokens?.window === getWindowStart(now, dayMs)) {
+				current.tokens = tokens
+			}
+			if (current.requests || current.tokens) {
+				counters[scopeId] = current
+			}
+		}
+		// written to a temporary file first, so a crash cant leave a half written file behind
+		const tmpFile = `${this.file}.tmp`
+		fs.writeFileSync(tmpFile, JSON.stringify(counters))
+		fs.renameSync(tmpFile, this.file)
+	}
+
+	// writes pending changes to the file
+	dispose() {
+		if (this.saveTimeout) {
+			this.save()
+		}
+	}
+}
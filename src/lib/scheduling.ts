@@ -0,0 +1,118 @@
+import { ModelInstanceRequest } from '#lllms/types/index.js'
+
+export interface ScheduledRequest {
+	request: ModelInstanceRequest
+	enqueuedAt: number
+}
+
+// decides which of the waiting requests gets served next.
+// candidates are passed in the order they started waiting.
+export interface SchedulingPolicy {
+	selectNext<T extends ScheduledRequest>(candidates: T[]): T
+	// called whenever a request acquired an instance
+	onServed?(request: ModelInstanceRequest): void
+}
+
+export type SchedulingPolicyName = 'fifo' | 'priority' | 'weighted-fair'
+
+export interface WeightedFairSchedulingOptions {
+	policy: 'weighted-fair'
+	// share instances between models, or between tenants. defaults to model.
+	groupBy?: 'model' | 'tenant'
+	// relative share per model or tenant, defaults to 1
+	weights?: Record<string, number>
+}
+
+export type SchedulingOptions =
+	| SchedulingPolicyName
+	| { policy: 'fifo' | 'priority' }
+	| WeightedFairSchedulingOptions
+	| SchedulingPolicy
+
+function getPriority(scheduled: ScheduledRequest) {
+	return scheduled.request.priority ?? 0
+}
+
+// serves requests in the order they came in, ignoring priorities
+export class FifoSchedulingPolicy implements SchedulingPolicy {
+	selectNext<T extends ScheduledRequest>(candidates: T[]) {
+		return candidates[0]
+	}
+}
+
+// serves requests with higher priority first, then in the order they came in
+export class PrioritySchedulingPolicy implements SchedulingPolicy {
+	selectNext<T extends ScheduledRequest>(candidates: T[]) {
+		return candidates.reduce((prev, current) =>
+			getPriority(current) > getPriority(prev) ? current : prev,
+		)
+	}
+}
+
+// serves requests with higher priority first, then the model or tenant that got
+// the least share relative to its weight.
+export class WeightedFairSchedulingPolicy implements SchedulingPolicy {
+	private groupBy: 'model' | 'tenant'
+	private weights: Record<string, number>
+	private usage: Map<string, number> = new Map()
+
+	constructor(options: Omit<WeightedFairSchedulingOptions, 'policy'> = {}) {
+		this.groupBy = options.groupBy ?? 'model'
+		this.weights = options.weights ?? {}
+	}
+
+	private getGroup(request: ModelInstanceRequest) {
+		if (this.groupBy === 'tenant') {
+			return request.tenant ?? 'default'
+		}
+		return request.model
+	}
+
+	private getUsage(group: string) {
+		if (!this.usage.has(group)) {
+			// groups that start sending requests should not be able to
+			// make up for the time they were idle and starve everyone else
+			const activeUsage = [...this.usage.values()]
+			this.usage.set(group, activeUsage.length ? Math.min(...activeUsage) : 0)
+		}
+		return this.usage.get(group)!
+	}
+
+	selectNext<T extends ScheduledRequest>(candidates: T[]) {
+		const maxPriority = Math.max(...candidates.map(getPriority))
+		return candidates
+			.filter((candidate) => getPriority(candidate) === maxPriority)
+			.reduce((prev, current) =>
+				this.getUsage(this.getGroup(current.request)) <
+				this.getUsage(this.getGroup(prev.request))
+					? current
+					: prev,
+			)
+	}
+
+	onServed(request: ModelInstanceRequest) {
+		const group = this.getGroup(request)
+		const weight = this.weights[group] ?? 1
+		this.usage.set(group, this.getUsage(group) + 1 / weight)
+	}
+}
+
+export function createSchedulingPolicy(
+	options: SchedulingOptions = 'priority',
+): SchedulingPolicy {
+	if (typeof options === 'object' && 'selectNext' in options) {
+		return options
+	}
+	const { policy, ...policyOptions } =
+		typeof options === 'string' ? { policy: options } : options
+	switch (policy) {
+		case 'fifo':
+			return new FifoSchedulingPolicy()
+		case 'priority':
+			return new PrioritySchedulingPolicy()
+		case 'weighted-fair':
+			return new WeightedFairSchedulingPolicy(policyOptions)
+		default:
+			throw new Error(`Unknown scheduling policy: ${policy}`)
+	}
+}
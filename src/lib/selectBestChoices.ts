@@ -0,0 +1,17 @@
+import { UnsupportedTaskError } from '#lllms/errors.js'
+
+// picks the n choices with the highest cumulative logprob, like best_of does
+export function selectBestChoices<TChoice extends { logprob?: number }>(
+	choices: TChoice[],
+	n: number,
+) {
+	if (choices.some((choice) => choice.logprob === undefined)) {
+		throw new UnsupportedTaskError(
+			'Selecting the best choices requires logprobs, which the engine does not provide',
+		)
+	}
+	return choices
+		.slice()
+		.sort((a, b) => b.logprob! - a.logprob!)
+		.slice(0, n)
+}
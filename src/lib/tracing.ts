@@ -0,0 +1,74 @@
+import type { IncomingHttpHeaders } from 'node:http'
+import {
+	Context,
+	ProxyTracerProvider,
+	Span,
+	SpanOptions,
+	SpanStatusCode,
+	Tracer,
+	context,
+	isSpanContextValid,
+	propagation,
+	trace,
+} from '@opentelemetry/api'
+
+// used when no tracer is configured, ignores globally registered tracer providers
+export const noopTracer: Tracer = new ProxyTracerProvider().getTracer('lllms')
+
+export function recordSpanError(span: Span, error: unknown) {
+	if (error instanceof Error) {
+		span.recordException(error)
+		span.setStatus({ code: SpanStatusCode.ERROR, message: error.message })
+	} else {
+		span.setStatus({ code: SpanStatusCode.ERROR, message: String(error) })
+	}
+}
+
+// runs fn within a new active span, which ends once the returned promise settles
+export function withSpan<T>(
+	tracer: Tracer,
+	name: string,
+	options: SpanOptions,
+	fn: (span: Span) => Promise<T>,
+): Promise<T> {
+	return tracer.startActiveSpan(name, options, async (span) => {
+		try {
+			return await fn(span)
+		} catch (error) {
+			recordSpanError(span, error)
+			throw error
+		} finally {
+			span.end()
+		}
+	})
+}
+
+const traceparentPattern = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+
+// returns the active context with the remote parent span of an incoming request.
+// uses the registered propagator and falls back to parsing the w3c traceparent header.
+export function extractTraceContext(headers: IncomingHttpHeaders): Context {
+	const activeContext = context.active()
+	const extractedContext = propagation.extract(activeContext, headers)
+	if (trace.getSpanContext(extractedContext)) {
+		return extractedContext
+	}
+	const traceparent = headers.traceparent
+	const match =
+		typeof traceparent === 'string'
+			? traceparentPattern.exec(traceparent.trim())
+			: null
+	if (!match) {
+		return activeContext
+	}
+	const spanContext = {
+		traceId: match[1],
+		spanId: match[2],
+		traceFlags: parseInt(match[3], 16),
+		isRemote: true,
+	}
+	if (!isSpanContextValid(spanContext)) {
+		return activeContext
+	}
+	return trace.setSpanContext(activeContext, spanContext)
+}
@@ -17,17 +17,36 @@ export function mergeAbortSignals(
 	signals: Array<AbortSignal | undefined>,
 ): AbortSignal {
 	const controller = new AbortController()
-	const onAbort = () => {
-		controller.abort()
-	}
 	for (const signal of signals) {
 		if (signal) {
-			signal.addEventListener('abort', onAbort)
+			// forward the reason, so callers can tell why the request was aborted
+			signal.addEventListener('abort', () => {
+				controller.abort(signal.reason)
+			})
 		}
 	}
 	return controller.signal
 }
 
+// resolves after the given time, or rejects once the signal aborts
+export function delay(ms: number, signal?: AbortSignal) {
+	return new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason)
+			return
+		}
+		const onAbort = () => {
+			clearTimeout(timeout)
+			reject(signal!.reason)
+		}
+		const timeout = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		signal?.addEventListener('abort', onAbort)
+	})
+}
+
 export function printActiveHandles() {
 	//@ts-ignore
 	const handles = process._getActiveHandles();
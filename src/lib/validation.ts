@@ -1,7 +1,7 @@
 import { BuiltInModelOptions } from '#lllms/types/index.js'
-import { builtInEngineNames } from '#lllms/engines/index.js'
+import { builtInEngineNames, builtInEngineTasks } from '#lllms/engines/index.js'
 
-const modelIdPattern = /^[a-zA-Z0-9_\-\.]+$/
+export const modelIdPattern = /^[a-zA-Z0-9_\-\.]+$/
 export function validateModelId(id: string) {
 	if (!modelIdPattern.test(id)) {
 		throw new Error(
@@ -28,4 +28,10 @@ export function validateModelOptions(
 	if (!modelOptions.task) {
 		throw new Error(`Model "${id}" must have a task`)
 	}
+	const supportedTasks = builtInEngineTasks[modelOptions.engine]
+	if (supportedTasks && !supportedTasks.includes(modelOptions.task)) {
+		throw new Error(
+			`Model "${id}" has task "${modelOptions.task}" which is not supported by engine "${modelOptions.engine}"; use one of ${supportedTasks.join(', ')}`,
+		)
+	}
 }
@@ -1,24 +1,55 @@
 import process from 'node:process'
 import PQueue from 'p-queue'
 import EventEmitter3 from 'eventemitter3'
+import type { Span, Tracer } from '@opentelemetry/api'
 import { ModelInstance } from '#lllms/instance.js'
 import {
 	ModelConfig,
 	IncomingRequest,
 	ModelInstanceRequest,
 	ModelEngine,
+	ResourceEstimate,
+	GpuDevice,
+	LifecycleEventListeners,
 } from '#lllms/types/index.js'
 import {
 	Logger,
 	LogLevels,
 	createSublogger,
 	LogLevel,
+	LoggerOptions,
 } from '#lllms/lib/logger.js'
-import { mergeAbortSignals } from '#lllms/lib/util.js'
+import { mergeAbortSignals, delay } from '#lllms/lib/util.js'
+import { isAutoGpu, requiresGpu } from '#lllms/lib/gpuDevices.js'
+import {
+	CircuitBreaker,
+	CircuitBreakerOptions,
+} from '#lllms/lib/circuitBreaker.js'
+import {
+	ModelUnavailableError,
+	QueueFullError,
+	QueueTimeoutError,
+	ShutdownError,
+	ModelNotFoundError,
+} from '#lllms/errors.js'
+import {
+	ScheduledRequest,
+	SchedulingOptions,
+	SchedulingPolicy,
+	createSchedulingPolicy,
+} from '#lllms/lib/scheduling.js'
+import { noopTracer, withSpan } from '#lllms/lib/tracing.js'
 
-export interface ModelInstanceHandle {
+// Symbol.asyncDispose is only available in node >= 18.18
+// @ts-ignore
+Symbol.asyncDispose ??= Symbol.for('Symbol.asyncDispose')
+
+// releases the instance when disposed, so it can be used with `await using`
+export interface ModelInstanceHandle extends AsyncDisposable {
 	instance: ModelInstance
 	release: () => Promise<void>
+	// how long the request waited for the instance, in milliseconds
+	queueWaitTime: number
 }
 
 interface ModelTask {
@@ -26,36 +57,108 @@ interface ModelTask {
 	request: ModelInstanceRequest
 }
 
+type InstanceAvailableEvent = 'spawn' | 'release' | 'dispose'
+
+// a request waiting for an instance to be spawned, released or disposed
+interface InstanceWaiter extends ScheduledRequest {
+	accepts: (instance: ModelInstance, event: InstanceAvailableEvent) => boolean
+	take: (instance: ModelInstance, event: InstanceAvailableEvent) => void
+	reject: (error: Error) => void
+}
+
+// resolves to the models meta data, which is used to estimate resource usage
 type PrepareModelInstanceCallback = (
 	instance: ModelInstance,
 	signal?: AbortSignal,
-) => Promise<void>
+) => Promise<unknown>
+
+// memory limits in bytes. ram and vram limit instances on cpu and gpu, total limits both combined.
+export interface MemoryLimits {
+	total?: number
+	ram?: number
+	vram?: number
+}
+
+// retries for preparing and loading instances, with exponential backoff
+export interface RetryOptions {
+	// including the first attempt
+	maxAttempts?: number
+	// delay in ms before the first retry, doubled for every following one
+	initialDelay?: number
+	maxDelay?: number
+}
 
 interface ModelPoolConfig {
 	concurrency: number
+	maxPendingRequests?: number
+	queueTimeout?: number
+	leaseTimeout?: number
+	retry: Required<RetryOptions>
+	circuitBreaker?: CircuitBreakerOptions
 	models: Record<string, ModelConfig>
+	maxMemory?: MemoryLimits
+	gpuDevices?: GpuDevice[]
 }
 
 export interface ModelPoolOptions {
 	concurrency?: number
+	// max number of requests waiting for an instance, across all models
+	maxPendingRequests?: number
+	// max time in ms a request may wait for an instance. models can override it.
+	queueTimeout?: number
+	// max time in ms a handle may hold an instance before it is force-released. models can override it.
+	leaseTimeout?: number
+	retry?: RetryOptions
+	// stops spawning instances of a model after repeated failures
+	circuitBreaker?: CircuitBreakerOptions
 	models: Record<string, ModelConfig>
-	log?: Logger | LogLevel
+	maxMemory?: number | MemoryLimits
+	// overrides the gpu devices declared by engines
+	gpuDevices?: GpuDevice[]
+	// decides which waiting request gets the next available instance. defaults to priority.
+	scheduling?: SchedulingOptions
+	// creates spans for requests, acquiring and spawning instances and tasks. defaults to a no-op tracer.
+	tracer?: Tracer
+	log?: Logger | LogLevel | LoggerOptions
 }
 
-type ModelPoolEvent = 'ready' | 'spawn' | 'release'
+export interface RemoveModelInstancesOptions {
+	// wait for busy instances to be released before disposing them
+	drain?: boolean
+}
 
-export class ModelPool extends EventEmitter3<ModelPoolEvent> {
+// spawn, release and dispose are used internally to hand over instances.
+// the lifecycle events are meant for observability and carry serializable metadata only.
+type ModelPoolEvents = LifecycleEventListeners & {
+	ready: () => void
+	spawn: (instance: ModelInstance) => void
+	release: (instance: ModelInstance) => void
+	dispose: (instance: ModelInstance) => void
+}
+
+export class ModelPool extends EventEmitter3<ModelPoolEvents> {
 	queue: PQueue
 	config: ModelPoolConfig
 	instances: Record<string, ModelInstance>
 	private engines?: Record<string, ModelEngine>
 	private cleanupInterval?: NodeJS.Timeout
 	private log: Logger
+	private tracer: Tracer
 	private requestSequence: number = 0
 	private pendingRequests: Set<ModelInstanceRequest> = new Set()
+	// requests that acquired an instance and did not release it yet
+	private runningRequests: Set<ModelInstanceRequest> = new Set()
+	private draining: boolean = false
+	// instances of removed or updated models, that will be disposed once released
+	private retiredInstances: Set<string> = new Set()
 	private shutdownController: AbortController = new AbortController()
-	private gpuLock: boolean = false // TODO could derive this from "is there any instance that has gpu=true"
+	private gpuDevices: GpuDevice[] = []
+	// last known resource estimates, used to place instances on gpu devices before they are estimated
+	private modelResources: Record<string, ResourceEstimate> = {}
 	private prepareInstance?: PrepareModelInstanceCallback
+	private scheduling: SchedulingPolicy
+	private instanceWaiters: InstanceWaiter[] = []
+	private circuitBreakers: Record<string, CircuitBreaker> = {}
 
 	constructor(
 		options: ModelPoolOptions,
@@ -63,6 +166,7 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 	) {
 		super()
 		this.log = createSublogger(options.log)
+		this.tracer = options.tracer ?? noopTracer
 		const models: Record<string, ModelConfig> = {}
 		for (const id in options.models) {
 			const modelConfig = options.models[id]
@@ -74,7 +178,17 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		const config: ModelPoolConfig = {
 			concurrency: 1,
 			...options,
+			retry: {
+				maxAttempts: 3,
+				initialDelay: 1000,
+				maxDelay: 30000,
+				...options.retry,
+			},
 			models,
+			maxMemory:
+				typeof options.maxMemory === 'number'
+					? { total: options.maxMemory }
+					: options.maxMemory,
 		}
 		this.queue = new PQueue({
 			concurrency: config.concurrency,
@@ -82,6 +196,71 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		this.config = config
 		this.instances = {}
 		this.prepareInstance = prepareInstance
+		this.scheduling = createSchedulingPolicy(options.scheduling)
+		this.on('spawn', (instance) => this.onInstanceAvailable(instance, 'spawn'))
+		this.on('release', (instance) =>
+			this.onInstanceAvailable(instance, 'release'),
+		)
+		this.on('dispose', (instance) =>
+			this.onInstanceAvailable(instance, 'dispose'),
+		)
+	}
+
+	// hands the instance to the waiting request selected by the scheduling policy
+	private onInstanceAvailable(
+		instance: ModelInstance,
+		event: InstanceAvailableEvent,
+	) {
+		const candidates = this.instanceWaiters.filter((waiter) =>
+			waiter.accepts(instance, event),
+		)
+		if (!candidates.length) {
+			return
+		}
+		const waiter = this.scheduling.selectNext(candidates)
+		this.removeInstanceWaiter(waiter)
+		waiter.take(instance, event)
+	}
+
+	// wait until an instance accepted by the waiter is handed over, or the signal aborts
+	private waitForInstance(
+		request: ModelInstanceRequest,
+		waiter: Pick<InstanceWaiter, 'accepts'> & {
+			take: (
+				instance: ModelInstance,
+				event: InstanceAvailableEvent,
+			) => Promise<ModelInstance>
+		},
+		signal?: AbortSignal,
+	): Promise<ModelInstance> {
+		return new Promise((resolve, reject) => {
+			const instanceWaiter: InstanceWaiter = {
+				request,
+				enqueuedAt: request.enqueuedAt,
+				accepts: waiter.accepts,
+				take: (instance, event) => {
+					signal?.removeEventListener('abort', onAbort)
+					waiter.take(instance, event).then(resolve, reject)
+				},
+				reject: (error) => {
+					signal?.removeEventListener('abort', onAbort)
+					reject(error)
+				},
+			}
+			const onAbort = () => {
+				this.removeInstanceWaiter(instanceWaiter)
+				reject(signal!.reason)
+			}
+			this.instanceWaiters.push(instanceWaiter)
+			signal?.addEventListener('abort', onAbort)
+		})
+	}
+
+	private removeInstanceWaiter(waiter: InstanceWaiter) {
+		const index = this.instanceWaiters.indexOf(waiter)
+		if (index !== -1) {
+			this.instanceWaiters.splice(index, 1)
+		}
 	}
 
 	// start up pool, creating instances and loading models
@@ -98,23 +277,24 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 			}
 		}
 
-		// prioritize initializing the first model defined that has gpu=true
-		// so lock cant be acquired first by another model that has gpu=auto/undefined
-		const firstGpuModel = Object.entries(modelConfigs).find(
-			([id, config]) => config.device?.gpu === true,
+		this.gpuDevices = await this.resolveGpuDevices(engines)
+
+		// prioritize initializing models that require gpu, so devices cant be
+		// occupied first by other models that have gpu=auto/undefined
+		const gpuModels = Object.values(modelConfigs).filter((config) =>
+			requiresGpu(config.device?.gpu),
 		)
-		if (firstGpuModel) {
-			const modelConfig = modelConfigs[firstGpuModel[0]]
+		for (const modelConfig of gpuModels) {
 			const spawnPromises = this.ensureModelInstances(modelConfig)
 			initPromises.push(...spawnPromises)
 		}
 
 		// then handle other models in the order they were defined
 		for (const modelId in modelConfigs) {
-			if (firstGpuModel && modelId === firstGpuModel[0]) {
+			const modelConfig = modelConfigs[modelId]
+			if (gpuModels.includes(modelConfig)) {
 				continue
 			}
-			const modelConfig = modelConfigs[modelId]
 			const spawnPromises = this.ensureModelInstances(modelConfig)
 			initPromises.push(...spawnPromises)
 		}
@@ -127,6 +307,69 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		}, 1000 * 60) // every minute
 	}
 
+	// devices can be configured or declared by engines. without either, theres a single gpu slot.
+	private async resolveGpuDevices(engines: Record<string, ModelEngine>) {
+		if (this.config.gpuDevices?.length) {
+			return this.config.gpuDevices
+		}
+		const devices: GpuDevice[] = []
+		for (const engine of Object.values(engines)) {
+			if (!engine.getGpuDevices) {
+				continue
+			}
+			for (const device of await engine.getGpuDevices()) {
+				if (!devices.some((existing) => existing.name === device.name)) {
+					devices.push(device)
+				}
+			}
+		}
+		if (!devices.length) {
+			devices.push({ name: 'default', slots: 1 })
+		}
+		return devices
+	}
+
+	// gpu devices an instance of the model may be placed on
+	private getTargetGpuDevices(model: ModelConfig) {
+		const gpu = model.device?.gpu
+		if (typeof gpu === 'number') {
+			return this.gpuDevices[gpu] ? [this.gpuDevices[gpu]] : []
+		}
+		if (typeof gpu === 'string' && gpu !== 'auto') {
+			// other strings are passed on to the engine, like node-llama-cpp's "cuda" or "metal"
+			const namedDevice = this.gpuDevices.find((device) => device.name === gpu)
+			if (namedDevice) {
+				return [namedDevice]
+			}
+		}
+		return this.gpuDevices
+	}
+
+	private hasGpuCapacity(device: GpuDevice, modelId: string) {
+		const deviceInstances = Object.values(this.instances).filter(
+			(instance) => instance.gpuDevice === device.name,
+		)
+		if (device.slots !== undefined && deviceInstances.length >= device.slots) {
+			return false
+		}
+		const estimate = this.modelResources[modelId]
+		if (device.vram !== undefined && estimate) {
+			const usedVram = deviceInstances.reduce(
+				(acc, instance) => acc + (instance.resources?.vram ?? 0),
+				0,
+			)
+			// the estimate might have been made for cpu, so count all of it
+			return usedVram + estimate.ram + estimate.vram <= device.vram
+		}
+		return device.slots !== undefined || deviceInstances.length === 0
+	}
+
+	private findAvailableGpuDevice(model: ModelConfig) {
+		return this.getTargetGpuDevices(model).find((device) =>
+			this.hasGpuCapacity(device, model.id),
+		)
+	}
+
 	// see if the minInstances for a models are spawned. if not, spawn them.
 	ensureModelInstances(model: ModelConfig) {
 		const spawnPromises = []
@@ -145,6 +388,162 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		return spawnPromises
 	}
 
+	// adds a model to the pool and spawns its min instances, if the pool is running
+	async addModel(model: ModelConfig) {
+		if (this.config.models[model.id]) {
+			throw new Error(`Model already exists: ${model.id}`)
+		}
+		this.config.models[model.id] = model
+		if (this.engines) {
+			await Promise.allSettled(this.ensureModelInstances(model))
+		}
+	}
+
+	// replaces the config of a model. existing instances are drained and disposed.
+	async updateModel(model: ModelConfig) {
+		if (!this.config.models[model.id]) {
+			throw new ModelNotFoundError(model.id)
+		}
+		this.config.models[model.id] = model
+		const disposePromise = this.retireModelInstances(model.id, { drain: true })
+		if (this.engines) {
+			await Promise.allSettled(this.ensureModelInstances(model))
+		}
+		await disposePromise
+	}
+
+	// removes a model from the pool. pending requests for it will be rejected.
+	async removeModel(modelId: string, options: RemoveModelInstancesOptions = {}) {
+		if (!this.config.models[modelId]) {
+			throw new ModelNotFoundError(modelId)
+		}
+		delete this.config.models[modelId]
+		delete this.modelResources[modelId]
+		delete this.circuitBreakers[modelId]
+		for (const request of this.pendingRequests) {
+			if (request.model === modelId) {
+				request.abortController.abort(
+					new Error(`Model has been removed: ${modelId}`),
+				)
+			}
+		}
+		await this.retireModelInstances(modelId, options)
+	}
+
+	// disposes idle instances of the model right away. busy ones are either disposed
+	// once they are released, or right away when not draining.
+	private retireModelInstances(
+		modelId: string,
+		options: RemoveModelInstancesOptions,
+	) {
+		const disposePromises: Array<Promise<void>> = []
+		for (const instance of Object.values(this.instances)) {
+			if (
+				instance.modelId !== modelId ||
+				this.retiredInstances.has(instance.id)
+			) {
+				continue
+			}
+			disposePromises.push(this.retireInstance(instance, options))
+		}
+		return Promise.allSettled(disposePromises).then(() => {})
+	}
+
+	private retireInstance(
+		instance: ModelInstance,
+		options: RemoveModelInstancesOptions,
+	) {
+		this.retiredInstances.add(instance.id)
+		if (instance.status === 'busy' && options.drain) {
+			this.log(LogLevels.debug, 'Draining instance', {
+				instance: instance.id,
+			})
+			return new Promise<void>((resolve) => {
+				const onDispose = (disposedInstance: ModelInstance) => {
+					if (disposedInstance.id === instance.id) {
+						this.off('dispose', onDispose)
+						resolve()
+					}
+				}
+				this.on('dispose', onDispose)
+				this.shutdownController.signal.addEventListener('abort', () =>
+					resolve(),
+				)
+			})
+		}
+		return this.disposeInstance(instance)
+	}
+
+	// spawns instances of the model until there are the given number, limited by maxInstances
+	async loadInstances(modelId: string, count: number) {
+		if (!this.config.models[modelId]) {
+			throw new ModelNotFoundError(modelId)
+		}
+		const instanceCount = Object.values(this.instances).filter(
+			(instance) =>
+				instance.modelId === modelId && !this.retiredInstances.has(instance.id),
+		).length
+		const spawnPromises = []
+		for (let i = instanceCount; i < count; i++) {
+			if (!this.canSpawnInstance(modelId)) {
+				break
+			}
+			spawnPromises.push(this.spawnInstance(modelId))
+		}
+		return Promise.all(spawnPromises)
+	}
+
+	// disposes an instance. busy instances are disposed once released.
+	async unloadInstance(instanceId: string) {
+		const instance = this.instances[instanceId]
+		if (!instance) {
+			throw new Error(`Instance not found: ${instanceId}`)
+		}
+		await this.retireInstance(instance, { drain: true })
+	}
+
+	// stops accepting requests and rejects waiting ones. running tasks may finish within
+	// the timeout, after that they are cancelled.
+	async drain(timeout: number = 0) {
+		this.draining = true
+		for (const request of this.pendingRequests) {
+			request.abortController.abort(new ShutdownError())
+		}
+		if (this.runningRequests.size && timeout > 0) {
+			this.log(LogLevels.info, 'Waiting for running tasks to finish', {
+				running: this.runningRequests.size,
+				timeout,
+			})
+			await new Promise<void>((resolve) => {
+				const onChange = () => {
+					if (!this.runningRequests.size) {
+						done()
+					}
+				}
+				const done = () => {
+					clearTimeout(drainTimer)
+					this.off('release', onChange)
+					this.off('dispose', onChange)
+					resolve()
+				}
+				const drainTimer = setTimeout(done, timeout)
+				this.on('release', onChange)
+				this.on('dispose', onChange)
+			})
+		}
+		for (const request of this.runningRequests) {
+			this.log(LogLevels.warn, 'Cancelling running task', {
+				model: request.model,
+				sequence: request.sequence,
+			})
+			request.abortController.abort(new ShutdownError())
+		}
+		// cancelled tasks may take a moment to settle, instances are disposed after that
+		await Promise.all(
+			Object.values(this.instances).map((instance) => instance.waitForTasks()),
+		)
+	}
+
 	async dispose() {
 		this.log(LogLevels.debug, 'Disposing pool')
 		clearInterval(this.cleanupInterval)
@@ -173,7 +572,7 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 				(i) => i.modelId === instance.modelId,
 			).length
 			const minInstanceCount =
-				this.config.models[instance.modelId].minInstances ?? 0
+				this.config.models[instance.modelId]?.minInstances ?? 0
 			if (
 				modelInstanceCount > minInstanceCount &&
 				instanceAge > instance.ttl &&
@@ -194,6 +593,29 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		const poolStatusInfo = {
 			processing: processingInstances.length,
 			pending: this.pendingRequests.size,
+			memory: {
+				...this.getMemoryUsage(),
+				limits: this.config.maxMemory,
+			},
+			models: Object.fromEntries(
+				Object.keys(this.config.models).map((modelId) => {
+					const circuitBreaker = this.getCircuitBreaker(modelId)
+					return [
+						modelId,
+						{
+							circuit: circuitBreaker.getState(),
+							failures: circuitBreaker.failures,
+							lastError: circuitBreaker.lastError,
+						},
+					]
+				}),
+			),
+			gpuDevices: this.gpuDevices.map((device) => ({
+				...device,
+				instances: Object.values(this.instances).filter(
+					(instance) => instance.gpuDevice === device.name,
+				).length,
+			})),
 			instances: Object.fromEntries(
 				Object.entries(this.instances).map(([key, instance]) => {
 					return [
@@ -203,7 +625,9 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 							status: instance.status,
 							engine: instance.config.engine,
 							device: instance.gpu ? 'gpu' : 'cpu',
+							gpuDevice: instance.gpuDevice,
 							contextState: instance.getContextStateIdentity(),
+							resources: instance.resources,
 							lastUsed: new Date(instance.lastUsed).toISOString(),
 						},
 					]
@@ -213,16 +637,160 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		return poolStatusInfo
 	}
 
+	// tasks running on any of the pools instances
+	listTasks() {
+		return Object.values(this.instances).flatMap((instance) => [
+			...instance.tasks.values(),
+		])
+	}
+
+	getTask(taskId: string) {
+		for (const instance of Object.values(this.instances)) {
+			const task = instance.tasks.get(taskId)
+			if (task) {
+				return task
+			}
+		}
+		return undefined
+	}
+
+	// returns false if theres no running task with the id
+	cancelTask(taskId: string) {
+		const task = this.getTask(taskId)
+		if (!task) {
+			return false
+		}
+		this.log(LogLevels.info, 'Cancelling task', {
+			task: taskId,
+			sequence: task.sequence,
+		})
+		task.cancel()
+		return true
+	}
+
+	// sums up the estimated memory use of all instances
+	getMemoryUsage(): ResourceEstimate {
+		const usage = { ram: 0, vram: 0 }
+		for (const instance of Object.values(this.instances)) {
+			if (instance.resources) {
+				usage.ram += instance.resources.ram
+				usage.vram += instance.resources.vram
+			}
+		}
+		return usage
+	}
+
+	private fitsMemoryLimits(
+		estimate: ResourceEstimate,
+		usage: ResourceEstimate,
+	) {
+		const limits = this.config.maxMemory
+		if (!limits) {
+			return true
+		}
+		const ram = usage.ram + estimate.ram
+		const vram = usage.vram + estimate.vram
+		if (limits.total !== undefined && ram + vram > limits.total) {
+			return false
+		}
+		if (limits.ram !== undefined && ram > limits.ram) {
+			return false
+		}
+		if (limits.vram !== undefined && vram > limits.vram) {
+			return false
+		}
+		return true
+	}
+
+	// resolves on the next release or dispose, which is when memory might become available
+	private waitForMemoryChange(signal?: AbortSignal) {
+		return new Promise<void>((resolve, reject) => {
+			const onChange = () => {
+				cleanup()
+				resolve()
+			}
+			const onAbort = () => {
+				cleanup()
+				reject(signal!.reason)
+			}
+			const cleanup = () => {
+				this.off('release', onChange)
+				this.off('dispose', onChange)
+				signal?.removeEventListener('abort', onAbort)
+			}
+			this.on('release', onChange)
+			this.on('dispose', onChange)
+			signal?.addEventListener('abort', onAbort)
+		})
+	}
+
+	// makes room for the instance within the memory limits by evicting least recently used
+	// idle instances, of other models first. if theres none, waits until memory is freed up.
+	private async reserveMemory(
+		instance: ModelInstance,
+		estimate: ResourceEstimate,
+		options: { signal?: AbortSignal; wait?: boolean },
+	) {
+		if (!this.fitsMemoryLimits(estimate, { ram: 0, vram: 0 })) {
+			throw new Error(
+				`Model ${instance.modelId} requires more memory than maxMemory allows`,
+			)
+		}
+		while (!this.fitsMemoryLimits(estimate, this.getMemoryUsage())) {
+			if (!options.wait) {
+				throw new Error(
+					`Not enough memory available to spawn instance of ${instance.modelId}`,
+				)
+			}
+			const evictableInstances = Object.values(this.instances).filter(
+				(other) => other.status === 'idle' && other.resources,
+			)
+			if (evictableInstances.length) {
+				// prefer instances of other models, then the least recently used
+				const lruInstance = evictableInstances.reduce((prev, current) => {
+					const prevIsSameModel = prev.modelId === instance.modelId
+					const currentIsSameModel = current.modelId === instance.modelId
+					if (prevIsSameModel !== currentIsSameModel) {
+						return prevIsSameModel ? current : prev
+					}
+					return prev.lastUsed < current.lastUsed ? prev : current
+				})
+				this.log(LogLevels.info, 'Evicting instance to free up memory', {
+					instance: lruInstance.id,
+					for: instance.id,
+				})
+				await this.disposeInstance(lruInstance)
+				continue
+			}
+			this.log(LogLevels.debug, 'Waiting for memory to become available', {
+				instance: instance.id,
+			})
+			await this.waitForMemoryChange(options.signal)
+		}
+		instance.resources = estimate
+	}
+
 	// checks if another instance can be spawned for given model
 	canSpawnInstance(modelId: string) {
 		const modelConfig = this.config.models[modelId]
-		// if the model is configured with gpu=true, interpret that as "it MUST run on gpu"
-		// and prevent spawning more instances if the gpu is already locked.
-		const requiresGpu = modelConfig.device?.gpu === true
-		if (requiresGpu && this.gpuLock) {
+		if (!modelConfig) {
+			return false
+		}
+		if (this.getCircuitBreaker(modelId).isOpen()) {
+			this.log(LogLevels.debug, 'Cannot spawn new instance: circuit is open', {
+				model: modelId,
+			})
+			return false
+		}
+		// if the model is configured with gpu=true or a specific device, interpret that as "it MUST run on gpu"
+		// and prevent spawning more instances if none of its devices have capacity left.
+		if (
+			requiresGpu(modelConfig.device?.gpu) &&
+			!this.findAvailableGpuDevice(modelConfig)
+		) {
 			this.log(
 				LogLevels.debug,
-				'Cannot spawn new instance: model requires gpu, but its locked',
+				'Cannot spawn new instance: model requires gpu, but no device is available',
 				{ model: modelId },
 			)
 			return false
@@ -230,7 +798,8 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		// see if we're within maxInstances limit
 		const maxInstances = modelConfig.maxInstances ?? 1
 		const currentInstances = Object.values(this.instances).filter(
-			(instance) => instance.modelId === modelId,
+			(instance) =>
+				instance.modelId === modelId && !this.retiredInstances.has(instance.id),
 		)
 		if (currentInstances.length >= maxInstances) {
 			this.log(
@@ -248,16 +817,27 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 			instance: instance.id,
 		})
 		await instance.dispose()
-		if (instance.gpu) {
-			this.gpuLock = false
-		}
 		delete this.instances[instance.id]
+		this.retiredInstances.delete(instance.id)
+		this.emit('dispose', instance)
+		this.emit('instance.dispose', {
+			timestamp: Date.now(),
+			model: instance.modelId,
+			instance: instance.id,
+		})
 	}
 
 	// spawns a new instance for the given model, without checking whether it's allowed
+	// with waitForMemory it may evict other instances or wait for memory, otherwise it throws when over budget
 	private async spawnInstance(
 		modelId: string,
-		options: { signal?: AbortSignal; emit?: boolean } = {},
+		options: {
+			signal?: AbortSignal
+			emit?: boolean
+			waitForMemory?: boolean
+			// allows to cancel waiting for memory, without aborting the instance load
+			requestSignal?: AbortSignal
+		} = {},
 	) {
 		if (!this.engines) {
 			throw new Error('No engines available - did you call init()?')
@@ -267,112 +847,296 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		if (!engine) {
 			throw new Error(`Engine not found: ${model.engine}`)
 		}
-		const autoGpuEnabled = !!engine.autoGpu
-
-		// if the model is configured with gpu=auto (or unset), we can use the gpu if its not locked
-		const autoGpu =
-			model.device?.gpu === undefined || model.device?.gpu === 'auto'
-		let useGpu = autoGpu ? autoGpuEnabled && !this.gpuLock : false
-
-		if (model.device?.gpu === true) {
-			useGpu = true
+		this.getCircuitBreaker(modelId).beginAttempt()
+		// if the model is configured with gpu=auto (or unset), we can use a gpu if one has capacity left
+		let gpuDevice: GpuDevice | undefined
+		if (requiresGpu(model.device?.gpu)) {
+			gpuDevice = this.findAvailableGpuDevice(model)
+			if (!gpuDevice) {
+				this.getCircuitBreaker(modelId).cancelAttempt()
+				throw new Error(`No gpu device available for ${modelId}`)
+			}
+		} else if (isAutoGpu(model.device?.gpu) && engine.autoGpu) {
+			gpuDevice = this.findAvailableGpuDevice(model)
 		}
 
 		const instance = new ModelInstance(engine, {
 			...model,
-			gpu: useGpu,
+			gpu: !!gpuDevice,
+			gpuDevice: gpuDevice?.name,
 			log: this.log,
+			tracer: this.tracer,
+			onTaskCompleted: (event) => {
+				this.emit('task.completed', event)
+			},
 		})
 		this.instances[instance.id] = instance
-
-		if (useGpu) {
-			this.gpuLock = true
-		}
+		this.emit('instance.spawn', {
+			timestamp: Date.now(),
+			model: modelId,
+			instance: instance.id,
+			gpuDevice: gpuDevice?.name,
+		})
 		const signals = [this.shutdownController.signal]
 		if (options.signal) {
 			signals.push(options.signal)
 		}
 		const abortSignal = mergeAbortSignals(signals)
+		let modelMeta: unknown
 		if (this.prepareInstance) {
 			this.log(LogLevels.debug, 'Preparing instance', {
 				instance: instance.id,
 			})
 			try {
-				await this.prepareInstance(instance, abortSignal)
-				instance.status = 'idle'
-			} catch (error) {
-				console.error('Error preparing instance', error)
+				modelMeta = await this.retryWithBackoff(
+					instance,
+					() =>
+						withSpan(
+							this.tracer,
+							'lllms.prepareInstance',
+							{ attributes: { 'lllms.instance': instance.id } },
+							() => this.prepareInstance!(instance, abortSignal),
+						),
+					abortSignal,
+				)
+			} catch (error: any) {
 				this.log(LogLevels.error, 'Error preparing instance', {
 					model: modelId,
 					instance: instance.id,
 					error,
 				})
-				instance.status = 'error'
-				return instance
+				await this.handleSpawnFailure(instance, error, abortSignal)
+				throw error
+			}
+		}
+		if (engine.estimateResources) {
+			let estimate: ResourceEstimate
+			try {
+				estimate = await engine.estimateResources({
+					config: {
+						...model,
+						device: {
+							...model.device,
+							gpu: !!gpuDevice,
+							gpuDevice: gpuDevice?.name,
+						},
+					},
+					meta: modelMeta,
+					log: this.log,
+				})
+			} catch (error: any) {
+				this.log(LogLevels.error, 'Error estimating instance resources', {
+					model: modelId,
+					instance: instance.id,
+					error,
+				})
+				await this.handleSpawnFailure(instance, error, abortSignal)
+				throw error
+			}
+			this.modelResources[modelId] = estimate
+			try {
+				await withSpan(
+					this.tracer,
+					'lllms.reserveMemory',
+					{ attributes: { 'lllms.instance': instance.id } },
+					() =>
+						this.reserveMemory(instance, estimate, {
+							signal: mergeAbortSignals([abortSignal, options.requestSignal]),
+							wait: options.waitForMemory,
+						}),
+				)
+			} catch (error) {
+				// not the models fault, so the circuit is left as is
+				this.getCircuitBreaker(modelId).cancelAttempt()
+				await this.disposeInstance(instance)
+				throw error
 			}
 		}
-		await instance.load(abortSignal)
+		try {
+			await this.retryWithBackoff(
+				instance,
+				() => instance.load(abortSignal),
+				abortSignal,
+			)
+		} catch (error: any) {
+			await this.handleSpawnFailure(instance, error, abortSignal)
+			throw error
+		}
+		this.getCircuitBreaker(modelId).recordSuccess()
+		this.emit('instance.load', {
+			timestamp: Date.now(),
+			model: modelId,
+			instance: instance.id,
+			duration: Date.now() - instance.createdAt.getTime(),
+		})
 		if (options.emit !== false) {
 			this.emit('spawn', instance)
 		}
 		return instance
 	}
 
-	// wait to acquire a gpu instance for the given request
-	private acquireGpuInstance(
-		request: ModelInstanceRequest,
-		signal?: AbortSignal,
-	): Promise<ModelInstance> {
-		return new Promise(async (resolve, reject) => {
-			// if we have an idle gpu instance and the model matches we can lock and return immediately
-			const gpuInstance = Object.values(this.instances).find(
-				(instance) => instance.gpu === true,
-			)!
-			if (gpuInstance.status === 'idle') {
-				if (gpuInstance.modelId === request.model) {
-					gpuInstance.lock(request)
-					resolve(gpuInstance)
-					return
-				} else {
-					await this.disposeInstance(gpuInstance)
+	private getCircuitBreaker(modelId: string) {
+		if (!this.circuitBreakers[modelId]) {
+			this.circuitBreakers[modelId] = new CircuitBreaker(
+				this.config.circuitBreaker,
+			)
+		}
+		return this.circuitBreakers[modelId]
+	}
 
-					const newInstance = await this.spawnInstance(request.model, {
-						emit: false,
+	// calls fn until it succeeds or the max attempts are reached, waiting longer after each failure
+	private async retryWithBackoff<T>(
+		instance: ModelInstance,
+		fn: () => Promise<T>,
+		signal: AbortSignal,
+	): Promise<T> {
+		const { maxAttempts, initialDelay, maxDelay } = this.config.retry
+		for (let attempt = 1; ; attempt++) {
+			try {
+				return await fn()
+			} catch (error: any) {
+				if (!signal.aborted) {
+					this.emit('instance.error', {
+						timestamp: Date.now(),
+						model: instance.modelId,
+						instance: instance.id,
+						error: error?.message,
+						attempt,
 					})
-					newInstance.lock(request)
-					resolve(newInstance)
-					return
 				}
+				if (attempt >= maxAttempts || signal.aborted) {
+					throw error
+				}
+				const retryDelay = Math.min(initialDelay * 2 ** (attempt - 1), maxDelay)
+				this.log(LogLevels.warn, 'Instance failed, retrying', {
+					instance: instance.id,
+					attempt,
+					delay: retryDelay,
+					error: error?.message,
+				})
+				await delay(retryDelay, signal)
 			}
+		}
+	}
 
-			// otherwise attach the listener and wait until gpu slot becomes available
-			const listener = async (instance: ModelInstance) => {
-				if (instance.gpu === true && instance.status === 'idle') {
-					if (instance.matchesRequirements(request)) {
-						// model matches whats needed, lock and resolve
-						this.off('release', listener)
-						instance.lock(request)
-						resolve(instance)
-					} else {
-						// model doesnt match, dispose and spawn new instance
-						this.off('release', listener)
-						await this.disposeInstance(instance)
-						const newInstance = await this.spawnInstance(request.model, {
-							emit: false,
-						})
-						newInstance.lock(request)
-						resolve(newInstance)
-					}
+	// removes the failed instance. the model is either respawned, or if it keeps failing,
+	// the circuit opens and requests waiting for the model are rejected.
+	private async handleSpawnFailure(
+		instance: ModelInstance,
+		error: Error,
+		signal: AbortSignal,
+	) {
+		instance.status = 'error'
+		await this.disposeInstance(instance)
+		const modelId = instance.modelId
+		if (signal.aborted || !this.config.models[modelId]) {
+			this.circuitBreakers[modelId]?.cancelAttempt()
+			return
+		}
+		const circuitBreaker = this.getCircuitBreaker(modelId)
+		if (circuitBreaker.recordFailure(error)) {
+			this.log(LogLevels.error, 'Model keeps failing, opening circuit', {
+				model: modelId,
+				failures: circuitBreaker.failures,
+			})
+		}
+		if (circuitBreaker.isOpen()) {
+			const unavailableError = new ModelUnavailableError(
+				`Model ${modelId} is unavailable: ${error.message}`,
+				circuitBreaker.getRetryAfter(),
+			)
+			for (const waiter of [...this.instanceWaiters]) {
+				if (waiter.request.model === modelId) {
+					this.removeInstanceWaiter(waiter)
+					waiter.reject(unavailableError)
 				}
 			}
-			this.on('release', listener)
-			if (signal) {
-				signal.addEventListener('abort', () => {
-					this.off('release', listener)
-					reject(signal.reason)
+			return
+		}
+		// respawn if requests are waiting, or to keep up the min instances
+		const model = this.config.models[modelId]
+		const hasWaiters = this.instanceWaiters.some(
+			(waiter) => waiter.request.model === modelId,
+		)
+		const instanceCount = Object.values(this.instances).filter(
+			(other) => other.modelId === modelId,
+		).length
+		if (
+			(hasWaiters || instanceCount < (model.minInstances ?? 0)) &&
+			this.canSpawnInstance(modelId)
+		) {
+			this.log(LogLevels.info, 'Respawning failed instance', {
+				model: modelId,
+			})
+			this.spawnInstance(modelId).catch((error) => {
+				this.log(LogLevels.debug, 'Failed to respawn instance', {
+					model: modelId,
+					error: error.message,
 				})
+			})
+		}
+	}
+
+	// wait to acquire a gpu instance for the given request on one of the given devices.
+	// instances of other models on these devices will be swapped out.
+	private acquireGpuInstance(
+		request: ModelInstanceRequest,
+		deviceNames: string[],
+		signal?: AbortSignal,
+	): Promise<ModelInstance> {
+		const isOnTargetDevice = (instance: ModelInstance) =>
+			!!instance.gpuDevice && deviceNames.includes(instance.gpuDevice)
+		const takeOver = async (instance?: ModelInstance) => {
+			if (instance?.matchesRequirements(request)) {
+				// model matches whats needed, lock and resolve
+				instance.lock(request)
+				return instance
 			}
-		})
+			// model doesnt match, dispose and spawn new instance
+			if (instance) {
+				this.emit('gpu.swap', {
+					timestamp: Date.now(),
+					device: instance.gpuDevice,
+					from: instance.modelId,
+					to: request.model,
+				})
+				await this.disposeInstance(instance)
+			}
+			const newInstance = await this.spawnInstance(request.model, {
+				emit: false,
+				waitForMemory: true,
+			})
+			newInstance.lock(request)
+			return newInstance
+		}
+
+		// if we have an idle instance on one of the devices we can take it over immediately
+		const idleInstance = Object.values(this.instances).find(
+			(instance) => isOnTargetDevice(instance) && instance.status === 'idle',
+		)
+		if (idleInstance) {
+			return takeOver(idleInstance)
+		}
+
+		// otherwise wait until an instance on the devices is released or disposed
+		return this.waitForInstance(
+			request,
+			{
+				accepts: (instance, event) => {
+					if (!isOnTargetDevice(instance)) {
+						return false
+					}
+					if (event === 'dispose') {
+						const model = this.config.models[request.model]
+						return !!model && !!this.findAvailableGpuDevice(model)
+					}
+					return instance.status === 'idle'
+				},
+				take: (instance, event) =>
+					takeOver(event === 'dispose' ? undefined : instance),
+			},
+			signal,
+		)
 	}
 
 	// wait to acquire an idle instance for the given request
@@ -380,41 +1144,34 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		request: ModelInstanceRequest,
 		signal?: AbortSignal,
 	): Promise<ModelInstance> {
-		return new Promise((resolve, reject) => {
-			const listener = (instance: ModelInstance) => {
-				if (
-					instance.matchesRequirements(request) &&
-					instance.status === 'idle'
-				) {
-					this.off('release', listener)
-					this.off('spawn', listener)
+		return this.waitForInstance(
+			request,
+			{
+				accepts: (instance, event) =>
+					event !== 'dispose' &&
+					instance.status === 'idle' &&
+					instance.matchesRequirements(request),
+				take: async (instance) => {
 					try {
 						instance.lock(request)
-						resolve(instance)
+						return instance
 					} catch (error: any) {
 						this.log(LogLevels.error, 'Error acquiring idle instance', {
 							error,
 						})
-						reject(error)
+						throw error
 					}
-				}
-			}
-			this.on('spawn', listener)
-			this.on('release', listener)
-			if (signal) {
-				signal.addEventListener('abort', () => {
-					this.off('release', listener)
-					this.off('spawn', listener)
-					reject(signal.reason)
-				})
-			}
-		})
+				},
+			},
+			signal,
+		)
 	}
 
 	// acquire an instance for the given request
 	private async acquireInstance(
 		request: ModelInstanceRequest,
 		signal?: AbortSignal,
+		span?: Span,
 	) {
 		if ('messages' in request) {
 			// for chat completions first search for an instance that has the messages already ingested and the context ready
@@ -429,6 +1186,13 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 						instance: instance.id,
 						sequence: request.sequence,
 					})
+					span?.setAttribute('lllms.cache_hit', true)
+					this.emit('cache.hit', {
+						timestamp: Date.now(),
+						model: request.model,
+						sequence: request.sequence,
+						instance: instance.id,
+					})
 					instance.lock(request)
 					return instance
 				}
@@ -438,6 +1202,12 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 				'Cache miss - continue acquiring model instance',
 				{ sequence: request.sequence },
 			)
+			span?.setAttribute('lllms.cache_hit', false)
+			this.emit('cache.miss', {
+				timestamp: Date.now(),
+				model: request.model,
+				sequence: request.sequence,
+			})
 		}
 
 		// prefer an instance of the model that has no context state.
@@ -465,6 +1235,8 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		if (this.canSpawnInstance(request.model)) {
 			const instance = await this.spawnInstance(request.model, {
 				emit: false,
+				waitForMemory: true,
+				requestSignal: signal,
 			})
 			this.log(LogLevels.debug, 'Spawned instance acquired', {
 				instance: instance.id,
@@ -492,17 +1264,31 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 			return lruInstance
 		}
 
-		const requiresGpu = this.config.models[request.model].device?.gpu === true
-		if (requiresGpu && this.gpuLock) {
-			const gpuInstance = Object.values(this.instances).find(
-				(instance) => instance.gpu === true,
-			)!
-
-			if (gpuInstance.modelId !== request.model) {
+		const modelConfig = this.config.models[request.model]
+		if (requiresGpu(modelConfig.device?.gpu)) {
+			const deviceNames = this.getTargetGpuDevices(modelConfig).map(
+				(device) => device.name,
+			)
+			if (!deviceNames.length) {
+				throw new Error(`GPU device not found: ${modelConfig.device?.gpu}`)
+			}
+			// if theres an instance of the model on the devices already, wait for it to be released.
+			// otherwise other models need to make room on one of the devices.
+			const hasDeviceInstance = Object.values(this.instances).some(
+				(instance) =>
+					instance.modelId === request.model &&
+					!!instance.gpuDevice &&
+					deviceNames.includes(instance.gpuDevice),
+			)
+			if (!hasDeviceInstance) {
 				this.log(LogLevels.debug, 'GPU already in use, waiting ...', {
 					sequence: request.sequence,
 				})
-				const instance = await this.acquireGpuInstance(request, signal)
+				const instance = await this.acquireGpuInstance(
+					request,
+					deviceNames,
+					signal,
+				)
 				this.log(LogLevels.debug, 'GPU instance acquired', {
 					instance: instance.id,
 					sequence: request.sequence,
@@ -516,16 +1302,6 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 			}
 		}
 
-		// before starting to wait, make sure sure we're not stuck with an error'd instance (and wait forever)
-		// currently instances only enter error state if prepareInstance throws an error
-		const errorInstance = Object.values(this.instances).find(
-			(instance) =>
-				instance.modelId === request.model && instance.status === 'error',
-		)
-		if (errorInstance) {
-			throw new Error('Instance is in error state')
-		}
-
 		// wait until an instance of our model is released or spawned
 		this.log(LogLevels.debug, 'Awaiting idle instance', {
 			model: request.model,
@@ -545,6 +1321,39 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 		}
 	}
 
+	// throws if the max number of waiting requests is reached, globally or for the model
+	private assertQueueCapacity(modelConfig: ModelConfig, retryAfter: number) {
+		const maxPendingRequests = this.config.maxPendingRequests
+		if (
+			maxPendingRequests !== undefined &&
+			this.pendingRequests.size >= maxPendingRequests
+		) {
+			this.log(LogLevels.warn, 'Rejecting request, queue is full', {
+				model: modelConfig.id,
+				pending: this.pendingRequests.size,
+			})
+			throw new QueueFullError(
+				`Too many pending requests (max ${maxPendingRequests})`,
+				retryAfter,
+			)
+		}
+		if (modelConfig.maxPendingRequests !== undefined) {
+			const modelPendingRequests = [...this.pendingRequests].filter(
+				(request) => request.model === modelConfig.id,
+			).length
+			if (modelPendingRequests >= modelConfig.maxPendingRequests) {
+				this.log(LogLevels.warn, 'Rejecting request, model queue is full', {
+					model: modelConfig.id,
+					pending: modelPendingRequests,
+				})
+				throw new QueueFullError(
+					`Too many pending requests for ${modelConfig.id} (max ${modelConfig.maxPendingRequests})`,
+					retryAfter,
+				)
+			}
+		}
+	}
+
 	private createRequestSequence() {
 		if (this.requestSequence > 999999) {
 			this.requestSequence = 0
@@ -553,66 +1362,192 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 	}
 
 	// requests an language model instance from the pool
-	async requestInstance(
+	requestInstance(
 		incomingRequest: IncomingRequest,
 		signal?: AbortSignal,
+	): Promise<ModelInstanceHandle> {
+		return withSpan(
+			this.tracer,
+			'lllms.requestInstance',
+			{ attributes: { 'lllms.model': incomingRequest.model } },
+			(span) => this.handleInstanceRequest(incomingRequest, span, signal),
+		)
+	}
+
+	private async handleInstanceRequest(
+		incomingRequest: IncomingRequest,
+		span: Span,
+		signal?: AbortSignal,
 	): Promise<ModelInstanceHandle> {
 		if (this.shutdownController.signal.aborted) {
 			throw new Error('Pool is disposed')
 		}
+		if (this.draining) {
+			throw new ShutdownError()
+		}
 		const requestSequence = this.createRequestSequence()
 		const request = {
 			...incomingRequest,
 			sequence: requestSequence,
 			abortController: new AbortController(),
+			enqueuedAt: Date.now(),
 		}
-		if (!this.config.models[request.model]) {
+		span.setAttributes({
+			'lllms.sequence': request.sequence,
+			'lllms.priority': request.priority,
+		})
+		const modelConfig = this.config.models[request.model]
+		if (!modelConfig) {
 			this.log(LogLevels.error, `Model not found: ${request.model}`)
-			throw new Error(`Model not found: ${request.model}`)
+			throw new ModelNotFoundError(request.model)
+		}
+		const queueTimeout = modelConfig.queueTimeout ?? this.config.queueTimeout
+		// by the time the queue timed out, waiting requests have either been served or rejected
+		const retryAfter = queueTimeout ? Math.max(1, Math.ceil(queueTimeout / 1000)) : 1
+		const circuitBreaker = this.getCircuitBreaker(request.model)
+		if (circuitBreaker.isOpen()) {
+			throw new ModelUnavailableError(
+				`Model ${request.model} is unavailable: ${circuitBreaker.lastError?.message}`,
+				circuitBreaker.getRetryAfter(),
+			)
 		}
+		this.assertQueueCapacity(modelConfig, retryAfter)
 
 		this.log(LogLevels.info, 'Incoming request', {
 			model: request.model,
 			sequence: request.sequence,
+			priority: request.priority,
 		})
 
 		this.pendingRequests.add(request)
-		const abortSignal = mergeAbortSignals([
-			request.abortController.signal,
-			signal,
-		])
-		abortSignal.addEventListener('abort', () => {
+		this.emit('request.queued', {
+			timestamp: request.enqueuedAt,
+			model: request.model,
+			sequence: request.sequence,
+			priority: request.priority,
+			pending: this.pendingRequests.size,
+		})
+		const signals = [request.abortController.signal, signal]
+		let queueTimer: NodeJS.Timeout | undefined
+		if (queueTimeout) {
+			const timeoutController = new AbortController()
+			queueTimer = setTimeout(() => {
+				this.log(LogLevels.warn, 'Request timed out waiting for an instance', {
+					model: request.model,
+					sequence: request.sequence,
+					queueTimeout,
+				})
+				timeoutController.abort(
+					new QueueTimeoutError(
+						`Timed out after ${queueTimeout}ms waiting for an instance of ${request.model}`,
+						retryAfter,
+					),
+				)
+			}, queueTimeout)
+			signals.push(timeoutController.signal)
+		}
+		const abortSignal = mergeAbortSignals(signals)
+		const onAbort = () => {
 			this.log(LogLevels.info, 'Request aborted', {
 				model: request.model,
 				sequence: request.sequence,
 			})
+			this.emit('request.aborted', {
+				timestamp: Date.now(),
+				model: request.model,
+				sequence: request.sequence,
+				reason: abortSignal.reason?.message,
+			})
+			this.pendingRequests.delete(request)
+		}
+		abortSignal.addEventListener('abort', onAbort)
+		let instance: ModelInstance
+		try {
+			instance = await withSpan(
+				this.tracer,
+				'lllms.acquireInstance',
+				{},
+				(acquireSpan) => this.acquireInstance(request, abortSignal, acquireSpan),
+			)
+		} finally {
+			clearTimeout(queueTimer)
+			// aborting the signal later cancels tasks, it does not abort the request
+			abortSignal.removeEventListener('abort', onAbort)
 			this.pendingRequests.delete(request)
+		}
+		this.scheduling.onServed?.(request)
+		this.runningRequests.add(request)
+		const queueWaitTime = Date.now() - request.enqueuedAt
+		span.setAttributes({
+			'lllms.instance': instance.id,
+			'lllms.queue_wait_time': queueWaitTime,
+		})
+		this.log(LogLevels.debug, 'Instance acquired', {
+			instance: instance.id,
+			sequence: request.sequence,
+			queueWaitTime,
+		})
+		const acquiredAt = Date.now()
+		this.emit('request.acquired', {
+			timestamp: acquiredAt,
+			model: request.model,
+			sequence: request.sequence,
+			instance: instance.id,
+			queueWaitTime,
 		})
-		const instance = await this.acquireInstance(request, abortSignal)
 
 		// once instance is acquired & locked, we can pass it on to the caller
 		// the queue task promise will be forwarded as releaseInstance
-		let resolveQueueTask: (value: ModelTask) => void = () => {}
+		let releasedTask: ModelTask | undefined
+		let resolveQueueTask: (value: ModelTask) => void = (task) => {
+			// released before the queue task started
+			releasedTask = task
+		}
 
 		this.queue
-			.add((): Promise<ModelTask> => {
-				this.pendingRequests.delete(request)
-				return new Promise((resolve, reject) => {
-					resolveQueueTask = resolve
-				})
-			})
+			.add(
+				(): Promise<ModelTask> => {
+					if (releasedTask) {
+						return Promise.resolve(releasedTask)
+					}
+					return new Promise((resolve, reject) => {
+						resolveQueueTask = resolve
+					})
+				},
+				{ priority: request.priority ?? 0 },
+			)
 			.then((task) => {
 				// if theres more requests waiting, prioritize handling them first
 				if (!this.pendingRequests.size && this.canSpawnInstance(request.model)) {
-					this.spawnInstance(request.model)
+					this.spawnInstance(request.model).catch((error) => {
+						this.log(LogLevels.debug, 'Skipped spawning instance', {
+							model: request.model,
+							error: error.message,
+						})
+					})
 				}
 				if (task?.instance) {
 					this.emit('release', instance)
 				}
 			})
 
-		// TODO what if user never calls release? automatically resolve or reject after a timeout?
-		const releaseInstance = () => {
+		let isReleased = false
+		const releaseInstance = (leaseExpired: boolean = false) => {
+			// releasing twice could unlock an instance that's been handed to another request
+			if (isReleased) {
+				return Promise.resolve()
+			}
+			isReleased = true
+			clearTimeout(leaseTimer)
+			this.runningRequests.delete(request)
+			this.emit('request.completed', {
+				timestamp: Date.now(),
+				model: request.model,
+				sequence: request.sequence,
+				instance: instance.id,
+				duration: Date.now() - acquiredAt,
+				leaseExpired,
+			})
 			return new Promise<void>((resolve, reject) => {
 				process.nextTick(() => {
 					resolveQueueTask({ instance, request })
@@ -620,7 +1555,12 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 						instance: instance.id,
 						sequence: request.sequence,
 					})
-					if (instance.config.ttl === 0) {
+					if (!this.instances[instance.id]) {
+						// instance was already disposed while it was busy
+					} else if (
+						instance.config.ttl === 0 ||
+						this.retiredInstances.has(instance.id)
+					) {
 						this.disposeInstance(instance)
 					} else {
 						instance.unlock()
@@ -630,9 +1570,33 @@ export class ModelPool extends EventEmitter3<ModelPoolEvent> {
 			})
 		}
 
+		// if the handle is never released, cancel its tasks and release it after the lease expired.
+		// whatever the holder did with the instance is unknown, so its context state is reset.
+		const leaseTimeout = modelConfig.leaseTimeout ?? this.config.leaseTimeout
+		let leaseTimer: NodeJS.Timeout | undefined
+		if (leaseTimeout) {
+			leaseTimer = setTimeout(async () => {
+				this.log(LogLevels.warn, 'Lease expired, force releasing instance', {
+					instance: instance.id,
+					sequence: request.sequence,
+					leaseTimeout,
+				})
+				request.abortController.abort(new Error('Lease expired'))
+				await instance.waitForTasks()
+				// the holder may have released it in the meantime
+				if (isReleased) {
+					return
+				}
+				instance.reset()
+				releaseInstance(true)
+			}, leaseTimeout)
+		}
+
 		return {
 			instance,
-			release: releaseInstance,
+			release: () => releaseInstance(),
+			queueWaitTime,
+			[Symbol.asyncDispose]: () => releaseInstance(),
 		}
 	}
 }
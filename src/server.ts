@@ -1,7 +1,9 @@
 import os from 'node:os'
 import path from 'node:path'
+import EventEmitter3 from 'eventemitter3'
+import type { Tracer } from '@opentelemetry/api'
 import { builtInEngineNames } from '#lllms/engines/index.js'
-import { ModelPool } from '#lllms/pool.js'
+import { ModelPool, MemoryLimits, RetryOptions } from '#lllms/pool.js'
 import { ModelInstance } from '#lllms/instance.js'
 import { ModelStore, StoredModel } from '#lllms/store.js'
 import {
@@ -14,23 +16,73 @@ import {
 	ProcessingOptions,
 	TextCompletionRequest,
 	ModelEngine,
+	GpuDevice,
 	ImageToTextRequest,
 	SpeechToTextRequest,
 	SpeechToTextProcessingOptions,
 	BuiltInModelOptions,
 	CustomEngineModelOptions,
-	ModelConfigBase,
+	LifecycleEventListeners,
 } from '#lllms/types/index.js'
-import { Logger, LogLevel, createSublogger, LogLevels } from '#lllms/lib/logger.js'
+import {
+	Logger,
+	LogLevel,
+	LoggerOptions,
+	createSublogger,
+	LogLevels,
+} from '#lllms/lib/logger.js'
 import { resolveModelLocation } from '#lllms/lib/resolveModelLocation.js'
 import { validateModelOptions } from '#lllms/lib/validation.js'
+import { SchedulingOptions } from '#lllms/lib/scheduling.js'
+import { CircuitBreakerOptions } from '#lllms/lib/circuitBreaker.js'
+import { lifecycleEventNames } from '#lllms/lib/lifecycleEvents.js'
+import { noopTracer } from '#lllms/lib/tracing.js'
+import { ModelNotFoundError } from '#lllms/errors.js'
 
 export interface ModelServerOptions {
 	engines?: Record<string, ModelEngine>
 	models: Record<string, ModelOptions>
 	concurrency?: number
+	// max number of requests waiting for an instance, across all models
+	maxPendingRequests?: number
+	// max time in ms a request may wait for an instance
+	queueTimeout?: number
+	// max time in ms an instance may be held before it is force-released
+	leaseTimeout?: number
+	// retries for failed instances and when to stop spawning them
+	retry?: RetryOptions
+	circuitBreaker?: CircuitBreakerOptions
+	// in bytes, either for all instances combined or separately for ram and vram
+	maxMemory?: number | MemoryLimits
+	// defaults to the devices declared by engines, or a single gpu slot
+	gpuDevices?: GpuDevice[]
+	// how waiting requests are prioritized, defaults to priority
+	scheduling?: SchedulingOptions
+	// opentelemetry tracer for request, instance and task spans. tracing is disabled if not set.
+	tracer?: Tracer
 	modelsPath?: string
-	log?: Logger | LogLevel
+	log?: Logger | LogLevel | LoggerOptions
+}
+
+export interface ModelReadiness {
+	ready: boolean
+	status: StoredModel['status']
+	// loaded instances, compared against minInstances
+	instances: number
+	minInstances: number
+	// why the model is not ready
+	reason?: string
+}
+
+export interface ServerReadiness {
+	ready: boolean
+	reason?: string
+	models: Record<string, ModelReadiness>
+}
+
+export interface StopOptions {
+	// time in ms running tasks may take to finish before they are cancelled. defaults to 0.
+	drainTimeout?: number
 }
 
 export function startModelServer(options: ModelServerOptions) {
@@ -39,158 +91,326 @@ export function startModelServer(options: ModelServerOptions) {
 	return server
 }
 
-export class ModelServer {
+export interface RemoveModelOptions {
+	// wait for running tasks to finish before disposing instances. defaults to true.
+	drain?: boolean
+}
+
+// emits the lifecycle events of its pool and store
+export class ModelServer extends EventEmitter3<LifecycleEventListeners> {
 	pool: ModelPool
 	store: ModelStore
 	engines: Record<string, ModelEngine> = {}
 	log: Logger
+	tracer: Tracer
+	private modelsPath: string
+	private modelOptions: Record<string, ModelOptions> = {}
+	private customEngines: Record<string, ModelEngine>
+	private engineLoaders: Record<string, Promise<void>> = {}
+	private started: boolean = false
+	private stopping: boolean = false
 
 	constructor(options: ModelServerOptions) {
+		super()
 		this.log = createSublogger(options.log)
-		const modelsPath =
+		this.tracer = options.tracer ?? noopTracer
+		this.modelsPath =
 			options?.modelsPath || path.resolve(os.homedir(), '.cache/lllms')
+		this.customEngines = options.engines ?? {}
 
-		const modelsWithDefaults: Record<string, ModelConfigBase> = {}
-		const usedEngines: Array<{ model: string; engine: string }> = []
+		const modelsWithDefaults: Record<string, ModelConfig> = {}
 		for (const modelId in options.models) {
-			const modelOptions = options.models[modelId]
-			const isBuiltIn = builtInEngineNames.includes(modelOptions.engine)
-			if (isBuiltIn) {
-				const builtInModelOptions = modelOptions as BuiltInModelOptions;
-				// can validate and resolve location if built-in
-				validateModelOptions(modelId, builtInModelOptions)
-				modelsWithDefaults[modelId] = {
-					id: modelId,
-					minInstances: 0,
-					maxInstances: 1,
-					location: resolveModelLocation(modelsPath, builtInModelOptions),
-					...builtInModelOptions,
-				}
-			} else {
-				const customEngineOptions = modelOptions as CustomEngineModelOptions
-				modelsWithDefaults[modelId] = {
-					id: modelId,
-					minInstances: 0,
-					maxInstances: 1,
-					...customEngineOptions,
-				}
-			}
-			usedEngines.push({
-				model: modelId,
-				engine: modelOptions.engine,
-			})
-		}
-
-		const customEngines = Object.keys(options.engines ?? {})
-		for (const ref of usedEngines) {
-			const isBuiltIn = builtInEngineNames.includes(ref.engine)
-			const isCustom = customEngines.includes(ref.engine)
-			if (!isBuiltIn && !isCustom) {
-				throw new Error(
-					`Engine "${ref.engine}" used by model "${ref.model}" does not exist`,
-				)
-			}
-			if (isCustom) {
-				this.engines[ref.engine] = options.engines![ref.engine]
-			}
+			modelsWithDefaults[modelId] = this.resolveModelConfig(
+				modelId,
+				options.models[modelId],
+			)
+			this.modelOptions[modelId] = options.models[modelId]
 		}
 
 		this.store = new ModelStore({
 			log: this.log,
 			// prepareConcurrency: 2,
 			models: modelsWithDefaults,
-			modelsPath,
+			modelsPath: this.modelsPath,
 		})
 		this.pool = new ModelPool(
 			{
 				log: this.log,
 				concurrency: options.concurrency ?? 1,
+				maxPendingRequests: options.maxPendingRequests,
+				queueTimeout: options.queueTimeout,
+				leaseTimeout: options.leaseTimeout,
+				retry: options.retry,
+				circuitBreaker: options.circuitBreaker,
+				maxMemory: options.maxMemory,
+				gpuDevices: options.gpuDevices,
+				scheduling: options.scheduling,
+				tracer: this.tracer,
 				models: modelsWithDefaults,
 			},
 			this.prepareInstance.bind(this),
 		)
+		for (const eventName of lifecycleEventNames) {
+			const forwardEvent = (event: any) => {
+				this.emit(eventName, event)
+			}
+			this.pool.on(eventName, forwardEvent)
+			this.store.on(eventName, forwardEvent)
+		}
+	}
+
+	// validates model options and applies defaults
+	private resolveModelConfig(modelId: string, modelOptions: ModelOptions) {
+		const isBuiltIn = builtInEngineNames.includes(modelOptions.engine)
+		const isCustom = !!this.customEngines[modelOptions.engine]
+		if (!isBuiltIn && !isCustom) {
+			throw new Error(
+				`Engine "${modelOptions.engine}" used by model "${modelId}" does not exist`,
+			)
+		}
+		if (isBuiltIn) {
+			const builtInModelOptions = modelOptions as BuiltInModelOptions
+			// can validate and resolve location if built-in
+			validateModelOptions(modelId, builtInModelOptions)
+			return {
+				id: modelId,
+				minInstances: 0,
+				maxInstances: 1,
+				location: resolveModelLocation(this.modelsPath, builtInModelOptions),
+				...builtInModelOptions,
+			} as ModelConfig
+		}
+		const customEngineOptions = modelOptions as CustomEngineModelOptions
+		return {
+			id: modelId,
+			minInstances: 0,
+			maxInstances: 1,
+			...customEngineOptions,
+		} as ModelConfig
 	}
 
 	modelExists(modelId: string) {
 		return !!this.pool.config.models[modelId]
 	}
 
-	async start() {
-		const engineStartPromises = []
-		// call startEngine on custom engines
-		for (const [key, methods] of Object.entries(this.engines)) {
-			if (methods.start) {
-				engineStartPromises.push(methods.start(this))
-			}
+	// imports a built-in engine or starts a custom engine, if not done already
+	private loadEngine(key: string) {
+		if (!this.engineLoaders[key]) {
+			this.engineLoaders[key] = (async () => {
+				if (builtInEngineNames.includes(key)) {
+					this.engines[key] = await import(`#lllms/engines/${key}/engine.js`)
+					return
+				}
+				const engine = this.customEngines[key]
+				this.engines[key] = engine
+				if (engine.start) {
+					await engine.start(this)
+				}
+			})()
 		}
-		// import built-in engines
-		for (const key of builtInEngineNames) {
-			// skip unused engines
-			const modelUsingEngine = Object.keys(this.store.models).find(
-				(modelId) => this.store.models[modelId].engine === key,
-			)
-			if (!modelUsingEngine) {
-				continue
+		return this.engineLoaders[key]
+	}
+
+	// imports built-in engines that are used by configured models and starts custom engines
+	private async startEngines() {
+		const usedEngines = new Set(
+			Object.values(this.store.models).map((model) => model.engine),
+		)
+		await Promise.all([...usedEngines].map((key) => this.loadEngine(key)))
+	}
+
+	// adds a model to a running (or not yet started) server
+	async addModel(modelId: string, options: ModelOptions) {
+		if (this.modelExists(modelId)) {
+			throw new Error(`Model "${modelId}" already exists`)
+		}
+		const modelConfig = this.resolveModelConfig(modelId, options)
+		this.log(LogLevels.info, 'Adding model', { model: modelId })
+		if (this.started) {
+			await this.loadEngine(modelConfig.engine)
+		}
+		this.modelOptions[modelId] = options
+		await Promise.all([
+			this.store.addModel(modelConfig),
+			this.pool.addModel(modelConfig),
+		])
+	}
+
+	// removes a model and disposes all of its instances
+	async removeModel(modelId: string, options: RemoveModelOptions = {}) {
+		if (!this.modelExists(modelId)) {
+			throw new Error(`Model "${modelId}" does not exist`)
+		}
+		this.log(LogLevels.info, 'Removing model', { model: modelId })
+		delete this.modelOptions[modelId]
+		await this.pool.removeModel(modelId, { drain: options.drain ?? true })
+		this.store.removeModel(modelId)
+	}
+
+	// merges given options into the models options and replaces its instances.
+	// set a key to undefined to unset it.
+	async updateModel(modelId: string, patch: Partial<ModelOptions>) {
+		if (!this.modelExists(modelId)) {
+			throw new Error(`Model "${modelId}" does not exist`)
+		}
+		const options = {
+			...this.modelOptions[modelId],
+			...patch,
+		} as ModelOptions
+		for (const key in options) {
+			if (options[key as keyof ModelOptions] === undefined) {
+				delete options[key as keyof ModelOptions]
 			}
-			engineStartPromises.push(
-				new Promise(async (resolve, reject) => {
-					try {
-						const engine = await import(`#lllms/engines/${key}/engine.js`)
-						this.engines[key] = engine
-						resolve({
-							key,
-							engine,
-						})
-					} catch (err) {
-						reject(err)
-					}
-				}),
-			)
 		}
-		await Promise.all(engineStartPromises)
+		const modelConfig = this.resolveModelConfig(modelId, options)
+		this.log(LogLevels.info, 'Updating model', { model: modelId })
+		if (this.started) {
+			await this.loadEngine(modelConfig.engine)
+		}
+		this.modelOptions[modelId] = options
+		// new requests will be served by instances using the new config,
+		// while instances using the old config are drained.
+		await Promise.all([
+			this.store.updateModel(modelConfig),
+			this.pool.updateModel(modelConfig),
+		])
+	}
+
+	async start() {
+		this.started = true
+		await this.startEngines()
 		await Promise.all([
 			this.store.init(this.engines),
 			this.pool.init(this.engines),
 		])
 	}
+
+	// downloads and verifies files of all configured models, without spawning any instances
+	async prepareModels() {
+		this.started = true
+		await this.startEngines()
+		await this.store.init(this.engines)
+		// init only takes care of models that need to be ready on startup
+		const unpreparedModels = Object.keys(this.store.models).filter(
+			(modelId) => this.store.models[modelId].status === 'unloaded',
+		)
+		await Promise.all(
+			unpreparedModels.map((modelId) => this.store.prepareModel(modelId)),
+		)
+		// wait for models with prepare=async
+		await this.store.prepareQueue.onIdle()
+	}
+
+	// downloads and verifies the files of a model, resolves to its store status
+	async prepareModel(modelId: string) {
+		if (!this.modelExists(modelId)) {
+			throw new Error(`Model "${modelId}" does not exist`)
+		}
+		await this.loadEngine(this.store.models[modelId].engine)
+		if (this.store.models[modelId].status !== 'preparing') {
+			await this.store.prepareModel(modelId)
+		}
+		return this.store.models[modelId].status
+	}
+
+	// spawns instances of a model until there are count of them, limited by maxInstances
+	async loadModelInstances(modelId: string, count: number) {
+		if (!this.modelExists(modelId)) {
+			throw new Error(`Model "${modelId}" does not exist`)
+		}
+		return this.pool.loadInstances(modelId, count)
+	}
+
+	// disposes an instance, waits for its running tasks to finish first
+	async unloadInstance(instanceId: string) {
+		await this.pool.unloadInstance(instanceId)
+	}
+
+	// clears the context of an instance before it gets used next
+	resetInstance(instanceId: string) {
+		const instance = this.pool.instances[instanceId]
+		if (!instance) {
+			throw new Error(`Instance not found: ${instanceId}`)
+		}
+		instance.reset()
+	}
+
+	// deletes the downloaded files of a model that has no instances loaded
+	async deleteModelFiles(modelId: string) {
+		if (!this.modelExists(modelId)) {
+			throw new Error(`Model "${modelId}" does not exist`)
+		}
+		const hasInstances = Object.values(this.pool.instances).some(
+			(instance) => instance.modelId === modelId,
+		)
+		if (hasInstances) {
+			throw new Error(`Model "${modelId}" has loaded instances`)
+		}
+		await this.store.deleteModelFiles(modelId)
+	}
 	
-	async stop() {
+	// stops accepting requests, waits for running tasks to finish and cancels them after drainTimeout ms.
+	// then disposes all instances and stops preparing models, which releases their file locks.
+	async stop(options: StopOptions = {}) {
 		this.log(LogLevels.info, 'Stopping model server')
-		// TODO pool should be able to keep track of all running task and be able to cancel them.
-		this.pool.queue.clear()
+		this.stopping = true
+		await this.pool.drain(options.drainTimeout)
+		await this.pool.dispose()
 		this.store.dispose()
-		// need to make sure all tasks are canceled, waiting for idle can make stop hang
-		// await this.pool.queue.onIdle() // would wait until all completions are done
-		await this.pool.dispose() // will crash when there are still running tasks
 		this.log(LogLevels.debug, 'Model server stopped')
 	}
 
+	listTasks() {
+		return this.pool.listTasks()
+	}
+
+	getTask(taskId: string) {
+		return this.pool.getTask(taskId)
+	}
+
+	// cancels a running task, returns false if theres none with the id
+	cancelTask(taskId: string) {
+		return this.pool.cancelTask(taskId)
+	}
+
 	async requestInstance(request: IncomingRequest, signal?: AbortSignal) {
 		return this.pool.requestInstance(request, signal)
 	}
 
 	// gets called by the pool right before a new instance is created
+	// resolves to the model meta once its ready
 	private async prepareInstance(instance: ModelInstance, signal?: AbortSignal) {
 		const model = instance.config
-		const modelStoreStatus = this.store.models[model.id].status
-		if (modelStoreStatus === 'unloaded') {
-			await this.store.prepareModel(model.id, signal)
-		}
-		if (modelStoreStatus === 'preparing') {
-			const modelReady = new Promise<void>((resolve, reject) => {
-				const onCompleted = async (storeModel: StoredModel) => {
-					if (storeModel.id === model.id) {
-						this.store.prepareQueue.off('completed', onCompleted)
-						if (storeModel.status === 'ready') {
+		// the store entry is replaced if the source of the model changes while it is prepared,
+		// so this repeats until the current entry is ready
+		while (true) {
+			const storedModel = this.store.models[model.id]
+			if (!storedModel) {
+				throw new ModelNotFoundError(model.id)
+			}
+			if (storedModel.status === 'ready') {
+				return storedModel.meta
+			}
+			if (storedModel.status === 'preparing') {
+				await new Promise<void>((resolve) => {
+					const onCompleted = (completedModel: StoredModel) => {
+						if (completedModel === storedModel) {
+							this.store.prepareQueue.off('completed', onCompleted)
 							resolve()
-						} else {
-							reject()
 						}
 					}
-				}
-				this.store.prepareQueue.on('completed', onCompleted)
-			})
-			await modelReady
+					this.store.prepareQueue.on('completed', onCompleted)
+				})
+			} else {
+				// models that failed to prepare before are retried
+				await this.store.prepareModel(model.id, signal)
+			}
+			if (
+				this.store.models[model.id] === storedModel &&
+				storedModel.status === 'error'
+			) {
+				throw new Error(`Failed to prepare model: ${model.id}`)
+			}
 		}
 	}
 
@@ -199,10 +419,13 @@ export class ModelServer {
 		options?: CompletionProcessingOptions,
 	) {
 		const lock = await this.requestInstance(args)
-		const task = lock.instance.processChatCompletionTask(args, options)
-		const result = await task.result
-		await lock.release()
-		return result
+		// release even if the task fails or is cancelled, so the instance doesnt stay busy
+		try {
+			const task = lock.instance.processChatCompletionTask(args, options)
+			return await task.result
+		} finally {
+			await lock.release()
+		}
 	}
 
 	async processTextCompletionTask(
@@ -210,10 +433,12 @@ export class ModelServer {
 		options?: CompletionProcessingOptions,
 	) {
 		const lock = await this.requestInstance(args)
-		const task = lock.instance.processTextCompletionTask(args, options)
-		const result = await task.result
-		await lock.release()
-		return result
+		try {
+			const task = lock.instance.processTextCompletionTask(args, options)
+			return await task.result
+		} finally {
+			await lock.release()
+		}
 	}
 
 	async processEmbeddingTask(
@@ -221,10 +446,12 @@ export class ModelServer {
 		options?: ProcessingOptions,
 	) {
 		const lock = await this.requestInstance(args)
-		const task = lock.instance.processEmbeddingTask(args, options)
-		const result = await task.result
-		await lock.release()
-		return result
+		try {
+			const task = lock.instance.processEmbeddingTask(args, options)
+			return await task.result
+		} finally {
+			await lock.release()
+		}
 	}
 	
 	async processImageToTextTask(
@@ -232,10 +459,12 @@ export class ModelServer {
 		options?: ProcessingOptions,
 	) {
 		const lock = await this.requestInstance(args)
-		const task = lock.instance.processImageToTextTask(args, options)
-		const result = await task.result
-		await lock.release()
-		return result
+		try {
+			const task = lock.instance.processImageToTextTask(args, options)
+			return await task.result
+		} finally {
+			await lock.release()
+		}
 	}
 
 	async processSpeechToTextTask(
@@ -243,10 +472,65 @@ export class ModelServer {
 		options?: SpeechToTextProcessingOptions,
 	) {
 		const lock = await this.requestInstance(args)
-		const task = lock.instance.processSpeechToTextTask(args, options)
-		const result = await task.result
-		await lock.release()
-		return result
+		try {
+			const task = lock.instance.processSpeechToTextTask(args, options)
+			return await task.result
+		} finally {
+			await lock.release()
+		}
+	}
+
+	// a model is ready once its files are prepared and its minInstances are loaded.
+	// models that are prepared on demand are ready as long as preparing them did not fail.
+	getModelReadiness(modelId: string): ModelReadiness {
+		const model = this.store.models[modelId]
+		const minInstances = model.minInstances ?? 0
+		const instances = Object.values(this.pool.instances).filter(
+			(instance) =>
+				instance.modelId === modelId &&
+				(instance.status === 'idle' || instance.status === 'busy'),
+		).length
+		const readiness = {
+			ready: false,
+			status: model.status,
+			instances,
+			minInstances,
+		}
+		if (model.status === 'error') {
+			return { ...readiness, reason: 'Failed to prepare model' }
+		}
+		if (model.status === 'preparing') {
+			return { ...readiness, reason: 'Model is being prepared' }
+		}
+		const preparesOnStart =
+			model.prepare === 'blocking' ||
+			model.prepare === 'async' ||
+			minInstances > 0
+		if (model.status === 'unloaded' && preparesOnStart) {
+			return { ...readiness, reason: 'Model is not prepared yet' }
+		}
+		if (instances < minInstances) {
+			return { ...readiness, reason: 'Instances are not loaded yet' }
+		}
+		return { ...readiness, ready: true }
+	}
+
+	// readiness of the given models, or all models if none are given
+	getReadiness(modelIds: string[] = Object.keys(this.store.models)) {
+		const models = Object.fromEntries(
+			modelIds.map((modelId) => [modelId, this.getModelReadiness(modelId)]),
+		)
+		const readiness: ServerReadiness = {
+			ready: Object.values(models).every((model) => model.ready),
+			models,
+		}
+		if (!this.started) {
+			return { ...readiness, ready: false, reason: 'Server is not started' }
+		}
+		if (this.stopping) {
+			return { ...readiness, ready: false, reason: 'Server is shutting down' }
+		}
+		return readiness
 	}
 
 	getStatus() {
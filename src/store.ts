@@ -1,17 +1,23 @@
 import { promises as fs, existsSync } from 'node:fs'
+import path from 'node:path'
 import PQueue from 'p-queue'
+import EventEmitter3 from 'eventemitter3'
 import {
 	FileDownloadProgress,
 	ModelConfig,
 	ModelEngine,
+	ResourceEstimate,
+	LifecycleEventListeners,
 } from '#lllms/types/index.js'
 import {
 	Logger,
 	LogLevels,
 	LogLevel,
+	LoggerOptions,
 	createSublogger,
 } from '#lllms/lib/logger.js'
 import { mergeAbortSignals } from '#lllms/lib/util.js'
+import { ModelNotFoundError } from '#lllms/errors.js'
 
 interface ModelFile {
 	size: number
@@ -22,24 +28,30 @@ export interface StoredModel extends ModelConfig {
 	downloads?: Map<string, DownloadTracker>
 	files?: Map<string, ModelFile>
 	status: 'unloaded' | 'preparing' | 'ready' | 'error'
+	// expected memory use of a single instance, available once the model is ready
+	resources?: ResourceEstimate
 }
 
 export interface ModelStoreOptions {
 	modelsPath: string
 	models: Record<string, ModelConfig>
 	prepareConcurrency?: number
-	log?: Logger | LogLevel
+	log?: Logger | LogLevel | LoggerOptions
 }
 
-export class ModelStore {
+// emits the download lifecycle events
+export class ModelStore extends EventEmitter3<LifecycleEventListeners> {
 	prepareQueue: PQueue
 	models: Record<string, StoredModel> = {}
 	engines?: Record<string, ModelEngine>
 	private prepareController: AbortController
+	// per model, so removing a model stops its downloads
+	private modelPrepareControllers = new Map<string, AbortController>()
 	private modelsPath: string
 	private log: Logger
 
 	constructor(options: ModelStoreOptions) {
+		super()
 		this.prepareController = new AbortController()
 		this.log = createSublogger(options.log)
 		this.prepareQueue = new PQueue({
@@ -65,16 +77,103 @@ export class ModelStore {
 
 		const blockingPromises = []
 		for (const modelId in this.models) {
-			const model = this.models[modelId]
-			if (model.prepare === 'blocking' || model.minInstances > 0) {
-				blockingPromises.push(this.prepareModel(modelId))
-			} else if (model.prepare === 'async') {
-				this.prepareModel(modelId)
-			}
+			blockingPromises.push(this.prepareModelOnInit(modelId))
 		}
 		await Promise.all(blockingPromises)
 	}
 
+	// prepares the model according to its prepare option, resolves once blocking preparation is done
+	private async prepareModelOnInit(modelId: string) {
+		const model = this.models[modelId]
+		if (model.prepare === 'blocking' || model.minInstances > 0) {
+			await this.prepareModel(modelId)
+		} else if (model.prepare === 'async') {
+			this.prepareModel(modelId)
+		}
+	}
+
+	// adds a model to the store, preparing it if the store is initialized
+	async addModel(model: ModelConfig) {
+		if (this.models[model.id]) {
+			throw new Error(`Model already exists: ${model.id}`)
+		}
+		this.models[model.id] = {
+			...model,
+			status: 'unloaded',
+		}
+		if (this.engines) {
+			await this.prepareModelOnInit(model.id)
+		}
+	}
+
+	// replaces the config of a model. if its files are unchanged, it stays ready.
+	async updateModel(model: ModelConfig) {
+		const storedModel = this.models[model.id]
+		if (!storedModel) {
+			throw new ModelNotFoundError(model.id)
+		}
+		const isSameSource =
+			storedModel.engine === model.engine &&
+			storedModel.location === model.location &&
+			storedModel.url === model.url
+		if (isSameSource && storedModel.status !== 'error') {
+			// update in place, so a running preparation applies to the updated model
+			const storeState = ['status', 'meta', 'downloads', 'files', 'resources']
+			for (const key in storedModel) {
+				if (!(key in model) && !storeState.includes(key)) {
+					delete storedModel[key as keyof StoredModel]
+				}
+			}
+			Object.assign(storedModel, model)
+			if (storedModel.status === 'ready') {
+				storedModel.resources = await this.estimateResources(storedModel)
+			}
+			return
+		}
+		this.removeModel(model.id)
+		await this.addModel(model)
+	}
+
+	removeModel(modelId: string) {
+		// so running downloads dont keep writing files of a model that no longer exists
+		this.modelPrepareControllers.get(modelId)?.abort()
+		this.modelPrepareControllers.delete(modelId)
+		delete this.models[modelId]
+	}
+
+	// removes the files of a model, they will be downloaded again on the next prepare.
+	// only files within the models path are deleted.
+	async deleteModelFiles(modelId: string) {
+		const model = this.models[modelId]
+		if (!model) {
+			throw new ModelNotFoundError(modelId)
+		}
+		if (model.status === 'preparing') {
+			throw new Error(`Model is being prepared: ${modelId}`)
+		}
+		if (!model.location) {
+			throw new Error(`Model has no location: ${modelId}`)
+		}
+		const relativeLocation = path.relative(this.modelsPath, model.location)
+		if (
+			!relativeLocation ||
+			relativeLocation.startsWith('..') ||
+			path.isAbsolute(relativeLocation)
+		) {
+			throw new Error(`Model location is outside of models path: ${modelId}`)
+		}
+		this.log(LogLevels.info, 'Deleting model files', {
+			model: modelId,
+			location: model.location,
+		})
+		await fs.rm(model.location + '.lock', { force: true })
+		await fs.rm(model.location, { recursive: true, force: true })
+		model.status = 'unloaded'
+		delete model.meta
+		delete model.files
+		delete model.resources
+	}
+
 	dispose() {
 		this.prepareController.abort()
 	}
@@ -84,18 +183,47 @@ export class ModelStore {
 		progress: { file: string; loadedBytes: number; totalBytes: number },
 	) {
 		const model = this.models[modelId]
+		if (!model) {
+			// model has been removed while downloading
+			return
+		}
 		if (!model.downloads) {
 			model.downloads = new Map()
 		}
+		const now = Date.now()
 		if (progress.totalBytes && progress.totalBytes === progress.loadedBytes) {
+			const tracker = model.downloads.get(progress.file)
 			model.downloads.delete(progress.file)
+			this.emit('download.done', {
+				timestamp: now,
+				model: modelId,
+				file: progress.file,
+				totalBytes: progress.totalBytes,
+				duration: tracker ? now - tracker.startedAt : 0,
+			})
 		} else if (model.downloads.has(progress.file)) {
 			const tracker = model.downloads.get(progress.file)!
 			tracker.pushProgress(progress)
+			// progress is reported for every chunk, only emit it once per second
+			if (now - tracker.lastEmittedAt >= 1000) {
+				tracker.lastEmittedAt = now
+				this.emit('download.progress', {
+					timestamp: now,
+					model: modelId,
+					file: progress.file,
+					loadedBytes: progress.loadedBytes,
+					totalBytes: progress.totalBytes,
+				})
+			}
 		} else {
 			const tracker = new DownloadTracker(5000)
 			tracker.pushProgress(progress)
 			model.downloads.set(progress.file, tracker)
+			this.emit('download.start', {
+				timestamp: now,
+				model: modelId,
+				file: progress.file,
+			})
 		}
 	}
 
@@ -106,6 +234,14 @@ export class ModelStore {
 		if (!this.engines) {
 			throw new Error('No engines available - did you call init()?')
 		}
+		if (!model) {
+			throw new ModelNotFoundError(modelId)
+		}
+		let modelPrepareController = this.modelPrepareControllers.get(modelId)
+		if (!modelPrepareController) {
+			modelPrepareController = new AbortController()
+			this.modelPrepareControllers.set(modelId, modelPrepareController)
+		}
 		model.status = 'preparing'
 		const engine = this.engines[model.engine]
 		this.log(LogLevels.info, 'Preparing model', {
@@ -114,6 +250,10 @@ export class ModelStore {
 		})
 
 		await this.prepareQueue.add(async () => {
+			if (modelPrepareController.signal.aborted) {
+				// removed while waiting in the queue
+				return model
+			}
 			if (!('prepareModel' in engine)) {
 				model.status = 'ready'
 				return model
@@ -142,9 +282,14 @@ export class ModelStore {
 					(progress) => {
 						this.onDownloadProgress(model.id, progress)
 					},
-					mergeAbortSignals([signal, this.prepareController.signal]),
+					mergeAbortSignals([
+						signal,
+						this.prepareController.signal,
+						modelPrepareController.signal,
+					]),
 				)
 				model.meta = modelMeta
+				model.resources = await this.estimateResources(model)
 				model.status = 'ready'
 				this.log(LogLevels.info, 'Model ready', {
 					model: modelId,
@@ -155,6 +300,13 @@ export class ModelStore {
 					model: modelId,
 					error: error,
 				})
+				if (model.downloads?.size) {
+					this.emit('download.failed', {
+						timestamp: Date.now(),
+						model: modelId,
+						error: (error as Error)?.message,
+					})
+				}
 				model.status = 'error'
 			} finally {
 				clearInterval(logProgressInterval)
@@ -163,6 +315,31 @@ export class ModelStore {
 		})
 	}
 
+	private async estimateResources(model: StoredModel) {
+		const engine = this.engines![model.engine]
+		if (!engine.estimateResources) {
+			return undefined
+		}
+		// estimate for the device an instance would most likely use
+		const gpu =
+			model.device?.gpu === undefined || model.device.gpu === 'auto'
+				? !!engine.autoGpu
+				: !!model.device.gpu
+		try {
+			return await engine.estimateResources({
+				config: { ...model, device: { ...model.device, gpu } },
+				meta: model.meta,
+				log: this.log,
+			})
+		} catch (error) {
+			this.log(LogLevels.warn, 'Failed to estimate resources', {
+				model: model.id,
+				error,
+			})
+			return undefined
+		}
+	}
+
 	getStatus() {
 		const formatFloat = (num?: number) => parseFloat(num?.toFixed(2) || '0')
 		const storeStatusInfo = Object.fromEntries(
@@ -196,6 +373,7 @@ export class ModelStore {
 						minInstances: model.minInstances,
 						maxInstances: model.maxInstances,
 						status: model.status,
+						resources: model.resources,
 						downloads,
 					},
 				]
@@ -221,6 +399,8 @@ type DownloadStatus = {
 
 class DownloadTracker {
 	progressBuffer: ProgressState[] = []
+	startedAt: number = Date.now()
+	lastEmittedAt: number = Date.now()
 	private timeWindow: number
 
 	constructor(timeWindow: number = 1000) {
@@ -0,0 +1,132 @@
+import type { ModelInstanceTask } from '#lllms/types/index.js'
+
+// lifecycle events emitted by ModelPool, ModelStore and ModelServer.
+// all timestamps are in ms since epoch, durations in ms.
+
+interface LifecycleEventBase {
+	timestamp: number
+}
+
+interface RequestEventBase extends LifecycleEventBase {
+	model: string
+	sequence: number
+}
+
+interface InstanceEventBase extends LifecycleEventBase {
+	model: string
+	instance: string
+}
+
+export interface RequestQueuedEvent extends RequestEventBase {
+	priority?: number
+	// number of requests waiting for an instance, including this one
+	pending: number
+}
+
+export interface RequestAcquiredEvent extends RequestEventBase {
+	instance: string
+	queueWaitTime: number
+}
+
+export interface RequestCompletedEvent extends RequestEventBase {
+	instance: string
+	// time the instance was held
+	duration: number
+	// true if the instance was released because the lease expired
+	leaseExpired: boolean
+}
+
+export interface RequestAbortedEvent extends RequestEventBase {
+	reason?: string
+}
+
+export interface TaskCompletedEvent extends InstanceEventBase {
+	task: string
+	type: ModelInstanceTask['type']
+	sequence?: number
+	// set for requests authenticated with a labeled api key
+	tenant?: string
+	duration: number
+	// set if the task failed or got cancelled
+	error?: string
+	promptTokens?: number
+	completionTokens?: number
+}
+
+export interface InstanceSpawnEvent extends InstanceEventBase {
+	gpuDevice?: string
+}
+
+export interface InstanceLoadEvent extends InstanceEventBase {
+	// time since the instance was spawned, including preparing the model
+	duration: number
+}
+
+export interface InstanceDisposeEvent extends InstanceEventBase {}
+
+export interface InstanceErrorEvent extends InstanceEventBase {
+	error: string
+	attempt: number
+}
+
+export interface CacheHitEvent extends RequestEventBase {
+	instance: string
+}
+
+export interface CacheMissEvent extends RequestEventBase {}
+
+export interface GpuSwapEvent extends LifecycleEventBase {
+	device?: string
+	// model of the instance that got disposed to make room
+	from: string
+	to: string
+}
+
+export interface DownloadStartEvent extends LifecycleEventBase {
+	model: string
+	file: string
+}
+
+export interface DownloadProgressEvent extends LifecycleEventBase {
+	model: string
+	file: string
+	loadedBytes: number
+	totalBytes: number
+}
+
+export interface DownloadDoneEvent extends LifecycleEventBase {
+	model: string
+	file: string
+	totalBytes: number
+	duration: number
+}
+
+export interface DownloadFailedEvent extends LifecycleEventBase {
+	model: string
+	error: string
+}
+
+export interface LifecycleEvents {
+	'request.queued': RequestQueuedEvent
+	'request.acquired': RequestAcquiredEvent
+	'request.completed': RequestCompletedEvent
+	'request.aborted': RequestAbortedEvent
+	'task.completed': TaskCompletedEvent
+	'instance.spawn': InstanceSpawnEvent
+	'instance.load': InstanceLoadEvent
+	'instance.dispose': InstanceDisposeEvent
+	'instance.error': InstanceErrorEvent
+	'cache.hit': CacheHitEvent
+	'cache.miss': CacheMissEvent
+	'gpu.swap': GpuSwapEvent
+	'download.start': DownloadStartEvent
+	'download.progress': DownloadProgressEvent
+	'download.done': DownloadDoneEvent
+	'download.failed': DownloadFailedEvent
+}
+
+export type LifecycleEventName = keyof LifecycleEvents
+
+export type LifecycleEventListeners = {
+	[K in LifecycleEventName]: (event: LifecycleEvents[K]) => void
+}
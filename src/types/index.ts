@@ -12,6 +12,7 @@ import {
 	TextCompletionPreloadOptions,
 } from '#lllms/types/completions.js'
 export * from '#lllms/types/completions.js'
+export * from '#lllms/types/events.js'
 
 export type ModelTaskType =
 	| 'text-completion'
@@ -25,6 +26,14 @@ export interface ModelOptionsBase {
 	prepare?: 'blocking' | 'async' | 'on-demand'
 	minInstances?: number
 	maxInstances?: number
+	// idle instances are disposed after this many seconds
+	ttl?: number
+	// max number of requests waiting for an instance of this model
+	maxPendingRequests?: number
+	// max time in ms a request may wait for an instance of this model
+	queueTimeout?: number
+	// max time in ms a request may hold an instance of this model before it is force-released
+	leaseTimeout?: number
 }
 
 export interface BuiltInModelOptionsBase extends ModelOptionsBase {
@@ -50,16 +59,33 @@ export interface ModelConfig extends ModelConfigBase {
 	ttl?: number
 	preload?: TextCompletionPreloadOptions
 	device?: {
-		gpu?: boolean | 'auto' | string & {}
+		// true to require any gpu, or a device index or name to target a specific device
+		gpu?: boolean | number | 'auto' | string & {}
+		// passed to engines, the name of the gpu device an instance has been placed on
+		gpuDevice?: string
 		// gpuLayers?: number
 		// cpuThreads?: number
 		// memLock?: boolean
 	}
 }
 
+export interface TopTokenLogprob {
+	token: string
+	logprob: number
+}
+
+export interface TokenLogprob extends TopTokenLogprob {
+	// the most likely alternatives at this position, if requested
+	topLogprobs?: TopTokenLogprob[]
+}
+
 export interface CompletionChunk {
 	tokens: number[]
 	text: string
+	// the choice the chunk belongs to, if multiple are generated
+	index?: number
+	// one entry per token of the chunk, if requested
+	logprobs?: TokenLogprob[]
 }
 
 export interface ProcessingOptions {
@@ -84,9 +110,33 @@ export interface EngineContext<
 	log: Logger
 }
 
-export interface TextCompletionRequestBase extends TextCompletionParams {
+// expected memory use of a model instance, in bytes
+export interface ResourceEstimate {
+	ram: number
+	vram: number
+}
+
+// used by the pools scheduling policy to decide which waiting request is served next
+export interface RequestSchedulingParams {
+	// higher priority requests are served first, defaults to 0
+	priority?: number
+	// used by the weighted-fair policy to share instances between tenants
+	tenant?: string
+}
+
+export interface TextCompletionRequestBase
+	extends TextCompletionParams,
+		RequestSchedulingParams {
 	model: string
 	stream?: boolean
+	// number of choices to generate
+	n?: number
+	// generates this many choices and returns the n with the highest cumulative logprob
+	bestOf?: number
+	// return the logprobs of the generated tokens
+	logprobs?: boolean
+	// number of most likely alternatives to return for each token
+	topLogprobs?: number
 }
 
 export interface TextCompletionRequest extends TextCompletionRequestBase {
@@ -99,13 +149,13 @@ export interface ChatCompletionRequest extends TextCompletionRequestBase {
 	tools?: Record<string, ToolDefinition>
 }
 
-export interface EmbeddingRequest {
+export interface EmbeddingRequest extends RequestSchedulingParams {
 	model: string
 	input: string | string[] | number[] | number[][]
 	dimensions?: number
 }
 
-export interface ImageToTextRequest {
+export interface ImageToTextRequest extends RequestSchedulingParams {
 	model: string
 	url?: string
 	file?: string
@@ -113,18 +163,48 @@ export interface ImageToTextRequest {
 	maxTokens?: number
 }
 
-export interface SpeechToTextRequest {
+export interface SpeechToTextRequest extends RequestSchedulingParams {
 	model: string
 	url?: string
 	file?: string
+	// translate outputs english text, defaults to transcribe
+	task?: 'transcribe' | 'translate'
+	// language spoken in the audio
 	language?: string
 	prompt?: string
 	maxTokens?: number
 }
 
+// a task running on a model instance
+export interface ModelInstanceTask {
+	id: string
+	type:
+		| 'chat-completion'
+		| 'text-completion'
+		| 'embedding'
+		| 'image-to-text'
+		| 'speech-to-text'
+	model: string
+	instance: string
+	sequence?: number
+	createdAt: Date
+	cancel: () => void
+}
+
+// returned by ModelInstance when a task is started
+export interface ModelInstanceTaskHandle {
+	id: string
+	model: string
+	createdAt: Date
+	cancel: () => void
+	result: Promise<unknown>
+}
+
 export interface ModelRequestMeta {
 	sequence: number
 	abortController: AbortController
+	// timestamp in ms of when the request arrived at the pool
+	enqueuedAt: number
 }
 export type IncomingRequest =
 	| TextCompletionRequest
@@ -179,6 +259,14 @@ export interface FileDownloadProgress {
 	totalBytes: number
 }
 
+export interface GpuDevice {
+	name: string
+	// how many instances can share the device. defaults to 1 if vram is unknown.
+	slots?: number
+	// in bytes. if known, instances are placed according to their estimated resources.
+	vram?: number
+}
+
 export interface EngineStartContext {
 	pool: ModelPool
 	store: ModelStore
@@ -190,6 +278,9 @@ export interface ModelEngine<
 	TModelMeta = unknown,
 > {
 	autoGpu?: boolean
+	// requests that need these are rejected before the engine is called
+	supportsLogprobs?: boolean
+	supportsChoices?: boolean
 	start?: (ctx: EngineStartContext) => Promise<void>
 	prepareModel: (
 		ctx: EngineContext<TModelConfig, TModelMeta>,
@@ -201,6 +292,10 @@ export interface ModelEngine<
 		signal?: AbortSignal,
 	) => Promise<TInstance>
 	disposeInstance: (instance: TInstance) => Promise<void>
+	estimateResources?: (
+		ctx: EngineContext<TModelConfig, TModelMeta>,
+	) => Promise<ResourceEstimate>
+	getGpuDevices?: () => Promise<GpuDevice[]>
 	processChatCompletionTask?: (
 		args: EngineChatCompletionArgs<TModelConfig, TModelMeta>,
 		instance: TInstance,
@@ -251,7 +346,7 @@ interface LlamaCppModelOptionsBase extends BuiltInModelOptionsBase {
 	file?: string
 	batchSize?: number
 	device?: {
-		gpu?: boolean | 'auto' | (string & {})
+		gpu?: boolean | number | 'auto' | (string & {})
 		gpuLayers?: number
 		cpuThreads?: number
 		memLock?: boolean
@@ -272,7 +367,7 @@ interface GPT4AllModelOptions extends BuiltInModelOptionsBase {
 	file?: string
 	md5?: string
 	device?: {
-		gpu?: boolean | 'auto' | (string & {})
+		gpu?: boolean | number | 'auto' | (string & {})
 		gpuLayers?: number
 		cpuThreads?: number
 	}
@@ -290,7 +385,7 @@ interface TransformersJsModelOptions extends BuiltInModelOptionsBase {
 	modelClass: any
 	dtype: Record<string, string> | string
 	device?: {
-		gpu?: boolean | 'auto' | (string & {})
+		gpu?: boolean | number | 'auto' | (string & {})
 	}
 }
 
@@ -316,17 +411,33 @@ export interface ChatCompletionResult extends EngineChatCompletionResult {
 	model: string
 }
 
-export interface EngineChatCompletionResult {
+export interface ChatCompletionChoice {
 	message: AssistantMessage
 	finishReason: CompletionFinishReason
+	// sum of the logprobs of the generated tokens, if the engine provides them
+	logprob?: number
+	logprobs?: TokenLogprob[]
+}
+
+export interface TextCompletionChoice {
+	text: string
+	finishReason?: CompletionFinishReason
+	logprob?: number
+	logprobs?: TokenLogprob[]
+}
+
+// with n > 1 engines return all choices. the top level message or text is the choice
+// the engine keeps in its context, if it keeps any.
+// completion tokens are summed across choices, prompt tokens are counted once.
+export interface EngineChatCompletionResult extends ChatCompletionChoice {
+	choices?: ChatCompletionChoice[]
 	promptTokens: number
 	completionTokens: number
 	totalTokens: number
 }
 
-export interface EngineTextCompletionResult {
-	text: string
-	finishReason?: CompletionFinishReason
+export interface EngineTextCompletionResult extends TextCompletionChoice {
+	choices?: TextCompletionChoice[]
 	promptTokens: number
 	completionTokens: number
 	totalTokens: number
@@ -336,6 +447,17 @@ export interface EngineImageToTextResult {
 	text: string
 }
 
+export interface SpeechToTextSegment {
+	// in seconds
+	start: number
+	end: number
+	text: string
+}
+
 export interface EngineSpeechToTextResult {
 	text: string
+	language?: string
+	// length of the audio in seconds
+	duration?: number
+	segments?: SpeechToTextSegment[]
 }
@@ -0,0 +1,166 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import type { AddressInfo } from 'node:net'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { ModelEngine } from '#lllms/types/index.js'
+
+const echoEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request }) {
+		return {
+			text: request.prompt ?? '',
+			promptTokens: 1,
+			completionTokens: 1,
+			totalTokens: 2,
+		}
+	},
+}
+
+suite('admin api', () => {
+	const token = 'secret'
+	const modelsPath = fs.mkdtempSync(path.join(os.tmpdir(), 'lllms-admin-'))
+	const modelFile = path.join(modelsPath, 'model.gguf')
+	let server: ModelHTTPServer
+	let baseURL: string
+
+	const adminRequest = (
+		method: string,
+		pathname: string,
+		body?: object,
+		authToken = token,
+	) => {
+		return fetch(`${baseURL}/admin${pathname}`, {
+			method,
+			headers: {
+				'Content-Type': 'application/json',
+				Authorization: `Bearer ${authToken}`,
+			},
+			body: body ? JSON.stringify(body) : undefined,
+		})
+	}
+
+	beforeAll(async () => {
+		fs.writeFileSync(modelFile, 'weights')
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			modelsPath,
+			engines: { echo: echoEngine },
+			admin: { token },
+			models: {
+				test: {
+					engine: 'echo',
+					task: 'text-completion',
+					maxInstances: 2,
+				},
+				stored: {
+					engine: 'echo',
+					task: 'text-completion',
+					location: modelFile,
+				},
+			},
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		baseURL = `http://localhost:${port}`
+	})
+
+	afterAll(async () => {
+		await server.close()
+		fs.rmSync(modelsPath, { recursive: true, force: true })
+	})
+
+	it('requires the token', async () => {
+		const response = await adminRequest(
+			'POST',
+			'/models/test/load',
+			{},
+			'wrong',
+		)
+		expect(response.status).toBe(401)
+	})
+
+	it('loads instances up to maxInstances', async () => {
+		const response = await adminRequest('POST', '/models/test/load', {
+			count: 3,
+		})
+		expect(response.status).toBe(200)
+		const body = await response.json()
+		expect(body.instances).toHaveLength(2)
+		expect(body.instances[0].status).toBe('idle')
+	})
+
+	it('resets and unloads instances', async () => {
+		const [instanceId] = Object.keys(server.modelServer.pool.instances)
+		const resetResponse = await adminRequest(
+			'POST',
+			`/instances/${instanceId}/reset`,
+		)
+		expect(resetResponse.status).toBe(200)
+		const unloadResponse = await adminRequest(
+			'POST',
+			`/instances/${instanceId}/unload`,
+		)
+		expect(unloadResponse.status).toBe(200)
+		expect(server.modelServer.pool.instances[instanceId]).toBeUndefined()
+		const missingResponse = await adminRequest(
+			'POST',
+			`/instances/${instanceId}/unload`,
+		)
+		expect(missingResponse.status).toBe(404)
+	})
+
+	it('prepares models and deletes their files', async () => {
+		const prepareResponse = await adminRequest('POST', '/models/stored/prepare')
+		expect(prepareResponse.status).toBe(202)
+		await server.modelServer.store.prepareQueue.onIdle()
+		expect(server.modelServer.store.models.stored.status).toBe('ready')
+		const deleteResponse = await adminRequest('DELETE', '/models/stored/files')
+		expect(deleteResponse.status).toBe(200)
+		expect(fs.existsSync(modelFile)).toBe(false)
+		expect(server.modelServer.store.models.stored.status).toBe('unloaded')
+	})
+
+	it('refuses to delete files of loaded models', async () => {
+		const response = await adminRequest('DELETE', '/models/test/files')
+		expect(response.status).toBe(409)
+	})
+})
+
+suite('admin api on a separate address', () => {
+	let server: ModelHTTPServer
+
+	beforeAll(async () => {
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			admin: { listen: { port: 0, host: '127.0.0.1' } },
+			engines: { echo: echoEngine },
+			models: {
+				test: { engine: 'echo', task: 'text-completion' },
+			},
+		})
+	})
+
+	afterAll(async () => {
+		await server.close()
+	})
+
+	it('is only served on the admin address', async () => {
+		const { port } = server.httpServer.address() as AddressInfo
+		const { port: adminPort } = server.adminServer!.address() as AddressInfo
+		const mainResponse = await fetch(
+			`http://localhost:${port}/admin/models/test/load`,
+			{ method: 'POST' },
+		)
+		expect(mainResponse.status).toBe(404)
+		const adminResponse = await fetch(
+			`http://127.0.0.1:${adminPort}/admin/models/test/load`,
+			{ method: 'POST' },
+		)
+		expect(adminResponse.status).toBe(200)
+	})
+})
@@ -0,0 +1,143 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import type { AddressInfo } from 'node:net'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { ModelEngine, TaskCompletedEvent } from '#lllms/types/index.js'
+import { createSlowEngine } from './util.js'
+
+const echoEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request }) {
+		return {
+			text: request.prompt ?? '',
+			promptTokens: 1,
+			completionTokens: 1,
+			totalTokens: 2,
+		}
+	},
+}
+
+suite('api key auth', () => {
+	const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lllms-auth-'))
+	const keysFile = path.join(tmpDir, 'keys.yaml')
+	let server: ModelHTTPServer
+	let baseURL: string
+
+	const request = (pathname: string, key?: string, body?: object) => {
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+			Origin: 'https://allowed.example',
+		}
+		if (key) {
+			headers.Authorization = `Bearer ${key}`
+		}
+		return fetch(`${baseURL}${pathname}`, {
+			method: body ? 'POST' : 'GET',
+			headers,
+			body: body ? JSON.stringify(body) : undefined,
+		})
+	}
+
+	beforeAll(async () => {
+		fs.writeFileSync(keysFile, '- key: file-key\n  label: file\n')
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			engines: { echo: echoEngine, slow: createSlowEngine() },
+			auth: {
+				keys: [{ key: 'team-key', label: 'team', models: ['a'] }],
+				keysFile,
+			},
+			cors: { origin: ['https://allowed.example'] },
+			models: {
+				a: { engine: 'echo', task: 'text-completion' },
+				b: { engine: 'echo', task: 'text-completion' },
+				slow: { engine: 'slow', task: 'text-completion' },
+			},
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		baseURL = `http://localhost:${port}`
+	})
+
+	afterAll(async () => {
+		await server.close()
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it('rejects requests without a valid key', async () => {
+		expect((await request('/openai/v1/models')).status).toBe(401)
+		expect((await request('/openai/v1/models', 'wrong')).status).toBe(401)
+		expect((await request('/health')).status).toBe(200)
+	})
+
+	it('filters models by key', async () => {
+		const teamModels = await request('/openai/v1/models', 'team-key')
+		const teamIds = (await teamModels.json()).data.map((m: any) => m.id)
+		expect(teamIds).toEqual(['a'])
+		const fileModels = await request('/openai/v1/models', 'file-key')
+		const fileIds = (await fileModels.json()).data.map((m: any) => m.id)
+		expect(fileIds).toEqual(['a', 'b', 'slow'])
+	})
+
+	it('restricts model access and labels tasks with the key', async () => {
+		const events: TaskCompletedEvent[] = []
+		server.modelServer.on('task.completed', (event) => events.push(event))
+		const denied = await request('/openai/v1/completions', 'team-key', {
+			model: 'b',
+			prompt: 'hello',
+		})
+		expect(denied.status).toBe(404)
+		const allowed = await request('/openai/v1/completions', 'team-key', {
+			model: 'a',
+			prompt: 'hello',
+		})
+		expect(allowed.status).toBe(200)
+		expect(events).toHaveLength(1)
+		expect(events[0].tenant).toBe('team')
+	})
+
+	it('hides status and tasks of other models from limited keys', async () => {
+		for (const pathname of ['/', '/events', '/metrics']) {
+			expect((await request(pathname, 'team-key')).status).toBe(403)
+		}
+		expect((await request('/metrics', 'file-key')).status).toBe(200)
+		const controller = new AbortController()
+		const slowTask = server.modelServer
+			.processTextCompletionTask(
+				{ model: 'slow', prompt: 'hello' },
+				{ signal: controller.signal },
+			)
+			.catch(() => {})
+		await new Promise((resolve) => setTimeout(resolve, 50))
+		const [task] = server.modelServer.listTasks()
+		const teamTasks = await request('/tasks', 'team-key')
+		expect(await teamTasks.json()).toEqual([])
+		const fileTasks = await request('/tasks', 'file-key')
+		expect(await fileTasks.json()).toHaveLength(1)
+		expect((await request(`/tasks/${task.id}`, 'team-key')).status).toBe(404)
+		const cancel = await fetch(`${baseURL}/tasks/${task.id}`, {
+			method: 'DELETE',
+			headers: { Authorization: 'Bearer team-key' },
+		})
+		expect(cancel.status).toBe(404)
+		expect(server.modelServer.getTask(task.id)).toBeDefined()
+		controller.abort()
+		await slowTask
+	})
+
+	it('only allows configured cors origins', async () => {
+		const response = await request('/health')
+		expect(response.headers.get('access-control-allow-origin')).toBe(
+			'https://allowed.example',
+		)
+		const other = await fetch(`${baseURL}/health`, {
+			headers: { Origin: 'https://other.example' },
+		})
+		expect(other.headers.get('access-control-allow-origin')).toBeNull()
+	})
+})
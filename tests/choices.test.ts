@@ -0,0 +1,235 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import type { AddressInfo } from 'node:net'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { ModelEngine, TextCompletionChoice } from '#lllms/types/index.js'
+
+// choice i has a logprob of -(i + 1), except the third one, which is the most likely
+const choicesEngine: ModelEngine = {
+	supportsChoices: true,
+	supportsLogprobs: true,
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request, onChunk }) {
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		const choices: TextCompletionChoice[] = []
+		for (let index = 0; index < (request.n ?? 1); index++) {
+			const text = `choice ${index}`
+			onChunk?.({ text, tokens: [index], index })
+			choices.push({
+				text,
+				finishReason: 'eogToken',
+				logprob: index === 2 ? 0 : -index - 1,
+			})
+		}
+		return {
+			...choices[0],
+			choices: choices.length > 1 ? choices : undefined,
+			promptTokens: 2,
+			completionTokens: choices.length * 3,
+			totalTokens: 2 + choices.length * 3,
+		}
+	},
+	async processChatCompletionTask({ request }) {
+		const choices = [...Array(request.n ?? 1).keys()].map((index) => ({
+			message: { role: 'assistant' as const, content: `answer ${index}` },
+			finishReason: 'eogToken' as const,
+		}))
+		return {
+			...choices[0],
+			choices: choices.length > 1 ? choices : undefined,
+			promptTokens: 2,
+			completionTokens: choices.length,
+			totalTokens: 2 + choices.length,
+		}
+	},
+}
+
+const singleChoiceEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask() {
+		return {
+			text: 'only',
+			promptTokens: 1,
+			completionTokens: 1,
+			totalTokens: 2,
+		}
+	},
+}
+
+// generates choices without logprobs, so best_of cant rank them
+let unrankedCompletions = 0
+const unrankedEngine: ModelEngine = {
+	supportsChoices: true,
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request }) {
+		unrankedCompletions++
+		const choices = [...Array(request.n ?? 1).keys()].map((index) => ({
+			text: `choice ${index}`,
+		}))
+		return {
+			...choices[0],
+			choices: choices.length > 1 ? choices : undefined,
+			promptTokens: 1,
+			completionTokens: choices.length,
+			totalTokens: 1 + choices.length,
+		}
+	},
+}
+
+suite('multiple choices', () => {
+	let server: ModelHTTPServer
+	let baseURL: string
+
+	const post = (pathname: string, body: object) => {
+		return fetch(`${baseURL}/openai/v1${pathname}`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+		})
+	}
+
+	beforeAll(async () => {
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			logLevel: 'error',
+			engines: {
+				choices: choicesEngine,
+				single: singleChoiceEngine,
+				unranked: unrankedEngine,
+			},
+			models: {
+				choices: { engine: 'choices', task: 'text-completion' },
+				single: { engine: 'single', task: 'text-completion' },
+				unranked: { engine: 'unranked', task: 'text-completion' },
+			},
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		baseURL = `http://localhost:${port}`
+	})
+
+	afterAll(async () => {
+		await server.close()
+	})
+
+	it('returns n text completion choices', async () => {
+		const response = await post('/completions', {
+			model: 'choices',
+			prompt: 'hi',
+			n: 2,
+		})
+		const body = await response.json()
+		expect(
+			body.choices.map((choice: any) => [choice.index, choice.text]),
+		).toEqual([
+			[0, 'choice 0'],
+			[1, 'choice 1'],
+		])
+		expect(body.usage).toEqual({
+			prompt_tokens: 2,
+			completion_tokens: 6,
+			total_tokens: 8,
+		})
+	})
+
+	it('returns n chat completion choices', async () => {
+		const response = await post('/chat/completions', {
+			model: 'choices',
+			messages: [{ role: 'user', content: 'hi' }],
+			n: 3,
+		})
+		const body = await response.json()
+		expect(body.choices.map((choice: any) => choice.message.content)).toEqual([
+			'answer 0',
+			'answer 1',
+			'answer 2',
+		])
+	})
+
+	it('streams chunks with the index of their choice', async () => {
+		const response = await post('/completions', {
+			model: 'choices',
+			prompt: 'hi',
+			n: 2,
+			stream: true,
+		})
+		const chunks = (await response.text())
+			.split('\n\n')
+			.filter((event) => event.startsWith('data: {'))
+			.map((event) => JSON.parse(event.slice(6)))
+		expect(
+			chunks.map((chunk) => [chunk.choices[0].index, chunk.choices[0].text]),
+		).toEqual([
+			[0, 'choice 0'],
+			[1, 'choice 1'],
+		])
+	})
+
+	it('picks best_of choices by cumulative logprob', async () => {
+		const response = await post('/completions', {
+			model: 'choices',
+			prompt: 'hi',
+			n: 2,
+			best_of: 4,
+		})
+		const body = await response.json()
+		expect(
+			body.choices.map((choice: any) => [choice.index, choice.text]),
+		).toEqual([
+			[0, 'choice 2'],
+			[1, 'choice 0'],
+		])
+		expect(body.usage.completion_tokens).toBe(12)
+	})
+
+	it('rejects invalid combinations and unsupported engines', async () => {
+		const lowBestOf = await post('/completions', {
+			model: 'choices',
+			prompt: 'hi',
+			n: 3,
+			best_of: 2,
+		})
+		expect(lowBestOf.status).toBe(400)
+		const streamedBestOf = await post('/completions', {
+			model: 'choices',
+			prompt: 'hi',
+			best_of: 2,
+			stream: true,
+		})
+		expect(streamedBestOf.status).toBe(400)
+		const unsupported = await post('/completions', {
+			model: 'single',
+			prompt: 'hi',
+			n: 2,
+		})
+		expect(unsupported.status).toBe(400)
+		expect((await unsupported.json()).error.code).toBe('unsupported_task')
+	})
+
+	it('rejects best_of before generating with engines without logprobs', async () => {
+		const response = await post('/completions', {
+			model: 'unranked',
+			prompt: 'hi',
+			best_of: 2,
+		})
+		expect(response.status).toBe(400)
+		expect((await response.json()).error.code).toBe('unsupported_task')
+		expect(unrankedCompletions).toBe(0)
+		const withN = await post('/completions', {
+			model: 'unranked',
+			prompt: 'hi',
+			n: 2,
+		})
+		expect((await withN.json()).choices).toHaveLength(2)
+	})
+})
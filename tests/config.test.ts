@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import {
+	parseConfig,
+	validateConfigObject,
+	ConfigValidationError,
+} from '#lllms/config.js'
+import { ModelHTTPServerOptions } from '#lllms/http.js'
+
+const yamlConfig = `
+listen:
+  port: \${PORT:-3000}
+models:
+  phi3:
+    engine: node-llama-cpp
+    task: text-completion
+    url: \${MODEL_URL}
+    contextSize: 2048
+`
+
+describe('Config files', () => {
+	it('parses yaml and interpolates environment variables', () => {
+		const config = parseConfig(yamlConfig, 'lllms.config.yaml', {
+			MODEL_URL: 'https://huggingface.co/org/repo/resolve/main/model.gguf',
+		})
+		expect(config.listen?.port).toBe(3000)
+		expect(config.models.phi3.url).toBe(
+			'https://huggingface.co/org/repo/resolve/main/model.gguf',
+		)
+	})
+
+	it('reports undefined environment variables', () => {
+		expect(() => parseConfig(yamlConfig, 'lllms.config.yaml', {})).toThrow(
+			/lllms\.config\.yaml:8:10 models\.phi3\.url references undefined environment variable "MODEL_URL"/,
+		)
+	})
+
+	it('reports schema errors with their location', () => {
+		const source = JSON.stringify(
+			{
+				models: {
+					phi3: {
+						engine: 'gpt4all',
+						task: 'speech-to-text',
+						url: 'https://gpt4all.io/models/gguf/Phi-3-mini-4k-instruct.Q4_0.gguf',
+						contextSiz: 2048,
+					},
+				},
+			},
+			null,
+			'\t',
+		)
+		try {
+			parseConfig(source, 'lllms.config.json')
+			expect.fail('Expected config to be invalid')
+		} catch (error) {
+			expect(error).toBeInstanceOf(ConfigValidationError)
+			const { errors } = error as ConfigValidationError
+			expect(errors).toContainEqual(
+				expect.objectContaining({
+					path: 'models.phi3.task',
+					line: 5,
+				}),
+			)
+			expect(errors).toContainEqual(
+				expect.objectContaining({
+					path: 'models.phi3.contextSiz',
+					message: 'has unknown property "contextSiz"',
+					line: 7,
+				}),
+			)
+		}
+	})
+
+	it('validates js configs', () => {
+		const config: ModelHTTPServerOptions = {
+			log: () => {},
+			engines: {
+				custom: {
+					async prepareModel() {},
+					async createInstance() {},
+					async disposeInstance() {},
+				},
+			},
+			models: {
+				custom: { engine: 'custom', task: 'text-completion' },
+				phi3: {
+					engine: 'node-llama-cpp',
+					task: 'text-completion',
+					url: 'https://huggingface.co/org/repo/resolve/main/model.gguf',
+					contextSize: 2048,
+				},
+			},
+		}
+		expect(() => validateConfigObject(config, 'lllms.config.js')).not.toThrow()
+		// @ts-expect-error
+		config.models.phi3.contextSiz = 2048
+		expect(() => validateConfigObject(config, 'lllms.config.js')).toThrow(
+			/lllms\.config\.js models\.phi3\.contextSiz has unknown property "contextSiz"/,
+		)
+	})
+
+	it('rejects unknown properties', () => {
+		expect(() =>
+			parseConfig(`models: {}\nconcurrenc: 2\n`, 'lllms.config.yaml'),
+		).toThrow(/lllms\.config\.yaml:2:1 concurrenc has unknown property "concurrenc"/)
+	})
+})
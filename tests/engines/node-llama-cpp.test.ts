@@ -18,7 +18,7 @@ import {
 	runRawGBNFGrammarTest,
 	runJsonSchemaGrammarTest,
 } from './lib/index.js'
-import { createChatCompletion } from '../util.js'
+import { createChatCompletion, createCompletion } from '../util.js'
 
 const testModel: ModelOptions ={
 	url: 'https://huggingface.co/mradermacher/Meta-Llama-3-8B-Instruct-GGUF/resolve/main/Meta-Llama-3-8B-Instruct.Q4_K_M.gguf',
@@ -128,6 +128,76 @@ suite('grammar', async () => {
 	
 })
 
+suite('logprobs', () => {
+	const llms = new ModelServer({
+		// log: 'debug',
+		models: {
+			test: testModel,
+		},
+	})
+	beforeAll(async () => {
+		await llms.start()
+	})
+	afterAll(async () => {
+		await llms.stop()
+	})
+
+	test('chat completion logprobs', async () => {
+		const chat = await createChatCompletion(llms, {
+			messages: [
+				{
+					role: 'user',
+					content: 'Is the sky blue? Answer with yes or no.',
+				},
+			],
+			logprobs: true,
+			topLogprobs: 2,
+			maxTokens: 10,
+		})
+		const logprobs = chat.result.logprobs!
+		expect(logprobs.length).toBeGreaterThan(0)
+		expect(logprobs.map((entry) => entry.token).join('')).toBe(
+			chat.result.message.content,
+		)
+		for (const entry of logprobs) {
+			expect(entry.logprob).toBeLessThanOrEqual(0)
+			expect(entry.topLogprobs).toHaveLength(2)
+			expect(entry.topLogprobs![0].logprob).toBeGreaterThanOrEqual(
+				entry.logprob,
+			)
+		}
+	})
+
+	test('text completion logprobs', async () => {
+		const completion = await createCompletion(llms, {
+			prompt: 'The first three letters of the alphabet are',
+			logprobs: true,
+			stop: ['.'],
+			maxTokens: 10,
+		})
+		const logprobs = completion.result.logprobs!
+		expect(logprobs.map((entry) => entry.token).join('')).toContain(
+			completion.result.text,
+		)
+		expect(completion.result.logprob).toBeCloseTo(
+			logprobs.reduce((sum, entry) => sum + entry.logprob, 0),
+		)
+	})
+
+	test('text completion logprobs end with the generation', async () => {
+		const completion = await createCompletion(llms, {
+			prompt: 'Q: What is the capital of France?\nA:',
+			logprobs: true,
+			maxTokens: undefined,
+		})
+		expect(completion.result.finishReason).toBe('eogToken')
+		expect(completion.result.completionTokens).toBeLessThan(200)
+		for (const entry of completion.result.logprobs!) {
+			expect(Number.isFinite(entry.logprob)).toBe(true)
+		}
+	})
+})
+
 suite('cache', () => {
 	const llms = new ModelServer({
 		// log: 'debug',
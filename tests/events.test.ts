@@ -0,0 +1,97 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import type { AddressInfo } from 'node:net'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { LifecycleEventName, ModelEngine } from '#lllms/types/index.js'
+
+const echoEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request }) {
+		return {
+			text: request.prompt ?? '',
+			promptTokens: 1,
+			completionTokens: 1,
+			totalTokens: 2,
+		}
+	},
+}
+
+suite('lifecycle events', () => {
+	let server: ModelHTTPServer
+	const emittedEvents: LifecycleEventName[] = []
+
+	beforeAll(async () => {
+		server = new ModelHTTPServer({
+			listen: { port: 0 },
+			engines: { echo: echoEngine },
+			models: {
+				test: {
+					engine: 'echo',
+					task: 'text-completion',
+					minInstances: 1,
+				},
+			},
+		})
+		server.modelServer.on('instance.spawn', () => {
+			emittedEvents.push('instance.spawn')
+		})
+		server.modelServer.on('instance.load', (event) => {
+			expect(event.model).toBe('test')
+			emittedEvents.push('instance.load')
+		})
+		await server.start()
+	})
+
+	afterAll(async () => {
+		await server.close()
+	})
+
+	it('emits instance events', () => {
+		expect(emittedEvents).toEqual(['instance.spawn', 'instance.load'])
+	})
+
+	it('emits request events', async () => {
+		const llms = server.modelServer
+		const requestEvents: LifecycleEventName[] = []
+		llms.on('request.queued', () => requestEvents.push('request.queued'))
+		llms.on('request.acquired', (event) => {
+			expect(event.queueWaitTime).toBeGreaterThanOrEqual(0)
+			requestEvents.push('request.acquired')
+		})
+		llms.on('request.completed', (event) => {
+			expect(event.leaseExpired).toBe(false)
+			requestEvents.push('request.completed')
+		})
+		await llms.processTextCompletionTask({ model: 'test', prompt: 'hello' })
+		expect(requestEvents).toEqual([
+			'request.queued',
+			'request.acquired',
+			'request.completed',
+		])
+	})
+
+	it('streams events via sse', async () => {
+		const { port } = server.httpServer.address() as AddressInfo
+		const controller = new AbortController()
+		const response = await fetch(`http://localhost:${port}/events`, {
+			signal: controller.signal,
+		})
+		expect(response.headers.get('content-type')).toBe('text/event-stream')
+		await server.modelServer.processTextCompletionTask({
+			model: 'test',
+			prompt: 'hello',
+		})
+		const reader = response.body!.getReader()
+		const decoder = new TextDecoder()
+		let received = ''
+		while (!received.includes('event: request.completed')) {
+			const { value } = await reader.read()
+			received += decoder.decode(value)
+		}
+		controller.abort()
+		expect(received).toContain('event: request.queued\ndata: {')
+	})
+})
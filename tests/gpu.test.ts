@@ -0,0 +1,101 @@
+import { suite, it, expect, beforeEach, afterEach } from 'vitest'
+import { ModelPool } from '#lllms/pool.js'
+import { ModelConfig, ModelEngine } from '#lllms/types/index.js'
+import { createModelConfig, createPool } from './util.js'
+
+// engine that declares two gpu devices and records which device instances are created on
+function createFakeGpuEngine() {
+	const createdOn: Record<string, string | undefined> = {}
+	const engine: ModelEngine<{ model: string }> = {
+		autoGpu: true,
+		async getGpuDevices() {
+			return [{ name: 'gpu0' }, { name: 'gpu1' }]
+		},
+		async prepareModel() {},
+		async createInstance({ config }) {
+			createdOn[config.id] = config.device?.gpuDevice
+			return { model: config.id }
+		},
+		async disposeInstance() {},
+	}
+	return { engine, createdOn }
+}
+
+function createGpuModelConfig(
+	id: string,
+	gpu: NonNullable<ModelConfig['device']>['gpu'],
+) {
+	return createModelConfig(id, { minInstances: 0, device: { gpu } })
+}
+
+suite('gpu devices', () => {
+	let pool: ModelPool
+	let createdOn: Record<string, string | undefined>
+
+	beforeEach(async () => {
+		const fake = createFakeGpuEngine()
+		createdOn = fake.createdOn
+		pool = await createPool(
+			{
+				concurrency: 4,
+				models: {
+					first: createGpuModelConfig('first', 0),
+					second: createGpuModelConfig('second', 'gpu1'),
+					third: createGpuModelConfig('third', 0),
+					any: createGpuModelConfig('any', true),
+					auto: createGpuModelConfig('auto', 'auto'),
+				},
+			},
+			{ fake: fake.engine },
+		)
+	})
+
+	afterEach(async () => {
+		await pool.dispose()
+	})
+
+	it('places instances on their target devices', async () => {
+		const firstLock = await pool.requestInstance({ model: 'first' })
+		const secondLock = await pool.requestInstance({ model: 'second' })
+		expect(firstLock.instance.gpuDevice).toBe('gpu0')
+		expect(secondLock.instance.gpuDevice).toBe('gpu1')
+		expect(createdOn.first).toBe('gpu0')
+		expect(createdOn.second).toBe('gpu1')
+		await firstLock.release()
+		await secondLock.release()
+	})
+
+	it('only swaps models on the contended device', async () => {
+		const firstLock = await pool.requestInstance({ model: 'first' })
+		const secondLock = await pool.requestInstance({ model: 'second' })
+		const secondInstance = secondLock.instance
+		await secondLock.release()
+		let acquired = false
+		const thirdRequest = pool
+			.requestInstance({ model: 'third' })
+			.then((lock) => {
+				acquired = true
+				return lock
+			})
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		// gpu1 is idle, but third has to wait for gpu0
+		expect(acquired).toBe(false)
+		await firstLock.release()
+		const thirdLock = await thirdRequest
+		expect(thirdLock.instance.gpuDevice).toBe('gpu0')
+		expect(pool.instances[secondInstance.id]).toBe(secondInstance)
+		await thirdLock.release()
+	})
+
+	it('falls back to cpu for gpu=auto when all devices are used', async () => {
+		const firstLock = await pool.requestInstance({ model: 'first' })
+		const anyLock = await pool.requestInstance({ model: 'any' })
+		expect(anyLock.instance.gpuDevice).toBe('gpu1')
+		const autoLock = await pool.requestInstance({ model: 'auto' })
+		expect(autoLock.instance.gpu).toBe(false)
+		expect(autoLock.instance.gpuDevice).toBeUndefined()
+		await firstLock.release()
+		await anyLock.release()
+		await autoLock.release()
+	})
+})
@@ -0,0 +1,118 @@
+import { suite, it, expect, afterEach } from 'vitest'
+import { ModelPool } from '#lllms/pool.js'
+import { ModelEngine } from '#lllms/types/index.js'
+import { ModelUnavailableError } from '#lllms/errors.js'
+import { createModelConfig, createPool } from './util.js'
+
+// engine that fails to create instances until told otherwise
+function createFlakyEngine(failures: number, loadDuration: number = 0) {
+	const state = { failures, attempts: 0 }
+	const engine: ModelEngine = {
+		async prepareModel() {},
+		async createInstance() {
+			state.attempts++
+			await new Promise((resolve) => setTimeout(resolve, loadDuration))
+			if (state.failures > 0) {
+				state.failures--
+				throw new Error('Failed to load')
+			}
+			return {}
+		},
+		async disposeInstance() {},
+	}
+	return { engine, state }
+}
+
+function createFlakyPool(engine: ModelEngine, maxAttempts: number) {
+	return createPool(
+		{
+			retry: { maxAttempts, initialDelay: 10 },
+			circuitBreaker: { failureThreshold: 2, resetTimeout: 100 },
+			models: { test: createModelConfig('test', { minInstances: 0 }) },
+		},
+		{ fake: engine },
+	)
+}
+
+suite('self-healing', () => {
+	let pool: ModelPool
+
+	afterEach(async () => {
+		await pool.dispose()
+	})
+
+	it('retries loading failed instances', async () => {
+		const flaky = createFlakyEngine(2)
+		pool = await createFlakyPool(flaky.engine, 3)
+		const lock = await pool.requestInstance({ model: 'test' })
+		expect(flaky.state.attempts).toBe(3)
+		await lock.release()
+		expect(pool.getStatus().models.test.failures).toBe(0)
+	})
+
+	it('opens the circuit after repeated failures', async () => {
+		const flaky = createFlakyEngine(Infinity)
+		pool = await createFlakyPool(flaky.engine, 1)
+		await expect(pool.requestInstance({ model: 'test' })).rejects.toThrow(
+			'Failed to load',
+		)
+		expect(Object.keys(pool.instances)).toHaveLength(0)
+		await expect(pool.requestInstance({ model: 'test' })).rejects.toThrow(
+			'Failed to load',
+		)
+		await expect(pool.requestInstance({ model: 'test' })).rejects.toThrow(
+			ModelUnavailableError,
+		)
+		const status = pool.getStatus().models.test
+		expect(status.circuit).toBe('open')
+		expect(status.lastError?.message).toBe('Failed to load')
+	})
+
+	it('closes the circuit once the model recovers', async () => {
+		const flaky = createFlakyEngine(2)
+		pool = await createFlakyPool(flaky.engine, 1)
+		await pool.requestInstance({ model: 'test' }).catch(() => {})
+		await pool.requestInstance({ model: 'test' }).catch(() => {})
+		expect(pool.getStatus().models.test.circuit).toBe('open')
+		await new Promise((resolve) => setTimeout(resolve, 100))
+		expect(pool.getStatus().models.test.circuit).toBe('half-open')
+		const lock = await pool.requestInstance({ model: 'test' })
+		await lock.release()
+		expect(pool.getStatus().models.test.circuit).toBe('closed')
+	})
+
+	it('lets a single probe through while half-open', async () => {
+		const flaky = createFlakyEngine(2, 50)
+		pool = await createFlakyPool(flaky.engine, 1)
+		await pool.requestInstance({ model: 'test' }).catch(() => {})
+		await pool.requestInstance({ model: 'test' }).catch(() => {})
+		await new Promise((resolve) => setTimeout(resolve, 100))
+		const probe = pool.requestInstance({ model: 'test' })
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		await expect(pool.requestInstance({ model: 'test' })).rejects.toThrow(
+			ModelUnavailableError,
+		)
+		expect(pool.getStatus().models.test.circuit).toBe('half-open')
+		const lock = await probe
+		await lock.release()
+		expect(flaky.state.attempts).toBe(3)
+		expect(pool.getStatus().models.test.circuit).toBe('closed')
+	})
+
+	it('records failing resource estimates as failed attempts', async () => {
+		const engine: ModelEngine = {
+			...createFlakyEngine(0).engine,
+			async estimateResources() {
+				throw new Error('Failed to estimate')
+			},
+		}
+		pool = await createFlakyPool(engine, 1)
+		await expect(pool.requestInstance({ model: 'test' })).rejects.toThrow(
+			'Failed to estimate',
+		)
+		expect(Object.keys(pool.instances)).toHaveLength(0)
+		const status = pool.getStatus().models.test
+		expect(status.failures).toBe(1)
+		expect(status.lastError?.message).toBe('Failed to estimate')
+	})
+})
@@ -0,0 +1,94 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import type { AddressInfo } from 'node:net'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { ModelEngine } from '#lllms/types/index.js'
+
+const echoEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request }) {
+		return {
+			text: request.prompt ?? '',
+			promptTokens: 1,
+			completionTokens: 1,
+			totalTokens: 2,
+		}
+	},
+}
+
+const brokenEngine: ModelEngine = {
+	...echoEngine,
+	async prepareModel() {
+		throw new Error('Download failed')
+	},
+}
+
+suite('health and readiness', () => {
+	let server: ModelHTTPServer
+	let baseURL: string
+
+	beforeAll(async () => {
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			engines: { echo: echoEngine, broken: brokenEngine },
+			models: {
+				test: {
+					engine: 'echo',
+					task: 'text-completion',
+					minInstances: 1,
+				},
+				lazy: {
+					engine: 'echo',
+					task: 'text-completion',
+				},
+				broken: {
+					engine: 'broken',
+					task: 'text-completion',
+					prepare: 'blocking',
+				},
+			},
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		baseURL = `http://localhost:${port}`
+	})
+
+	afterAll(async () => {
+		await server.close()
+	})
+
+	it('responds to liveness probes', async () => {
+		const response = await fetch(`${baseURL}/health`)
+		expect(response.status).toBe(200)
+		expect(await response.json()).toEqual({ status: 'ok' })
+	})
+
+	it('reports readiness of all models', async () => {
+		const response = await fetch(`${baseURL}/ready`)
+		expect(response.status).toBe(503)
+		const readiness = await response.json()
+		expect(readiness.ready).toBe(false)
+		expect(readiness.models.test).toMatchObject({
+			ready: true,
+			status: 'ready',
+			instances: 1,
+			minInstances: 1,
+		})
+		expect(readiness.models.lazy.ready).toBe(true)
+		expect(readiness.models.broken).toMatchObject({
+			ready: false,
+			status: 'error',
+		})
+	})
+
+	it('reports readiness of a single model', async () => {
+		const readyResponse = await fetch(`${baseURL}/ready?model=test`)
+		expect(readyResponse.status).toBe(200)
+		const brokenResponse = await fetch(`${baseURL}/ready?model=broken`)
+		expect(brokenResponse.status).toBe(503)
+		const unknownResponse = await fetch(`${baseURL}/ready?model=unknown`)
+		expect(unknownResponse.status).toBe(404)
+	})
+})
@@ -0,0 +1,53 @@
+import { suite, it, expect, afterEach } from 'vitest'
+import { ModelPool } from '#lllms/pool.js'
+import { createPool, createSlowEngine } from './util.js'
+
+suite('instance leases', () => {
+	let pool: ModelPool
+
+	afterEach(async () => {
+		await pool.dispose()
+	})
+
+	it('force releases instances after the lease expired', async () => {
+		pool = await createPool({ leaseTimeout: 50 })
+		const leakedLock = await pool.requestInstance({ model: 'test' })
+		const lock = await pool.requestInstance({ model: 'test' })
+		expect(lock.instance).toBe(leakedLock.instance)
+		// releasing the expired handle must not release the instance for the new holder
+		await leakedLock.release()
+		expect(lock.instance.status).toBe('busy')
+		await lock.release()
+		expect(lock.instance.status).toBe('idle')
+	})
+
+	it('cancels running tasks before force releasing', async () => {
+		pool = await createPool({ leaseTimeout: 50 }, { fake: createSlowEngine() })
+		const leakedLock = await pool.requestInstance({ model: 'test' })
+		const task = leakedLock.instance.processTextCompletionTask({
+			model: 'test',
+			prompt: 'hello',
+		})
+		let settled = false
+		const taskError = task.result
+			.catch((error) => error)
+			.finally(() => {
+				settled = true
+			})
+		const lock = await pool.requestInstance({ model: 'test' })
+		expect(settled).toBe(true)
+		expect((await taskError).message).toBe('Lease expired')
+		await lock.release()
+	})
+
+	it('releases handles with await using', async () => {
+		pool = await createPool()
+		let instanceId: string
+		{
+			await using lock = await pool.requestInstance({ model: 'test' })
+			instanceId = lock.instance.id
+			expect(lock.instance.status).toBe('busy')
+		}
+		expect(pool.instances[instanceId].status).toBe('idle')
+	})
+})
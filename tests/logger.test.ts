@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { LogEntry, LogLevels, createLogger } from '#lllms/lib/logger.js'
+
+describe('Logger', () => {
+	it('formats entries as one json object per line', () => {
+		const lines: string[] = []
+		const log = createLogger({
+			level: LogLevels.info,
+			format: 'json',
+			transports: [(line) => lines.push(line)],
+		})
+		log(LogLevels.debug, 'not logged')
+		log(LogLevels.info, 'Chat completion done', {
+			sequence: 1,
+			instance: 'phi3:abc',
+			task: 'phi3:abc-def',
+			elapsed: 12.5,
+		})
+		log(LogLevels.error, 'Task failed', { error: new Error('boom') })
+		expect(lines).toHaveLength(2)
+		expect(lines[0]).not.toContain('\n')
+		const entry = JSON.parse(lines[0])
+		expect(entry).toMatchObject({
+			level: 'info',
+			message: 'Chat completion done',
+			sequence: 1,
+			instance: 'phi3:abc',
+			task: 'phi3:abc-def',
+			elapsed: 12.5,
+		})
+		expect(Date.parse(entry.timestamp)).not.toBeNaN()
+		expect(JSON.parse(lines[1]).error).toMatchObject({
+			name: 'Error',
+			message: 'boom',
+		})
+	})
+
+	it('passes entries to custom transports', () => {
+		const entries: LogEntry[] = []
+		const log = createLogger({
+			level: LogLevels.debug,
+			transports: [(line, entry) => entries.push(entry)],
+		})
+		log(LogLevels.debug, 'hello', { model: 'test' })
+		expect(entries[0].level).toBe('debug')
+		expect(entries[0].meta).toEqual({ model: 'test' })
+	})
+
+	it('rotates log files', () => {
+		const logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lllms-logs-'))
+		const logFile = path.join(logDir, 'lllms.log')
+		const log = createLogger({
+			level: LogLevels.info,
+			format: 'json',
+			transports: [{ type: 'file', path: logFile, maxSize: 200, maxFiles: 2 }],
+		})
+		for (let i = 0; i < 10; i++) {
+			log(LogLevels.info, `message ${i}`)
+		}
+		expect(fs.readdirSync(logDir).sort()).toEqual([
+			'lllms.log',
+			'lllms.log.1',
+			'lllms.log.2',
+		])
+		for (const file of fs.readdirSync(logDir)) {
+			expect(fs.statSync(path.join(logDir, file)).size).toBeLessThanOrEqual(200)
+		}
+		expect(fs.readFileSync(logFile, 'utf-8')).toContain('message 9')
+		fs.rmSync(logDir, { recursive: true })
+	})
+})
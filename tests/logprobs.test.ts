@@ -0,0 +1,219 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import type { AddressInfo } from 'node:net'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { ModelEngine, TokenLogprob } from '#lllms/types/index.js'
+
+// generates "yes no", with the requested number of alternatives per token
+function createLogprobs(topLogprobs = 0): TokenLogprob[] {
+	return [
+		{ token: 'yes', logprob: -0.1 },
+		{ token: ' no', logprob: -2 },
+	].map((entry) => ({
+		...entry,
+		topLogprobs: [
+			{ token: entry.token, logprob: entry.logprob },
+			{ token: 'maybe', logprob: -3 },
+		].slice(0, topLogprobs),
+	}))
+}
+
+const logprobsEngine: ModelEngine = {
+	supportsLogprobs: true,
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request, onChunk }) {
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		const logprobs = request.logprobs
+			? createLogprobs(request.topLogprobs)
+			: undefined
+		for (const [index, entry] of createLogprobs().entries()) {
+			onChunk?.({
+				text: entry.token,
+				tokens: [index],
+				logprobs: logprobs ? [logprobs[index]] : undefined,
+			})
+		}
+		return {
+			text: 'yes no',
+			logprobs,
+			promptTokens: 1,
+			completionTokens: 2,
+			totalTokens: 3,
+		}
+	},
+	async processChatCompletionTask({ request, onChunk }) {
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		const logprobs = request.logprobs
+			? createLogprobs(request.topLogprobs)
+			: undefined
+		for (const [index, entry] of createLogprobs().entries()) {
+			onChunk?.({
+				text: entry.token,
+				tokens: [index],
+				logprobs: logprobs ? [logprobs[index]] : undefined,
+			})
+		}
+		return {
+			message: { role: 'assistant', content: 'yes no' },
+			finishReason: 'eogToken',
+			logprobs,
+			promptTokens: 1,
+			completionTokens: 2,
+			totalTokens: 3,
+		}
+	},
+}
+
+const noLogprobsEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask() {
+		return {
+			text: 'yes',
+			promptTokens: 1,
+			completionTokens: 1,
+			totalTokens: 2,
+		}
+	},
+}
+
+suite('logprobs', () => {
+	let server: ModelHTTPServer
+	let baseURL: string
+
+	const post = (pathname: string, body: object) => {
+		return fetch(`${baseURL}/openai/v1${pathname}`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+		})
+	}
+
+	const readChunks = async (response: Response) => {
+		return (await response.text())
+			.split('\n\n')
+			.filter((event) => event.startsWith('data: {'))
+			.map((event) => JSON.parse(event.slice(6)))
+	}
+
+	beforeAll(async () => {
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			logLevel: 'error',
+			engines: { logprobs: logprobsEngine, none: noLogprobsEngine },
+			models: {
+				logprobs: { engine: 'logprobs', task: 'text-completion' },
+				none: { engine: 'none', task: 'text-completion' },
+			},
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		baseURL = `http://localhost:${port}`
+	})
+
+	afterAll(async () => {
+		await server.close()
+	})
+
+	it('returns chat completion logprobs', async () => {
+		const response = await post('/chat/completions', {
+			model: 'logprobs',
+			messages: [{ role: 'user', content: 'yes?' }],
+			logprobs: true,
+			top_logprobs: 2,
+		})
+		const body = await response.json()
+		expect(body.choices[0].logprobs.content[1]).toEqual({
+			token: ' no',
+			logprob: -2,
+			bytes: [32, 110, 111],
+			top_logprobs: [
+				{ token: ' no', logprob: -2, bytes: [32, 110, 111] },
+				{ token: 'maybe', logprob: -3, bytes: [109, 97, 121, 98, 101] },
+			],
+		})
+		const withoutLogprobs = await post('/chat/completions', {
+			model: 'logprobs',
+			messages: [{ role: 'user', content: 'yes?' }],
+		})
+		expect((await withoutLogprobs.json()).choices[0].logprobs).toBeNull()
+	})
+
+	it('streams chat completion logprobs', async () => {
+		const response = await post('/chat/completions', {
+			model: 'logprobs',
+			messages: [{ role: 'user', content: 'yes?' }],
+			logprobs: true,
+			stream: true,
+		})
+		const chunks = await readChunks(response)
+		expect(chunks.map((chunk) => chunk.choices[0].logprobs.content)).toEqual([
+			[
+				{
+					token: 'yes',
+					logprob: -0.1,
+					bytes: [121, 101, 115],
+					top_logprobs: [],
+				},
+			],
+			[{ token: ' no', logprob: -2, bytes: [32, 110, 111], top_logprobs: [] }],
+		])
+	})
+
+	it('returns text completion logprobs', async () => {
+		const response = await post('/completions', {
+			model: 'logprobs',
+			prompt: 'yes?',
+			logprobs: 1,
+		})
+		const body = await response.json()
+		expect(body.choices[0].logprobs).toEqual({
+			tokens: ['yes', ' no'],
+			token_logprobs: [-0.1, -2],
+			top_logprobs: [{ yes: -0.1 }, { ' no': -2 }],
+			text_offset: [4, 7],
+		})
+		const stream = await post('/completions', {
+			model: 'logprobs',
+			prompt: 'yes?',
+			logprobs: 0,
+			stream: true,
+		})
+		const chunks = await readChunks(stream)
+		expect(chunks.map((chunk) => chunk.choices[0].logprobs)).toEqual([
+			{
+				tokens: ['yes'],
+				token_logprobs: [-0.1],
+				top_logprobs: [{}],
+				text_offset: [4],
+			},
+			{
+				tokens: [' no'],
+				token_logprobs: [-2],
+				top_logprobs: [{}],
+				text_offset: [7],
+			},
+		])
+	})
+
+	it('rejects invalid params and engines without logprobs', async () => {
+		const topWithoutLogprobs = await post('/chat/completions', {
+			model: 'logprobs',
+			messages: [{ role: 'user', content: 'yes?' }],
+			top_logprobs: 2,
+		})
+		expect(topWithoutLogprobs.status).toBe(400)
+		const unsupported = await post('/completions', {
+			model: 'none',
+			prompt: 'yes?',
+			logprobs: 1,
+		})
+		expect(unsupported.status).toBe(400)
+		expect((await unsupported.json()).error.code).toBe('unsupported_task')
+	})
+})
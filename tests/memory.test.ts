@@ -0,0 +1,159 @@
+import { suite, it, expect, beforeEach, afterEach } from 'vitest'
+import os from 'node:os'
+import path from 'node:path'
+import { ModelPool } from '#lllms/pool.js'
+import { ModelStore } from '#lllms/store.js'
+import { ModelEngine } from '#lllms/types/index.js'
+import { createModelConfig, createPool } from './util.js'
+
+const GB = 1024 * 1024 * 1024
+
+// engine that pretends every instance needs ram according to a per model table
+function createFakeEngine(modelRam: Record<string, number>) {
+	const engine: ModelEngine<{ model: string }> = {
+		async prepareModel() {},
+		async createInstance({ config }) {
+			return { model: config.id }
+		},
+		async disposeInstance() {},
+		async estimateResources({ config }) {
+			return { ram: modelRam[config.id], vram: 0 }
+		},
+	}
+	return engine
+}
+
+function createMemoryModelConfig(id: string) {
+	return createModelConfig(id, { minInstances: 0, maxInstances: 2 })
+}
+
+suite('memory limits', () => {
+	let pool: ModelPool
+
+	beforeEach(async () => {
+		pool = await createPool(
+			{
+				concurrency: 4,
+				maxMemory: 4 * GB,
+				models: {
+					small: createMemoryModelConfig('small'),
+					large: createMemoryModelConfig('large'),
+					huge: createMemoryModelConfig('huge'),
+				},
+			},
+			{
+				fake: createFakeEngine({
+					small: 1 * GB,
+					large: 3 * GB,
+					huge: 5 * GB,
+				}),
+			},
+		)
+	})
+
+	afterEach(async () => {
+		await pool.dispose()
+	})
+
+	it('tracks memory usage of instances', async () => {
+		const lock = await pool.requestInstance({ model: 'small' })
+		expect(pool.getMemoryUsage()).toEqual({ ram: 1 * GB, vram: 0 })
+		await lock.release()
+	})
+
+	it('evicts idle instances of other models to stay within budget', async () => {
+		const smallLock = await pool.requestInstance({ model: 'small' })
+		const smallInstance = smallLock.instance
+		await smallLock.release()
+		const secondSmallLock = await pool.requestInstance({ model: 'small' })
+		expect(secondSmallLock.instance).toBe(smallInstance)
+		await secondSmallLock.release()
+		const largeLock = await pool.requestInstance({ model: 'large' })
+		expect(pool.getMemoryUsage().ram).toBeLessThanOrEqual(4 * GB)
+		await largeLock.release()
+		// wait for background spawns to settle
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		expect(pool.getMemoryUsage().ram).toBeLessThanOrEqual(4 * GB)
+	})
+
+	it('waits for memory if busy instances are in the way', async () => {
+		const firstLock = await pool.requestInstance({ model: 'large' })
+		const smallLock = await pool.requestInstance({ model: 'small' })
+		await smallLock.release()
+		let acquired = false
+		const largeRequest = pool
+			.requestInstance({ model: 'large' })
+			.then((lock) => {
+				acquired = true
+				return lock
+			})
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		// the idle small instance got evicted, but the busy large one is still in the way
+		expect(Object.values(pool.instances).map((i) => i.modelId)).not.toContain(
+			'small',
+		)
+		expect(acquired).toBe(false)
+		await firstLock.release()
+		const largeLock = await largeRequest
+		expect(pool.getMemoryUsage().ram).toBe(3 * GB)
+		await largeLock.release()
+	})
+
+	it('does not hand out instances while they wait for memory', async () => {
+		const preparedPool = new ModelPool(
+			{
+				concurrency: 4,
+				maxMemory: 4 * GB,
+				models: { large: createMemoryModelConfig('large') },
+			},
+			async () => {},
+		)
+		await preparedPool.init({ fake: createFakeEngine({ large: 3 * GB }) })
+		const firstLock = await preparedPool.requestInstance({ model: 'large' })
+		const waitingRequest = preparedPool.requestInstance({ model: 'large' })
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		let acquired = false
+		const secondRequest = preparedPool
+			.requestInstance({ model: 'large' })
+			.then((lock) => {
+				acquired = true
+				return lock
+			})
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		// the instance waiting for memory is not loaded yet, so it cant be handed out
+		expect(acquired).toBe(false)
+		await firstLock.release()
+		const secondLock = await secondRequest
+		expect(secondLock.instance).toBe(firstLock.instance)
+		await secondLock.release()
+		const waitingLock = await waitingRequest
+		expect(waitingLock.instance).not.toBe(firstLock.instance)
+		expect(waitingLock.instance.status).toBe('busy')
+		await waitingLock.release()
+		await preparedPool.dispose()
+	})
+
+	it('rejects models that can never fit', async () => {
+		await expect(pool.requestInstance({ model: 'huge' })).rejects.toThrow(
+			'requires more memory than maxMemory allows',
+		)
+	})
+})
+
+suite('resource estimates', () => {
+	it('are listed in store status once a model is ready', async () => {
+		const store = new ModelStore({
+			modelsPath: path.join(os.tmpdir(), 'lllms-test'),
+			models: {
+				small: createMemoryModelConfig('small'),
+			},
+		})
+		await store.init({
+			fake: createFakeEngine({ small: 1 * GB }),
+		})
+		expect(store.getStatus().small.resources).toBeUndefined()
+		await store.prepareModel('small')
+		expect(store.getStatus().small.resources).toEqual({ ram: 1 * GB, vram: 0 })
+		store.dispose()
+	})
+})
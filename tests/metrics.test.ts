@@ -0,0 +1,91 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import type { AddressInfo } from 'node:net'
+import { ModelHTTPServer } from '#lllms/http.js'
+import { ModelEngine } from '#lllms/types/index.js'
+import { Histogram } from '#lllms/lib/prometheus.js'
+
+const echoEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request }) {
+		return {
+			text: request.prompt ?? '',
+			promptTokens: 3,
+			completionTokens: 5,
+			totalTokens: 8,
+		}
+	},
+}
+
+suite('metrics', () => {
+	let server: ModelHTTPServer
+
+	beforeAll(async () => {
+		server = new ModelHTTPServer({
+			listen: { port: 0 },
+			engines: { echo: echoEngine },
+			models: {
+				test: {
+					engine: 'echo',
+					task: 'text-completion',
+					minInstances: 1,
+				},
+			},
+		})
+		await server.start()
+	})
+
+	afterAll(async () => {
+		await server.close()
+	})
+
+	it('serializes histograms with cumulative buckets', () => {
+		const histogram = new Histogram('test_seconds', 'Test', [1, 5])
+		histogram.observe({ model: 'a"b' }, 2)
+		histogram.observe({ model: 'a"b' }, 0.5)
+		expect(histogram.serialize().split('\n')).toEqual([
+			'# HELP test_seconds Test',
+			'# TYPE test_seconds histogram',
+			'test_seconds_bucket{model="a\\"b",le="1"} 1',
+			'test_seconds_bucket{model="a\\"b",le="5"} 2',
+			'test_seconds_bucket{model="a\\"b",le="+Inf"} 2',
+			'test_seconds_sum{model="a\\"b"} 2.5',
+			'test_seconds_count{model="a\\"b"} 2',
+		])
+	})
+
+	it('exposes request and token metrics', async () => {
+		await server.modelServer.processTextCompletionTask({
+			model: 'test',
+			prompt: 'hello',
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		const response = await fetch(`http://localhost:${port}/metrics`)
+		expect(response.headers.get('content-type')).toContain('text/plain')
+		const metrics = await response.text()
+		expect(metrics).toContain(
+			'lllms_requests_total{model="test",task="text-completion",status="success"} 1',
+		)
+		expect(metrics).toContain('lllms_prompt_tokens_total{model="test"} 3')
+		expect(metrics).toContain('lllms_completion_tokens_total{model="test"} 5')
+		expect(metrics).toContain('lllms_queue_wait_seconds_count{model="test"} 1')
+		expect(metrics).toContain(
+			'lllms_instances{model="test",status="idle",device="cpu"} 1',
+		)
+	})
+
+	it('stops collecting once the server closed', async () => {
+		const closedServer = new ModelHTTPServer({
+			listen: { port: 0 },
+			engines: { echo: echoEngine },
+			models: {},
+		})
+		await closedServer.start()
+		expect(closedServer.modelServer.listenerCount('task.completed')).toBe(1)
+		await closedServer.close()
+		expect(closedServer.modelServer.listenerCount('task.completed')).toBe(0)
+	})
+})
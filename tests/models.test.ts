@@ -0,0 +1,182 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import { ModelServer } from '#lllms/server.js'
+import { ModelEngine } from '#lllms/types/index.js'
+
+// engine that echoes the prompt after a short delay and records its instances
+function createEchoEngine() {
+	const instances = new Set<{ model: string }>()
+	const engine: ModelEngine<{ model: string }> = {
+		async prepareModel() {},
+		async createInstance({ config }) {
+			const instance = { model: config.id }
+			instances.add(instance)
+			return instance
+		},
+		async disposeInstance(instance) {
+			instances.delete(instance)
+		},
+		async processTextCompletionTask({ request, config }) {
+			await new Promise((resolve) => setTimeout(resolve, 100))
+			const text = `${config.id}: ${request.prompt}`
+			return { text, promptTokens: 1, completionTokens: 1, totalTokens: 2 }
+		},
+	}
+	return { engine, instances }
+}
+
+suite('adding, updating and removing models', () => {
+	const { engine, instances } = createEchoEngine()
+	const llms = new ModelServer({
+		engines: {
+			echo: engine,
+		},
+		models: {
+			first: {
+				engine: 'echo',
+				task: 'text-completion',
+				minInstances: 1,
+			},
+		},
+	})
+
+	beforeAll(async () => {
+		await llms.start()
+	})
+
+	afterAll(async () => {
+		await llms.stop()
+	})
+
+	it('can add a model', async () => {
+		await llms.addModel('second', {
+			engine: 'echo',
+			task: 'text-completion',
+			minInstances: 1,
+		})
+		expect(llms.modelExists('second')).toBe(true)
+		expect(instances.size).toBe(2)
+		const result = await llms.processTextCompletionTask({
+			model: 'second',
+			prompt: 'hello',
+		})
+		expect(result.text).toBe('second: hello')
+	})
+
+	it('throws when adding an existing model', async () => {
+		await expect(
+			llms.addModel('first', {
+				engine: 'echo',
+				task: 'text-completion',
+			}),
+		).rejects.toThrow('already exists')
+	})
+
+	it('drains running tasks before removing a model', async () => {
+		const lock = await llms.requestInstance({
+			model: 'second',
+			prompt: 'hello',
+		})
+		const task = lock.instance.processTextCompletionTask({
+			model: 'second',
+			prompt: 'hello',
+		})
+		const removePromise = llms.removeModel('second')
+		expect(llms.modelExists('second')).toBe(false)
+		const result = await task.result
+		expect(result.text).toBe('second: hello')
+		await lock.release()
+		await removePromise
+		expect(instances.size).toBe(1)
+		await expect(
+			llms.processTextCompletionTask({ model: 'second', prompt: 'hello' }),
+		).rejects.toThrow('Model not found')
+	})
+
+	it('stops downloads of removed models', async () => {
+		let downloadSignal: AbortSignal | undefined
+		const downloadingEngine: ModelEngine = {
+			async prepareModel(ctx, onProgress, signal) {
+				downloadSignal = signal
+				await new Promise((resolve) =>
+					signal?.addEventListener('abort', resolve),
+				)
+			},
+			async createInstance() {},
+			async disposeInstance() {},
+		}
+		const server = new ModelServer({
+			engines: { downloading: downloadingEngine },
+			models: {
+				large: {
+					engine: 'downloading',
+					task: 'text-completion',
+					prepare: 'async',
+				},
+			},
+		})
+		await server.start()
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		expect(downloadSignal?.aborted).toBe(false)
+		await server.removeModel('large')
+		expect(downloadSignal?.aborted).toBe(true)
+		await server.stop()
+	})
+
+	it('prepares instances with the meta of the updated model', async () => {
+		// each preparation waits until it is finished by the test
+		const finishPrepare: Array<() => void> = []
+		let prepareCount = 0
+		const estimatedMetas: unknown[] = []
+		const preparingEngine: ModelEngine = {
+			async prepareModel() {
+				const prepare = ++prepareCount
+				await new Promise<void>((resolve) => finishPrepare.push(resolve))
+				return { prepare }
+			},
+			async createInstance() {},
+			async disposeInstance() {},
+			async estimateResources({ meta }) {
+				estimatedMetas.push(meta)
+				return { ram: 0, vram: 0 }
+			},
+		}
+		const server = new ModelServer({
+			engines: { preparing: preparingEngine },
+			models: {
+				test: {
+					engine: 'preparing',
+					task: 'text-completion',
+					location: '/models/first.gguf',
+					prepare: 'async',
+				},
+			},
+		})
+		await server.start()
+		const lockPromise = server.requestInstance({ model: 'test' })
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		const updatePromise = server.updateModel('test', {
+			location: '/models/second.gguf',
+		})
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		// the preparation of the replaced model finishes first
+		finishPrepare[0]()
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		finishPrepare[1]()
+		await updatePromise
+		const lock = await lockPromise
+		await lock.release()
+		expect(estimatedMetas).not.toContain(undefined)
+		expect(estimatedMetas).toContainEqual({ prepare: 2 })
+		await server.stop()
+	})
+
+	it('can update a model', async () => {
+		await llms.updateModel('first', { minInstances: 2, maxInstances: 2 })
+		expect(llms.pool.config.models.first.maxInstances).toBe(2)
+		expect(instances.size).toBe(2)
+		await llms.updateModel('first', { minInstances: undefined })
+		expect(llms.pool.config.models.first.minInstances).toBe(0)
+		// instances with outdated config are disposed
+		expect(instances.size).toBe(0)
+	})
+})
@@ -0,0 +1,138 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import type { AddressInfo } from 'node:net'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { ModelEngine } from '#lllms/types/index.js'
+
+// completes text only. prompts starting with "fail" throw after streaming a chunk.
+const textEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request, onChunk }) {
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		onChunk?.({ text: 'hello', tokens: [] })
+		if (request.prompt?.startsWith('fail')) {
+			throw new Error('Engine crashed')
+		}
+		return {
+			text: 'hello',
+			promptTokens: 1,
+			completionTokens: 1,
+			totalTokens: 2,
+		}
+	},
+}
+
+suite('openai errors', () => {
+	let server: ModelHTTPServer
+	let baseURL: string
+
+	const post = (pathname: string, body: object) => {
+		return fetch(`${baseURL}/openai/v1${pathname}`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+		})
+	}
+
+	beforeAll(async () => {
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			logLevel: 'error',
+			engines: { text: textEngine },
+			models: {
+				text: { engine: 'text', task: 'text-completion', maxInstances: 1 },
+			},
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		baseURL = `http://localhost:${port}`
+	})
+
+	afterAll(async () => {
+		await server.close()
+	})
+
+	it('validates requests', async () => {
+		const missing = await post('/chat/completions', { model: 'text' })
+		expect(missing.status).toBe(400)
+		expect(await missing.json()).toEqual({
+			error: {
+				message: "Missing required parameter: 'messages'.",
+				type: 'invalid_request_error',
+				param: 'messages',
+				code: 'missing_required_parameter',
+			},
+		})
+		const invalidRole = await post('/chat/completions', {
+			model: 'text',
+			messages: [{ role: 'robot', content: 'hi' }],
+		})
+		expect((await invalidRole.json()).error).toMatchObject({
+			param: 'messages[0].role',
+			code: 'invalid_value',
+		})
+		const invalidType = await post('/completions', {
+			model: 'text',
+			prompt: 'hi',
+			temperature: 'hot',
+		})
+		expect((await invalidType.json()).error).toMatchObject({
+			param: 'temperature',
+			code: 'invalid_type',
+		})
+	})
+
+	it('responds with 404 to unknown models', async () => {
+		const response = await post('/completions', {
+			model: 'gpt-4',
+			prompt: 'hi',
+		})
+		expect(response.status).toBe(404)
+		expect((await response.json()).error).toMatchObject({
+			type: 'invalid_request_error',
+			code: 'model_not_found',
+		})
+	})
+
+	it('responds with 400 to tasks the engine cant process', async () => {
+		const response = await post('/embeddings', { model: 'text', input: 'hi' })
+		expect(response.status).toBe(400)
+		expect((await response.json()).error).toMatchObject({
+			param: 'model',
+			code: 'unsupported_task',
+		})
+		// the instance got released
+		const completion = await post('/completions', {
+			model: 'text',
+			prompt: 'hi',
+		})
+		expect(completion.status).toBe(200)
+	})
+
+	it('responds with 500 and hides error details', async () => {
+		const response = await post('/completions', {
+			model: 'text',
+			prompt: 'fail',
+		})
+		expect(response.status).toBe(500)
+		const { error } = await response.json()
+		expect(error.type).toBe('server_error')
+		expect(error.message).not.toContain('Engine crashed')
+	})
+
+	it('sends an error event once a stream has started', async () => {
+		const response = await post('/completions', {
+			model: 'text',
+			prompt: 'fail',
+			stream: true,
+		})
+		expect(response.status).toBe(200)
+		const events = (await response.text()).split('\n\n')
+		expect(events[0]).toMatch(/^data: \{/)
+		const errorEvent = events.find((event) => event.startsWith('event: error'))
+		const data = JSON.parse(errorEvent!.split('\n')[1].slice(6))
+		expect(data.error.type).toBe('server_error')
+	})
+})
@@ -0,0 +1,87 @@
+import { suite, it, expect, afterEach } from 'vitest'
+import { ModelPool, ModelPoolOptions } from '#lllms/pool.js'
+import { QueueFullError, QueueTimeoutError } from '#lllms/errors.js'
+import { createModelConfig, createPool } from './util.js'
+
+function createQueuePool(options: Omit<ModelPoolOptions, 'models'> = {}) {
+	return createPool({
+		...options,
+		models: {
+			first: createModelConfig('first', { maxPendingRequests: 1 }),
+			second: createModelConfig('second', { queueTimeout: 50 }),
+		},
+	})
+}
+
+suite('queue limits', () => {
+	let pool: ModelPool
+
+	afterEach(async () => {
+		await pool.dispose()
+	})
+
+	it('rejects requests if the model queue is full', async () => {
+		pool = await createQueuePool()
+		const lock = await pool.requestInstance({ model: 'first' })
+		const waitingRequest = pool.requestInstance({ model: 'first' })
+		await expect(pool.requestInstance({ model: 'first' })).rejects.toThrow(
+			QueueFullError,
+		)
+		await lock.release()
+		const waitingLock = await waitingRequest
+		await waitingLock.release()
+	})
+
+	it('rejects requests if the pool queue is full', async () => {
+		pool = await createQueuePool({ maxPendingRequests: 1 })
+		const firstLock = await pool.requestInstance({ model: 'first' })
+		const secondLock = await pool.requestInstance({ model: 'second' })
+		const waitingRequest = pool.requestInstance({ model: 'first' })
+		await expect(pool.requestInstance({ model: 'second' })).rejects.toThrow(
+			QueueFullError,
+		)
+		await firstLock.release()
+		await secondLock.release()
+		const waitingLock = await waitingRequest
+		await waitingLock.release()
+		expect(pool.getStatus().pending).toBe(0)
+	})
+
+	it('only reports waiting requests as aborted', async () => {
+		pool = await createQueuePool()
+		const abortedRequests: Array<number | undefined> = []
+		pool.on('request.aborted', (event) => abortedRequests.push(event.sequence))
+		const controller = new AbortController()
+		const lock = await pool.requestInstance(
+			{ model: 'second' },
+			controller.signal,
+		)
+		controller.abort()
+		await lock.release()
+		expect(abortedRequests).toEqual([])
+		const waitingController = new AbortController()
+		const blockingLock = await pool.requestInstance({ model: 'second' })
+		const waitingRequest = pool
+			.requestInstance({ model: 'second' }, waitingController.signal)
+			.catch((error) => error)
+		waitingController.abort()
+		await waitingRequest
+		expect(abortedRequests).toHaveLength(1)
+		await blockingLock.release()
+	})
+
+	it('times out requests waiting for an instance', async () => {
+		pool = await createQueuePool()
+		const lock = await pool.requestInstance({ model: 'second' })
+		const error = await pool
+			.requestInstance({ model: 'second' })
+			.catch((error) => error)
+		expect(error).toBeInstanceOf(QueueTimeoutError)
+		expect(error.retryAfter).toBe(1)
+		expect(pool.getStatus().pending).toBe(0)
+		await lock.release()
+		// the instance is still usable after the timeout
+		const nextLock = await pool.requestInstance({ model: 'second' })
+		await nextLock.release()
+	})
+})
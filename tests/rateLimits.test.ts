@@ -0,0 +1,121 @@
+import { suite, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import type { AddressInfo } from 'node:net'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { RateLimiter } from '#lllms/lib/rateLimiter.js'
+import { ModelEngine } from '#lllms/types/index.js'
+
+const echoEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request }) {
+		return {
+			text: request.prompt ?? '',
+			promptTokens: 3,
+			completionTokens: 2,
+			totalTokens: 5,
+		}
+	},
+}
+
+suite('rate limits', () => {
+	let server: ModelHTTPServer
+	let baseURL: string
+
+	const complete = (key: string, model: string) => {
+		return fetch(`${baseURL}/openai/v1/completions`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				Authorization: `Bearer ${key}`,
+			},
+			body: JSON.stringify({ model, prompt: 'hello' }),
+		})
+	}
+
+	beforeAll(async () => {
+		// counters use fixed windows, start the test at the beginning of a minute
+		vi.useFakeTimers({ toFake: ['Date'] })
+		vi.setSystemTime(new Date('2024-07-01T12:00:00Z'))
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			engines: { echo: echoEngine },
+			auth: {
+				keys: [
+					{ key: 'rpm-key', limits: { requestsPerMinute: 2 } },
+					{ key: 'tpd-key', modelLimits: { a: { tokensPerDay: 5 } } },
+				],
+			},
+			models: {
+				a: { engine: 'echo', task: 'text-completion' },
+				b: { engine: 'echo', task: 'text-completion' },
+			},
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		baseURL = `http://localhost:${port}`
+	})
+
+	afterAll(async () => {
+		await server.close()
+		vi.useRealTimers()
+	})
+
+	it('limits requests per minute', async () => {
+		const first = await complete('rpm-key', 'a')
+		expect(first.status).toBe(200)
+		expect(first.headers.get('x-ratelimit-limit-requests')).toBe('2')
+		expect(first.headers.get('x-ratelimit-remaining-requests')).toBe('1')
+		expect(first.headers.get('x-ratelimit-reset-requests')).toBe('1m0s')
+		expect((await complete('rpm-key', 'b')).status).toBe(200)
+		const limited = await complete('rpm-key', 'a')
+		expect(limited.status).toBe(429)
+		expect(limited.headers.get('retry-after')).toBe('60')
+		const body = await limited.json()
+		expect(body.error.type).toBe('requests')
+		expect(body.error.code).toBe('rate_limit_exceeded')
+		vi.setSystemTime(new Date('2024-07-01T12:01:00Z'))
+		expect((await complete('rpm-key', 'a')).status).toBe(200)
+	})
+
+	it('limits tokens per day and model', async () => {
+		expect((await complete('tpd-key', 'a')).status).toBe(200)
+		const limited = await complete('tpd-key', 'a')
+		expect(limited.status).toBe(429)
+		expect(limited.headers.get('x-ratelimit-remaining-tokens')).toBe('0')
+		expect((await limited.json()).error.type).toBe('tokens')
+		expect((await complete('tpd-key', 'b')).status).toBe(200)
+	})
+})
+
+suite('rate limiter', () => {
+	it('persists counters to a file', () => {
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lllms-limits-'))
+		const file = path.join(tmpDir, 'usage.json')
+		const scopes = [{ id: 'key', limits: { tokensPerDay: 100 } }]
+		const limiter = new RateLimiter({ file })
+		limiter.recordTokens(scopes, 40)
+		limiter.dispose()
+		const restored = new RateLimiter({ file })
+		expect(restored.consume(scopes).tokens?.remaining).toBe(60)
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+
+	it('starts over if the counters file is corrupt', () => {
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lllms-limits-'))
+		const file = path.join(tmpDir, 'usage.json')
+		fs.writeFileSync(file, '{"key":{"tokens":{"wind')
+		const scopes = [{ id: 'key', limits: { tokensPerDay: 100 } }]
+		const limiter = new RateLimiter({ file, log: () => {} })
+		expect(limiter.consume(scopes).tokens?.remaining).toBe(100)
+		limiter.recordTokens(scopes, 40)
+		limiter.dispose()
+		expect(fs.readdirSync(tmpDir)).toEqual(['usage.json'])
+		expect(new RateLimiter({ file }).consume(scopes).tokens?.remaining).toBe(60)
+		fs.rmSync(tmpDir, { recursive: true, force: true })
+	})
+})
@@ -0,0 +1,77 @@
+import { suite, it, expect, afterEach } from 'vitest'
+import { ModelPool } from '#lllms/pool.js'
+import { IncomingRequest } from '#lllms/types/index.js'
+import { createPool } from './util.js'
+
+// queues up the requests while the only instance is busy and returns the order they got served in
+async function getServedOrder(
+	pool: ModelPool,
+	requests: Record<string, Partial<IncomingRequest>>,
+) {
+	const servedOrder: string[] = []
+	const lock = await pool.requestInstance({ model: 'test', tenant: 'a' })
+	const requestPromises = Object.entries(requests).map(([name, request]) =>
+		pool
+			.requestInstance({ model: 'test', ...request } as IncomingRequest)
+			.then(async (lock) => {
+				servedOrder.push(name)
+				await lock.release()
+			}),
+	)
+	await lock.release()
+	await Promise.all(requestPromises)
+	return servedOrder
+}
+
+suite('scheduling', () => {
+	let pool: ModelPool
+
+	afterEach(async () => {
+		await pool.dispose()
+	})
+
+	it('serves higher priority requests first', async () => {
+		pool = await createPool({ concurrency: 4 })
+		const order = await getServedOrder(pool, {
+			low: { priority: 0 },
+			default: {},
+			high: { priority: 10 },
+			medium: { priority: 5 },
+		})
+		expect(order).toEqual(['high', 'medium', 'low', 'default'])
+	})
+
+	it('ignores priorities with fifo', async () => {
+		pool = await createPool({ concurrency: 4, scheduling: 'fifo' })
+		const order = await getServedOrder(pool, {
+			low: { priority: 0 },
+			high: { priority: 10 },
+		})
+		expect(order).toEqual(['low', 'high'])
+	})
+
+	it('interleaves tenants with weighted-fair', async () => {
+		pool = await createPool({
+			concurrency: 4,
+			scheduling: { policy: 'weighted-fair', groupBy: 'tenant' },
+		})
+		const order = await getServedOrder(pool, {
+			a1: { tenant: 'a' },
+			a2: { tenant: 'a' },
+			b1: { tenant: 'b' },
+			b2: { tenant: 'b' },
+		})
+		expect(order).toEqual(['a1', 'b1', 'a2', 'b2'])
+	})
+
+	it('records queue wait time', async () => {
+		pool = await createPool({ concurrency: 4 })
+		const lock = await pool.requestInstance({ model: 'test' })
+		const waitingRequest = pool.requestInstance({ model: 'test' })
+		await new Promise((resolve) => setTimeout(resolve, 50))
+		await lock.release()
+		const waitingLock = await waitingRequest
+		expect(waitingLock.queueWaitTime).toBeGreaterThanOrEqual(45)
+		await waitingLock.release()
+	})
+})
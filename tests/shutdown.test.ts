@@ -0,0 +1,91 @@
+import { suite, it, expect } from 'vitest'
+import { ModelEngine } from '#lllms/types/index.js'
+import { ModelServer } from '#lllms/server.js'
+import { ShutdownError } from '#lllms/errors.js'
+import { createSlowEngine, fakeEngine } from './util.js'
+
+async function startServer(duration: number) {
+	const llms = new ModelServer({
+		engines: { slow: createSlowEngine(duration) },
+		models: {
+			test: {
+				engine: 'slow',
+				task: 'text-completion',
+				minInstances: 1,
+			},
+		},
+	})
+	await llms.start()
+	return llms
+}
+
+suite('graceful shutdown', () => {
+	it('lets running tasks finish within the drain timeout', async () => {
+		const llms = await startServer(50)
+		const runningTask = llms.processTextCompletionTask({
+			model: 'test',
+			prompt: 'hello',
+		})
+		const waitingTask = llms.processTextCompletionTask({
+			model: 'test',
+			prompt: 'hello',
+		})
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		const stopPromise = llms.stop({ drainTimeout: 1000 })
+		await expect(
+			llms.processTextCompletionTask({ model: 'test', prompt: 'hello' }),
+		).rejects.toThrow(ShutdownError)
+		await expect(waitingTask).rejects.toThrow(ShutdownError)
+		const result = await runningTask
+		expect(result.text).toBe('done')
+		await stopPromise
+	})
+
+	it('cancels tasks that exceed the drain timeout', async () => {
+		const llms = await startServer(10000)
+		const runningTask = llms.processTextCompletionTask({
+			model: 'test',
+			prompt: 'hello',
+		})
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		const stopBegin = Date.now()
+		await llms.stop({ drainTimeout: 50 })
+		await expect(runningTask).rejects.toThrow(ShutdownError)
+		expect(Date.now() - stopBegin).toBeLessThan(1000)
+	})
+
+	it('disposes instances only after cancelled tasks settled', async () => {
+		const events: string[] = []
+		// takes a moment to clean up after being cancelled
+		const engine: ModelEngine = {
+			...fakeEngine,
+			async processTextCompletionTask(args, instance, signal) {
+				await new Promise((resolve) =>
+					signal?.addEventListener('abort', resolve),
+				)
+				await new Promise((resolve) => setTimeout(resolve, 20))
+				events.push('task settled')
+				throw signal?.reason
+			},
+			async disposeInstance() {
+				events.push('dispose')
+			},
+		}
+		const llms = new ModelServer({
+			engines: { slow: engine },
+			models: {
+				test: { engine: 'slow', task: 'text-completion', minInstances: 1 },
+			},
+		})
+		await llms.start()
+		const runningTask = llms.processTextCompletionTask({
+			model: 'test',
+			prompt: 'hello',
+		})
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		await llms.stop({ drainTimeout: 50 })
+		events.push('stopped')
+		await expect(runningTask).rejects.toThrow(ShutdownError)
+		expect(events).toEqual(['task settled', 'dispose', 'stopped'])
+	})
+})
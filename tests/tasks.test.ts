@@ -0,0 +1,75 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import type { AddressInfo } from 'node:net'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { ModelEngine } from '#lllms/types/index.js'
+
+// engine that never completes on its own
+const pendingEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask(args, instance, signal) {
+		await new Promise((resolve, reject) => {
+			signal?.addEventListener('abort', () => reject(new Error('Cancelled')))
+		})
+		return { text: '', promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+	},
+}
+
+suite('task registry', () => {
+	let server: ModelHTTPServer
+	let baseURL: string
+
+	beforeAll(async () => {
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			engines: { pending: pendingEngine },
+			models: {
+				test: {
+					engine: 'pending',
+					task: 'text-completion',
+					minInstances: 1,
+				},
+			},
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		baseURL = `http://localhost:${port}`
+	})
+
+	afterAll(async () => {
+		await server.close()
+	})
+
+	it('lists and cancels running tasks', async () => {
+		const llms = server.modelServer
+		const taskError = llms
+			.processTextCompletionTask({
+				model: 'test',
+				prompt: 'hello',
+			})
+			.catch((error) => error)
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		const listResponse = await fetch(`${baseURL}/tasks`)
+		const tasks = await listResponse.json()
+		expect(tasks).toHaveLength(1)
+		expect(tasks[0].model).toBe('test')
+		expect(tasks[0].type).toBe('text-completion')
+		expect(llms.getTask(tasks[0].id)).toBeDefined()
+
+		const cancelResponse = await fetch(`${baseURL}/tasks/${tasks[0].id}`, {
+			method: 'DELETE',
+		})
+		expect(cancelResponse.status).toBe(200)
+		expect((await taskError).message).toBe('Cancelled')
+		expect(llms.listTasks()).toHaveLength(0)
+	})
+
+	it('responds with 404 for unknown tasks', async () => {
+		const response = await fetch(`${baseURL}/tasks/unknown`, {
+			method: 'DELETE',
+		})
+		expect(response.status).toBe(404)
+	})
+})
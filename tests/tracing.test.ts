@@ -0,0 +1,154 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import crypto from 'node:crypto'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { AddressInfo } from 'node:net'
+import {
+	Context,
+	ContextManager,
+	ROOT_CONTEXT,
+	Span,
+	SpanOptions,
+	Tracer,
+	context,
+	trace,
+} from '@opentelemetry/api'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { ModelEngine } from '#lllms/types/index.js'
+
+class AsyncLocalStorageContextManager implements ContextManager {
+	private storage = new AsyncLocalStorage<Context>()
+	active() {
+		return this.storage.getStore() ?? ROOT_CONTEXT
+	}
+	with<A extends unknown[], F extends (...args: A) => ReturnType<F>>(
+		ctx: Context,
+		fn: F,
+		thisArg?: ThisParameterType<F>,
+		...args: A
+	): ReturnType<F> {
+		return this.storage.run(ctx, () => fn.call(thisArg, ...args))
+	}
+	bind<T>(ctx: Context, target: T) {
+		return target
+	}
+	enable() {
+		return this
+	}
+	disable() {
+		this.storage.disable()
+		return this
+	}
+}
+
+interface RecordedSpan {
+	name: string
+	traceId: string
+	spanId: string
+	parentSpanId?: string
+}
+
+// records which spans got started and their parents
+class RecordingTracer implements Tracer {
+	spans: RecordedSpan[] = []
+
+	startSpan(name: string, options?: SpanOptions, ctx = context.active()) {
+		const parent = trace.getSpanContext(ctx)
+		const spanContext = {
+			traceId: parent?.traceId ?? crypto.randomBytes(16).toString('hex'),
+			spanId: crypto.randomBytes(8).toString('hex'),
+			traceFlags: 1,
+		}
+		this.spans.push({
+			name,
+			traceId: spanContext.traceId,
+			spanId: spanContext.spanId,
+			parentSpanId: parent?.spanId,
+		})
+		return trace.wrapSpanContext(spanContext)
+	}
+
+	startActiveSpan<F extends (span: Span) => unknown>(
+		name: string,
+		...args: unknown[]
+	): ReturnType<F> {
+		const fn = args.pop() as F
+		const [options, ctx] = args as [SpanOptions?, Context?]
+		const parentContext = ctx ?? context.active()
+		const span = this.startSpan(name, options, parentContext)
+		return context.with(trace.setSpan(parentContext, span), fn, undefined, span)
+	}
+}
+
+const echoEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processTextCompletionTask({ request }) {
+		return {
+			text: request.prompt ?? '',
+			promptTokens: 1,
+			completionTokens: 1,
+			totalTokens: 2,
+		}
+	},
+}
+
+suite('tracing', () => {
+	const tracer = new RecordingTracer()
+	let server: ModelHTTPServer
+	let baseURL: string
+
+	beforeAll(async () => {
+		context.setGlobalContextManager(new AsyncLocalStorageContextManager())
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			engines: { echo: echoEngine },
+			tracer,
+			models: {
+				test: {
+					engine: 'echo',
+					task: 'text-completion',
+					minInstances: 1,
+				},
+			},
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		baseURL = `http://localhost:${port}`
+	})
+
+	afterAll(async () => {
+		await server.close()
+		context.disable()
+	})
+
+	it('continues incoming traces and nests pool and task spans', async () => {
+		const traceId = crypto.randomBytes(16).toString('hex')
+		const parentSpanId = crypto.randomBytes(8).toString('hex')
+		tracer.spans = []
+		const response = await fetch(`${baseURL}/openai/v1/completions`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				traceparent: `00-${traceId}-${parentSpanId}-01`,
+			},
+			body: JSON.stringify({ model: 'test', prompt: 'hello' }),
+		})
+		expect(response.status).toBe(200)
+		const spans = Object.fromEntries(
+			tracer.spans.map((span) => [span.name, span]),
+		)
+		const httpSpan = spans['POST /openai/v1/completions']
+		expect(httpSpan.traceId).toBe(traceId)
+		expect(httpSpan.parentSpanId).toBe(parentSpanId)
+		const requestSpan = spans['lllms.requestInstance']
+		expect(requestSpan.parentSpanId).toBe(httpSpan.spanId)
+		expect(spans['lllms.acquireInstance'].parentSpanId).toBe(
+			requestSpan.spanId,
+		)
+		expect(spans['lllms.processTextCompletionTask'].parentSpanId).toBe(
+			httpSpan.spanId,
+		)
+	})
+})
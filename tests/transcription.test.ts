@@ -0,0 +1,171 @@
+import { suite, it, expect, beforeAll, afterAll } from 'vitest'
+import fs from 'node:fs'
+import type { AddressInfo } from 'node:net'
+import type { IncomingMessage } from 'node:http'
+import { Readable } from 'node:stream'
+import { ModelHTTPServer, startHTTPServer } from '#lllms/http.js'
+import { ModelEngine } from '#lllms/types/index.js'
+import { parseMultipartRequestBody } from '#lllms/api/parseMultipartRequestBody.js'
+import { RequestBodyTooLargeError } from '#lllms/errors.js'
+
+const audioFiles: string[] = []
+
+// "transcribes" by reading the uploaded file as text
+const speechEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+	async processSpeechToTextTask({ request, onChunk }) {
+		audioFiles.push(request.file!)
+		const audio = fs.readFileSync(request.file!, 'utf8')
+		const text = request.task === 'translate' ? `english ${audio}` : audio
+		for (const word of text.split(' ')) {
+			onChunk?.({ text: word + ' ' })
+		}
+		return { text, language: request.language ?? 'en', duration: 2.5 }
+	},
+}
+
+suite('audio transcriptions and translations', () => {
+	let server: ModelHTTPServer
+	let baseURL: string
+
+	const transcribe = (
+		fields: Record<string, string> = {},
+		endpoint = 'transcriptions',
+	) => {
+		const formData = new FormData()
+		formData.append('file', new Blob(['hello world']), 'audio.mp3')
+		formData.append('model', 'whisper')
+		for (const [key, value] of Object.entries(fields)) {
+			formData.append(key, value)
+		}
+		return fetch(`${baseURL}/openai/v1/audio/${endpoint}`, {
+			method: 'POST',
+			body: formData,
+		})
+	}
+
+	beforeAll(async () => {
+		server = await startHTTPServer({
+			listen: { port: 0 },
+			engines: { speech: speechEngine },
+			models: {
+				whisper: { engine: 'speech', task: 'speech-to-text' },
+			},
+		})
+		const { port } = server.httpServer.address() as AddressInfo
+		baseURL = `http://localhost:${port}`
+	})
+
+	afterAll(async () => {
+		await server.close()
+	})
+
+	it('responds with json and removes the uploaded file', async () => {
+		const response = await transcribe({ language: 'de' })
+		expect(response.status).toBe(200)
+		expect(await response.json()).toEqual({ text: 'hello world' })
+		expect(fs.existsSync(audioFiles[audioFiles.length - 1])).toBe(false)
+	})
+
+	it('supports text, srt, vtt and verbose_json', async () => {
+		const text = await transcribe({ response_format: 'text' })
+		expect(await text.text()).toBe('hello world')
+		const srt = await transcribe({ response_format: 'srt' })
+		expect(await srt.text()).toBe(
+			'1\n00:00:00,000 --> 00:00:02,500\nhello world\n',
+		)
+		const vtt = await transcribe({ response_format: 'vtt' })
+		expect(await vtt.text()).toBe(
+			'WEBVTT\n\n00:00:00.000 --> 00:00:02.500\nhello world\n',
+		)
+		const verbose = await transcribe({
+			response_format: 'verbose_json',
+			language: 'en',
+		})
+		expect(await verbose.json()).toMatchObject({
+			task: 'transcribe',
+			language: 'en',
+			duration: 2.5,
+			text: 'hello world',
+			segments: [{ id: 0, start: 0, end: 2.5, text: 'hello world' }],
+		})
+	})
+
+	it('streams text deltas', async () => {
+		const response = await transcribe({ stream: 'true' })
+		expect(response.headers.get('content-type')).toBe('text/event-stream')
+		const events = (await response.text())
+			.split('\n\n')
+			.filter((line) => line.startsWith('data: {'))
+			.map((line) => JSON.parse(line.slice(6)))
+		expect(events.map((event) => event.type)).toEqual([
+			'transcript.text.delta',
+			'transcript.text.delta',
+			'transcript.text.done',
+		])
+		expect(events[2].text).toBe('hello world')
+	})
+
+	it('translates', async () => {
+		const response = await transcribe(
+			{ response_format: 'verbose_json' },
+			'translations',
+		)
+		expect(response.status).toBe(200)
+		expect(await response.json()).toMatchObject({
+			task: 'translate',
+			text: 'english hello world',
+		})
+	})
+
+	it('rejects requests without a file', async () => {
+		const formData = new FormData()
+		formData.append('model', 'whisper')
+		const response = await fetch(`${baseURL}/openai/v1/audio/transcriptions`, {
+			method: 'POST',
+			body: formData,
+		})
+		expect(response.status).toBe(400)
+	})
+})
+
+suite('multipart request bodies', () => {
+	// a chunked request, which doesnt announce its content length
+	const createChunkedRequest = (chunks: string[]) => {
+		const boundary = 'boundary'
+		const body = [
+			`--${boundary}\r\n`,
+			'Content-Disposition: form-data; name="file"; filename="audio.mp3"\r\n\r\n',
+			...chunks,
+			`\r\n--${boundary}--\r\n`,
+		]
+		return Object.assign(Readable.from(body.map((part) => Buffer.from(part))), {
+			url: '/openai/v1/audio/transcriptions',
+			method: 'POST',
+			headers: {
+				'content-type': `multipart/form-data; boundary=${boundary}`,
+				'transfer-encoding': 'chunked',
+			},
+		}) as unknown as IncomingMessage
+	}
+
+	it('parses chunked bodies within the limit', async () => {
+		const formData = await parseMultipartRequestBody(
+			createChunkedRequest(['hello ', 'world']),
+			1024,
+		)
+		const file = formData.get('file') as Blob
+		expect(await file.text()).toBe('hello world')
+	})
+
+	it('rejects chunked bodies once they exceed the limit', async () => {
+		const chunks = Array.from({ length: 64 }, () => 'a'.repeat(64))
+		await expect(
+			parseMultipartRequestBody(createChunkedRequest(chunks), 1024),
+		).rejects.toThrow(RequestBodyTooLargeError)
+	})
+})
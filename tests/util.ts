@@ -1,5 +1,71 @@
 import type { ModelServer } from '#lllms/server.js'
-import { ChatCompletionRequest, TextCompletionRequest } from '#lllms/types/index.js'
+import { ModelPool, ModelPoolOptions } from '#lllms/pool.js'
+import {
+	ChatCompletionRequest,
+	ModelConfig,
+	ModelEngine,
+	TextCompletionRequest,
+} from '#lllms/types/index.js'
+
+export const fakeEngine: ModelEngine = {
+	async prepareModel() {},
+	async createInstance() {
+		return {}
+	},
+	async disposeInstance() {},
+}
+
+// engine that takes the given time to complete text completions, unless cancelled
+export function createSlowEngine(duration = Infinity) {
+	const engine: ModelEngine = {
+		...fakeEngine,
+		async processTextCompletionTask(args, instance, signal) {
+			await new Promise<void>((resolve, reject) => {
+				const timeout = Number.isFinite(duration)
+					? setTimeout(resolve, duration)
+					: undefined
+				signal?.addEventListener('abort', () => {
+					clearTimeout(timeout)
+					reject(signal.reason)
+				})
+			})
+			return {
+				text: 'done',
+				promptTokens: 1,
+				completionTokens: 1,
+				totalTokens: 2,
+			}
+		},
+	}
+	return engine
+}
+
+export function createModelConfig(
+	id: string,
+	options: Partial<ModelConfig> = {},
+): ModelConfig {
+	return {
+		id,
+		engine: 'fake',
+		task: 'text-completion',
+		minInstances: 1,
+		maxInstances: 1,
+		...options,
+	}
+}
+
+// defaults to a single "test" model running on the fake engine
+export async function createPool(
+	options: Partial<ModelPoolOptions> = {},
+	engines: Record<string, ModelEngine> = { fake: fakeEngine },
+) {
+	const pool = new ModelPool({
+		models: { test: createModelConfig('test') },
+		...options,
+	})
+	await pool.init(engines)
+	return pool
+}
 
 const testDefaults = {
 	model: 'test',